@@ -1,53 +1,118 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { defaultShouldDehydrateQuery, Query, QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import { del, get, set } from "idb-keyval";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index"; // This will be our Dashboard
 import NotFound from "./pages/NotFound";
 import MatchesPage from "./pages/Matches";
 import PlayerStatsPage from "./pages/PlayerStatsPage";
+import PlayerStatsBulkPage from "./pages/PlayerStatsBulkPage";
 import StopwatchPage from "./pages/StopwatchPage";
+import TeamsPage from "./pages/TeamsPage";
+import PlayersPage from "./pages/PlayersPage";
+import MatchLinkingPage from "./pages/MatchLinkingPage";
+import PlayerLinkingPage from "./pages/PlayerLinkingPage";
+import ImportPage from "./pages/ImportPage";
+import BackupPage from "./pages/BackupPage";
+import MatchDetailPage from "./pages/MatchDetailPage";
+import LiveMatchPage from "./pages/LiveMatchPage";
+import StandingsPage from "./pages/StandingsPage";
+import PlayerProfilePage from "./pages/PlayerProfilePage";
+import SeasonsPage from "./pages/SeasonsPage";
+import CompetitionsPage from "./pages/CompetitionsPage";
 import LoginPage from "./pages/LoginPage"; // Import LoginPage
 import ProtectedRoute from "./components/ProtectedRoute"; // Import ProtectedRoute
 import AppLayout from "./components/AppLayout";
+import UpdatePrompt from "./components/UpdatePrompt";
+import AuthProvider from "./contexts/AuthProvider";
 
 
-const queryClient = new QueryClient();
+const CACHE_MAX_AGE = 1000 * 60 * 60 * 24 * 7; // A week of fields without coverage
+
+// Data already loaded stays readable offline: the query cache is kept in IndexedDB.
+// Writes made offline go through lib/outbox.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      gcTime: CACHE_MAX_AGE, // Must outlive the persisted cache, or restored queries are dropped
+    },
+  },
+});
+
+const persister = createAsyncStoragePersister({
+  storage: { getItem: get, setItem: set, removeItem: del },
+  key: 'statistiche-calcio-cache',
+});
+
+const persistOptions = {
+  persister,
+  maxAge: CACHE_MAX_AGE,
+  dehydrateOptions: {
+    // The backup comparison holds every table: no point in keeping it
+    shouldDehydrateQuery: (query: Query) =>
+      defaultShouldDehydrateQuery(query) && query.queryKey[0] !== 'backup',
+  },
+};
 
 const App = () => {
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <UpdatePrompt />
         <BrowserRouter>
-          {/* The background gradient is now applied to the main container */}
-          <div className="flex min-h-screen bg-gradient-to-br from-white to-blue-100 dark:from-gray-900 dark:to-blue-900">
-            <Routes>
-              {/* Login Route */}
-              <Route path="/login" element={<LoginPage />} />
-
-              {/* Protected Routes */}
-              {/* Use ProtectedRoute as the element for the routes that require authentication */}
-              <Route element={<ProtectedRoute />}>
-                 {/* AppLayout contains the sidebar and renders the nested routes via Outlet */}
-                <Route element={<AppLayout />}>
-                  <Route index element={<Index />} /> {/* Dashboard is the index route */}
-                  <Route path="/matches" element={<MatchesPage />} />
-                  <Route path="/player-stats" element={<PlayerStatsPage />} />
-                  <Route path="/stopwatch" element={<StopwatchPage />} />
+          <AuthProvider>
+            {/* The background gradient is now applied to the main container */}
+            <div className="flex min-h-screen bg-gradient-to-br from-white to-blue-100 dark:from-gray-900 dark:to-blue-900">
+              <Routes>
+                {/* Login Route */}
+                <Route path="/login" element={<LoginPage />} />
+
+                {/* Protected Routes */}
+                {/* Use ProtectedRoute as the element for the routes that require authentication */}
+                <Route element={<ProtectedRoute />}>
+                   {/* AppLayout contains the sidebar and renders the nested routes via Outlet */}
+                  <Route element={<AppLayout />}>
+                    <Route index element={<Index />} /> {/* Dashboard is the index route */}
+                    <Route path="/matches" element={<MatchesPage />} />
+                    <Route path="/matches/:matchId" element={<MatchDetailPage />} />
+                    <Route path="/player-stats" element={<PlayerStatsPage />} />
+                    <Route path="/standings" element={<StandingsPage />} />
+                    <Route path="/players" element={<PlayersPage />} />
+                    <Route path="/players/:playerId" element={<PlayerProfilePage />} />
+                    {/* Pages that record data */}
+                    <Route element={<ProtectedRoute allowedRoles={['admin', 'coach']} />}>
+                      <Route path="/matches/:matchId/live" element={<LiveMatchPage />} />
+                      <Route path="/player-stats/bulk" element={<PlayerStatsBulkPage />} />
+                    </Route>
+                    {/* Administration pages */}
+                    <Route element={<ProtectedRoute allowedRoles={['admin']} />}>
+                      <Route path="/player-stats/link-matches" element={<MatchLinkingPage />} />
+                      <Route path="/player-stats/link-players" element={<PlayerLinkingPage />} />
+                      <Route path="/import" element={<ImportPage />} />
+                      <Route path="/backup" element={<BackupPage />} />
+                    </Route>
+                    <Route path="/teams" element={<TeamsPage />} />
+                    <Route path="/seasons" element={<SeasonsPage />} />
+                    <Route path="/competitions" element={<CompetitionsPage />} />
+                    <Route path="/stopwatch" element={<StopwatchPage />} />
+                  </Route>
                 </Route>
-              </Route>
 
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              {/* Catch-all for 404 */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </div>
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                {/* Catch-all for 404 */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </div>
+          </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 };
 
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
+import SeasonSwitcher from './SeasonSwitcher';
+import SyncStatus from './SyncStatus';
+import SeasonProvider from '@/contexts/SeasonProvider';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
@@ -17,7 +20,7 @@ const AppLayout: React.FC = () => {
   };
 
   return (
-    <>
+    <SeasonProvider>
       {isMobile ? (
         <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
           <SheetTrigger asChild>
@@ -34,9 +37,14 @@ const AppLayout: React.FC = () => {
       )}
       {/* The Outlet component will render the content of the nested routes */}
       <main className={`flex-1 p-4 transition-all duration-300 ${isMobile ? 'mt-16' : 'ml-64'}`}>
+        {/* Every page is scoped to the season picked here */}
+        <div className="flex flex-wrap items-center justify-end gap-4">
+          <SyncStatus />
+          <SeasonSwitcher />
+        </div>
         <Outlet />
       </main>
-    </>
+    </SeasonProvider>
   );
 }; // <-- Parentesi corretta qui
 
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { CheckIcon, ChevronsUpDownIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+export interface ComboboxOption {
+  value: string;
+  label: string;
+  keywords?: string[]; // Extra search terms, e.g. a short name
+  icon?: React.ReactNode;
+}
+
+interface ComboboxProps extends Omit<React.ComponentPropsWithoutRef<typeof Button>, 'value' | 'onChange'> {
+  options: ComboboxOption[];
+  value?: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  searchPlaceholder?: string;
+  emptyText?: string;
+}
+
+// Searchable select built on Popover + Command. Extra props (id, aria-*) go to the trigger button so it works inside FormControl.
+const Combobox = React.forwardRef<HTMLButtonElement, ComboboxProps>(({
+  options,
+  value,
+  onChange,
+  placeholder = 'Seleziona...',
+  searchPlaceholder = 'Cerca...',
+  emptyText = 'Nessun risultato.',
+  className,
+  ...buttonProps
+}, ref) => {
+  const [open, setOpen] = useState(false);
+  const selectedOption = options.find(option => option.value === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          ref={ref}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn('w-full justify-between font-normal', !selectedOption && 'text-muted-foreground', className)}
+          {...buttonProps}
+        >
+          <span className="flex items-center gap-2 truncate">
+            {selectedOption?.icon}
+            {selectedOption ? selectedOption.label : placeholder}
+          </span>
+          <ChevronsUpDownIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder={searchPlaceholder} />
+          <CommandList>
+            <CommandEmpty>{emptyText}</CommandEmpty>
+            <CommandGroup>
+              {options.map((option) => (
+                <CommandItem
+                  key={option.value}
+                  value={option.value}
+                  keywords={[option.label, ...(option.keywords || [])]}
+                  onSelect={(selectedValue) => {
+                    onChange(selectedValue);
+                    setOpen(false);
+                  }}
+                >
+                  <CheckIcon className={cn('mr-2 h-4 w-4', value === option.value ? 'opacity-100' : 'opacity-0')} />
+                  {option.icon}
+                  <span className={cn(option.icon && 'ml-2')}>{option.label}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+});
+Combobox.displayName = 'Combobox';
+
+export default Combobox;
@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { repositories } from '@/lib/repositories';
+import { useMatches } from '@/hooks/use-matches';
+import { useCompetitions } from '@/hooks/use-competitions';
+import { useSeason } from '@/hooks/use-season';
+import { getSeasonRange } from '@/lib/seasons';
+import { countsForStats, getOwnClubResult, getTeamName } from '@/lib/matches';
+import { getMatchPoints } from '@/lib/competitions';
+import GoalTypeChart from '@/components/GoalTypeChart';
+import type { Competition } from '@/types/competition';
+import type { Match, MatchWithTeams } from '@/types/match';
+import type { PlayerGoals } from '@/types/playerStat';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+const ALL = 'all';
+const FORM_WINDOW = 5; // Matches averaged by the rolling form line
+
+// The season comes from the global season switcher, so charts only filter by competition
+interface ChartFilter {
+  competition: string; // competitions.id, or ALL
+}
+
+interface FilterOptions {
+  competitions: Competition[];
+}
+
+const matchesFilter = (match: Pick<Match, 'competition_id'>, filter: ChartFilter) =>
+  filter.competition === ALL || match.competition_id === filter.competition;
+
+// Competition select shown in the header of every chart
+const ChartFilters: React.FC<{ options: FilterOptions; value: ChartFilter; onChange: (value: ChartFilter) => void }> = ({ options, value, onChange }) => (
+  <div className="flex flex-wrap gap-2">
+    <Select value={value.competition} onValueChange={competition => onChange({ ...value, competition })}>
+      <SelectTrigger className="h-8 w-[170px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>Tutte le competizioni</SelectItem>
+        {options.competitions.map(competition => (
+          <SelectItem key={competition.id} value={competition.id}>{competition.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+// Card with a title, its own filters and the chart drawn for the filtered data
+const FilteredChartCard: React.FC<{
+  title: string;
+  options: FilterOptions;
+  children: (filter: ChartFilter) => React.ReactNode;
+}> = ({ title, options, children }) => {
+  const [filter, setFilter] = useState<ChartFilter>({ competition: ALL });
+
+  return (
+    <Card className="bg-blue-50 dark:bg-blue-900">
+      <CardHeader className="space-y-3">
+        <CardTitle>{title}</CardTitle>
+        <ChartFilters options={options} value={filter} onChange={setFilter} />
+      </CardHeader>
+      <CardContent>{children(filter)}</CardContent>
+    </Card>
+  );
+};
+
+const formChartConfig = {
+  points: { label: 'Punti', color: '#93c5fd' },
+  form: { label: `Media ultime ${FORM_WINDOW}`, color: '#2563eb' },
+} satisfies ChartConfig;
+
+const goalsChartConfig = {
+  goalsFor: { label: 'Gol fatti', color: '#16a34a' },
+  goalsAgainst: { label: 'Gol subiti', color: '#dc2626' },
+} satisfies ChartConfig;
+
+// Played matches of our club, oldest first, with the result from our side
+const toClubResults = (matches: MatchWithTeams[], filter: ChartFilter) =>
+  matches
+    .filter(match => new Date(match.match_date) <= new Date() && matchesFilter(match, filter))
+    .map(match => ({ match, result: getOwnClubResult(match) }))
+    .filter(({ result }) => result)
+    .reverse();
+
+const FormChart: React.FC<{ matches: MatchWithTeams[]; filter: ChartFilter }> = ({ matches, filter }) => {
+  const data = useMemo(() => {
+    const points: number[] = [];
+    // Points with the rules of each match's competition, so they add up as in the standings
+    return toClubResults(matches, filter).map(({ match, result }) => {
+      const matchPoints = getMatchPoints(match, result.outcome);
+      points.push(matchPoints);
+      const window = points.slice(-FORM_WINDOW);
+      return {
+        label: `${format(new Date(match.match_date), 'dd/MM')} ${getTeamName(result.opponent)}`,
+        points: matchPoints,
+        winPoints: getMatchPoints(match, 'win'), // Top of the axis, not drawn
+        form: Math.round((window.reduce((sum, value) => sum + value, 0) / window.length) * 100) / 100,
+      };
+    });
+  }, [matches, filter]);
+
+  if (data.length === 0) {
+    return <p>Nessuna partita giocata.</p>;
+  }
+
+  const maxPoints = Math.max(...data.map(item => item.winPoints));
+
+  return (
+    <ChartContainer config={formChartConfig} className="min-h-[250px] w-full">
+      <LineChart data={data} margin={{ left: -20, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickFormatter={(label: string) => label.slice(0, 5)} />
+        <YAxis domain={[0, maxPoints]} allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="points" type="monotone" stroke="var(--color-points)" strokeDasharray="4 4" />
+        <Line dataKey="form" type="monotone" stroke="var(--color-form)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+const GoalsChart: React.FC<{ matches: MatchWithTeams[]; filter: ChartFilter }> = ({ matches, filter }) => {
+  const data = useMemo(() => toClubResults(matches, filter).map(({ match, result }) => ({
+    label: `${format(new Date(match.match_date), 'dd/MM')} ${getTeamName(result.opponent)}`,
+    goalsFor: result.goalsFor,
+    goalsAgainst: result.goalsAgainst,
+  })), [matches, filter]);
+
+  if (data.length === 0) {
+    return <p>Nessuna partita giocata.</p>;
+  }
+
+  return (
+    <ChartContainer config={goalsChartConfig} className="min-h-[250px] w-full">
+      <BarChart data={data} margin={{ left: -20, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickFormatter={(label: string) => label.slice(0, 5)} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="goalsFor" fill="var(--color-goalsFor)" radius={4} />
+        <Bar dataKey="goalsAgainst" fill="var(--color-goalsAgainst)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+const SquadGoalTypeChart: React.FC<{ stats: PlayerGoals[]; filter: ChartFilter }> = ({ stats, filter }) => {
+  const totals = useMemo(() => stats
+    // All competitions together means the official ones: friendlies only show up when picked
+    .filter(stat => stat.match && (filter.competition === ALL ? countsForStats(stat.match) : matchesFilter(stat.match, filter)))
+    .reduce((sum, stat) => ({
+      right_foot_goals: sum.right_foot_goals + stat.right_foot_goals,
+      left_foot_goals: sum.left_foot_goals + stat.left_foot_goals,
+      header_goals: sum.header_goals + stat.header_goals,
+      penalties: sum.penalties + stat.penalties,
+    }), { right_foot_goals: 0, left_foot_goals: 0, header_goals: 0, penalties: 0 }), [stats, filter]);
+
+  return <GoalTypeChart totals={totals} />;
+};
+
+const DashboardCharts = () => {
+  const { season, seasonKey } = useSeason();
+  const { data: matches, isLoading: isLoadingMatches, error: matchesError } = useMatches();
+  const { data: competitions, isLoading: isLoadingCompetitions, error: competitionsError } = useCompetitions();
+
+  // Goal columns of the season's stat rows with the date and competition of their match
+  const { data: squadGoals, isLoading: isLoadingGoals, error: goalsError } = useQuery<PlayerGoals[]>({
+    queryKey: ['playerStats', 'goals', seasonKey],
+    queryFn: () => repositories.playerStats.listGoals(season ? getSeasonRange(season) : null),
+  });
+
+  const options: FilterOptions = { competitions: competitions || [] };
+
+  if (isLoadingMatches || isLoadingGoals || isLoadingCompetitions) {
+    return <p className="mb-8">Caricamento grafici...</p>;
+  }
+
+  if (matchesError || goalsError || competitionsError) {
+    const error = matchesError || goalsError || competitionsError;
+    return <p className="mb-8 text-red-500">Errore nel caricamento dei grafici: {error.message}</p>;
+  }
+
+  return (
+    <div className="mb-8 grid gap-8 lg:grid-cols-3">
+      <FilteredChartCard title="Andamento Risultati" options={options}>
+        {filter => <FormChart matches={matches || []} filter={filter} />}
+      </FilteredChartCard>
+      <FilteredChartCard title="Gol Fatti e Subiti" options={options}>
+        {filter => <GoalsChart matches={matches || []} filter={filter} />}
+      </FilteredChartCard>
+      <FilteredChartCard title="Tipologia Gol della Rosa" options={options}>
+        {filter => <SquadGoalTypeChart stats={squadGoals || []} filter={filter} />}
+      </FilteredChartCard>
+    </div>
+  );
+};
+
+export default DashboardCharts;
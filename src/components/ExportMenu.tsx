@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { DownloadIcon } from 'lucide-react';
+import { downloadCsv, downloadXlsx, ExportColumn, ExportFormat } from '@/lib/export';
+import { showError } from '@/utils/toast';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface ExportMenuProps<T> {
+  fileName: string; // Without extension, see exportFileName
+  sheetName?: string;
+  columns: ExportColumn<T>[];
+  getRows: () => T[] | Promise<T[]>; // The rows as shown, or fetched again when the table is paginated
+  disabled?: boolean;
+}
+
+// "Esporta" button in a table header, writing the table as CSV or Excel
+const ExportMenu = <T,>({ fileName, sheetName, columns, getRows, disabled }: ExportMenuProps<T>) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const rows = await getRows();
+      if (exportFormat === 'csv') {
+        downloadCsv(fileName, rows, columns);
+      } else {
+        await downloadXlsx(fileName, rows, columns, sheetName);
+      }
+    } catch (error) {
+      console.error('Error exporting table:', error);
+      showError(`Errore durante l'esportazione: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || isExporting}>
+          <DownloadIcon className="mr-2 h-4 w-4" /> {isExporting ? 'Esportazione...' : 'Esporta'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport('csv')}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
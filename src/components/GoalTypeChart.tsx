@@ -0,0 +1,51 @@
+import React from 'react';
+import { Cell, Pie, PieChart } from 'recharts';
+import type { PlayerStat } from '@/types/playerStat';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+const goalTypeChartConfig = {
+  right_foot_goals: { label: 'Destro', color: '#2563eb' },
+  left_foot_goals: { label: 'Sinistro', color: '#16a34a' },
+  header_goals: { label: 'Testa', color: '#f59e0b' },
+  penalties: { label: 'Rigore', color: '#dc2626' },
+} satisfies ChartConfig;
+
+type GoalType = keyof typeof goalTypeChartConfig;
+
+interface GoalTypeChartProps {
+  totals: Pick<PlayerStat, GoalType>;
+}
+
+// Pie of goals split by right foot, left foot, header and penalty
+const GoalTypeChart: React.FC<GoalTypeChartProps> = ({ totals }) => {
+  const data = (Object.keys(goalTypeChartConfig) as GoalType[])
+    .map(goalType => ({ goalType, goals: totals[goalType] }))
+    .filter(item => item.goals > 0);
+
+  if (data.length === 0) {
+    return <p>Nessun gol segnato.</p>;
+  }
+
+  return (
+    <ChartContainer config={goalTypeChartConfig} className="min-h-[250px] w-full">
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="goalType" hideLabel />} />
+        <ChartLegend content={<ChartLegendContent nameKey="goalType" />} />
+        <Pie data={data} dataKey="goals" nameKey="goalType" innerRadius={50}>
+          {data.map(item => (
+            <Cell key={item.goalType} fill={`var(--color-${item.goalType})`} />
+          ))}
+        </Pie>
+      </PieChart>
+    </ChartContainer>
+  );
+};
+
+export default GoalTypeChart;
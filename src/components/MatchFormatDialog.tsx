@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PlusIcon } from 'lucide-react';
+import type { MatchFormat } from '@/lib/matchFormats';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+// Define the schema for the form using Zod
+const matchFormatFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Il nome è richiesto.' }),
+  periods: z.coerce.number().int().min(1, { message: 'Almeno un tempo.' }).max(6, { message: 'Massimo 6 tempi.' }),
+  periodMinutes: z.coerce.number().int().min(1, { message: 'Durata non valida.' }).max(60, { message: 'Durata non valida.' }),
+  breakMinutes: z.coerce.number().int().min(0, { message: 'Durata non valida.' }).max(30, { message: 'Durata non valida.' }),
+  extraTimePeriods: z.coerce.number().int().min(0).max(2, { message: 'Massimo 2 tempi supplementari.' }),
+  extraTimeMinutes: z.coerce.number().int().min(0, { message: 'Durata non valida.' }).max(30, { message: 'Durata non valida.' }),
+});
+
+type MatchFormatFormValues = z.infer<typeof matchFormatFormSchema>;
+
+const numberFields: { name: Exclude<keyof MatchFormatFormValues, 'name'>; label: string }[] = [
+  { name: 'periods', label: 'Numero di tempi' },
+  { name: 'periodMinutes', label: 'Minuti per tempo' },
+  { name: 'breakMinutes', label: 'Minuti di intervallo' },
+  { name: 'extraTimePeriods', label: 'Tempi supplementari' },
+  { name: 'extraTimeMinutes', label: 'Minuti per supplementare' },
+];
+
+interface MatchFormatDialogProps {
+  onSave: (format: Omit<MatchFormat, 'id' | 'isCustom'>) => void;
+}
+
+// Dialog to create a custom match format
+const MatchFormatDialog: React.FC<MatchFormatDialogProps> = ({ onSave }) => {
+  const [open, setOpen] = useState(false);
+  const form = useForm<MatchFormatFormValues>({
+    resolver: zodResolver(matchFormatFormSchema),
+    defaultValues: { name: '', periods: 2, periodMinutes: 25, breakMinutes: 5, extraTimePeriods: 0, extraTimeMinutes: 0 },
+  });
+
+  const onSubmit = (values: MatchFormatFormValues) => {
+    onSave({
+      name: values.name,
+      periods: values.periods,
+      periodMinutes: values.periodMinutes,
+      breakMinutes: values.breakMinutes,
+      extraTimePeriods: values.extraTimePeriods,
+      extraTimeMinutes: values.extraTimePeriods > 0 ? values.extraTimeMinutes : 0,
+    });
+    form.reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Nuovo formato">
+          <PlusIcon className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Nuovo Formato Partita</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Es. Esordienti (3×20)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              {numberFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <Button type="submit">Salva Formato</Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MatchFormatDialog;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { SearchIcon, XIcon } from 'lucide-react';
+import { useTeams } from '@/hooks/use-teams';
+import { useCompetitions } from '@/hooks/use-competitions';
+import { defaultMatchListParams, hasMatchListFilters, MatchListParams } from '@/lib/matchList';
+import Combobox from '@/components/Combobox';
+import { TeamColors } from '@/components/TeamName';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const ALL = 'all'; // Select items can't have an empty value
+
+interface MatchListFiltersProps {
+  params: MatchListParams;
+  onChange: (changes: Partial<MatchListParams>) => void;
+}
+
+// Filter bar of the matches list. Every change goes straight to the URL, the search text after a short pause.
+const MatchListFilters: React.FC<MatchListFiltersProps> = ({ params, onChange }) => {
+  const { data: teams } = useTeams();
+  const { data: competitions } = useCompetitions();
+  const [search, setSearch] = useState(params.q);
+
+  // Follow the URL when it changes from outside (back button, reset)
+  useEffect(() => {
+    setSearch(params.q);
+  }, [params.q]);
+
+  useEffect(() => {
+    if (search === params.q) return;
+    const timeout = setTimeout(() => onChange({ q: search }), 300);
+    return () => clearTimeout(timeout);
+  }, [search, params.q, onChange]);
+
+  const opponentOptions = (teams || [])
+    .filter(team => !team.is_own_club)
+    .map(team => ({ value: team.id, label: team.name, keywords: team.short_name ? [team.short_name] : [], icon: <TeamColors team={team} /> }));
+
+  return (
+    <div className="mb-4 flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label htmlFor="match-search">Cerca</Label>
+        <div className="relative">
+          <SearchIcon className="absolute left-2 top-3 h-4 w-4 text-muted-foreground" />
+          <Input id="match-search" className="w-[200px] pl-8" placeholder="Squadra, competizione, note" value={search} onChange={event => setSearch(event.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="match-from">Dal</Label>
+        <Input id="match-from" type="date" className="w-[150px]" value={params.from} onChange={event => onChange({ from: event.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="match-to">Al</Label>
+        <Input id="match-to" type="date" className="w-[150px]" value={params.to} onChange={event => onChange({ to: event.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label>Avversario</Label>
+        <Combobox
+          className="w-[200px]"
+          options={opponentOptions}
+          value={params.opponent}
+          onChange={opponent => onChange({ opponent })}
+          placeholder="Tutti"
+          searchPlaceholder="Cerca squadra..."
+          emptyText="Nessuna squadra trovata."
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Competizione</Label>
+        <Select value={params.competition || ALL} onValueChange={value => onChange({ competition: value === ALL ? '' : value })}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tutte</SelectItem>
+            {(competitions || []).map(competition => (
+              <SelectItem key={competition.id} value={competition.id}>{competition.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>Risultato</Label>
+        <Select value={params.result || ALL} onValueChange={value => onChange({ result: value === ALL ? '' : value as MatchListParams['result'] })}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tutti</SelectItem>
+            <SelectItem value="win">Vittorie</SelectItem>
+            <SelectItem value="draw">Pareggi</SelectItem>
+            <SelectItem value="loss">Sconfitte</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>Campo</Label>
+        <Select value={params.venue || ALL} onValueChange={value => onChange({ venue: value === ALL ? '' : value as MatchListParams['venue'] })}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tutti</SelectItem>
+            <SelectItem value="home">Casa</SelectItem>
+            <SelectItem value="away">Trasferta</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {hasMatchListFilters(params) && (
+        <Button
+          variant="ghost"
+          onClick={() => onChange({ ...defaultMatchListParams, sort: params.sort, dir: params.dir })}
+        >
+          <XIcon className="mr-2 h-4 w-4" /> Azzera filtri
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default MatchListFilters;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { FileTextIcon } from 'lucide-react';
+import { useMatches } from '@/hooks/use-matches';
+import { useMatchPlayerStats } from '@/hooks/use-match-player-stats';
+import { buildMatchReport, generateMatchReportPdf } from '@/lib/matchReport';
+import { showError } from '@/utils/toast';
+import type { MatchWithTeams } from '@/types/match';
+
+import { Button } from '@/components/ui/button';
+
+// Downloads the printable PDF summary of a match
+const MatchReportButton: React.FC<{ match: MatchWithTeams }> = ({ match }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { data: stats, isLoading: isLoadingStats } = useMatchPlayerStats(match.id);
+  const { data: matches, isLoading: isLoadingMatches } = useMatches('all'); // The form can go back into the previous season
+
+  const handleClick = async () => {
+    setIsGenerating(true);
+    try {
+      await generateMatchReportPdf(buildMatchReport(match, stats || [], matches || []));
+    } catch (error) {
+      console.error('Error generating match report:', error);
+      showError(`Errore durante la creazione del report: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleClick} disabled={isLoadingStats || isLoadingMatches || isGenerating}>
+      <FileTextIcon className="mr-2 h-4 w-4" /> {isGenerating ? 'Generazione...' : 'Genera report'}
+    </Button>
+  );
+};
+
+export default MatchReportButton;
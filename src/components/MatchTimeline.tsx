@@ -0,0 +1,81 @@
+import React from 'react';
+import { ArrowRightLeftIcon, SquareIcon, Trash2Icon, TrophyIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { eventTypeLabels, formatEventMinute, goalTypeLabels, relatedPlayerLabels } from '@/lib/matchEvents';
+import { formatPlayerName } from '@/lib/players';
+import { Button } from '@/components/ui/button';
+import type { MatchEvent } from '@/types/matchEvent';
+import type { MatchWithTeams } from '@/types/match';
+import type { Player } from '@/types/player';
+
+interface MatchTimelineProps {
+  match: MatchWithTeams;
+  events: MatchEvent[];
+  players: Player[];
+  onDelete?: (event: MatchEvent) => void; // Delete button is shown only if provided
+  isDeleting?: boolean;
+}
+
+const EventIcon: React.FC<{ event: MatchEvent }> = ({ event }) => {
+  switch (event.event_type) {
+    case 'goal':
+    case 'own_goal':
+      return <TrophyIcon className="h-4 w-4" />;
+    case 'yellow_card':
+      return <SquareIcon className="h-4 w-4 fill-yellow-400 text-yellow-500" />;
+    case 'red_card':
+      return <SquareIcon className="h-4 w-4 fill-red-500 text-red-600" />;
+    case 'substitution':
+      return <ArrowRightLeftIcon className="h-4 w-4" />;
+  }
+};
+
+// Events listed by minute, home team events on the left and away team events on the right
+const MatchTimeline: React.FC<MatchTimelineProps> = ({ match, events, players, onDelete, isDeleting }) => {
+  const playerName = (playerId: string | null) => {
+    const player = playerId && players.find(p => p.id === playerId);
+    return player ? formatPlayerName(player) : null;
+  };
+
+  if (events.length === 0) {
+    return <p>Nessun evento registrato.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {events.map((event) => {
+        const isHome = event.team_id === match.home_team_id;
+        const mainPlayer = playerName(event.player_id);
+        const relatedPlayer = playerName(event.related_player_id);
+        const relatedLabel = relatedPlayerLabels[event.event_type];
+        return (
+          <li key={event.id} className={cn('flex items-center gap-3 rounded-md border bg-background p-2', !isHome && 'flex-row-reverse text-right')}>
+            <span className="w-16 shrink-0 text-center">
+              <span className="font-mono font-semibold">{formatEventMinute(event)}</span>
+              {event.period && <span className="block text-xs text-muted-foreground">{event.period}</span>}
+            </span>
+            <EventIcon event={event} />
+            <div className="flex-1">
+              <div className="font-medium">
+                {eventTypeLabels[event.event_type]}
+                {event.goal_type && ` (${goalTypeLabels[event.goal_type]})`}
+                {mainPlayer && ` · ${mainPlayer}`}
+              </div>
+              {relatedPlayer && relatedLabel && (
+                <div className="text-sm text-muted-foreground">{relatedLabel}: {relatedPlayer}</div>
+              )}
+              {event.notes && <div className="text-sm text-muted-foreground">{event.notes}</div>}
+            </div>
+            {onDelete && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isDeleting} onClick={() => onDelete(event)}>
+                <Trash2Icon className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default MatchTimeline;
@@ -0,0 +1,12 @@
+import React from 'react';
+import type { OutboxEntry } from '@/lib/outbox';
+import { Badge } from '@/components/ui/badge';
+
+// Marks a table row whose change is still in the offline outbox
+const PendingBadge: React.FC<{ entry: OutboxEntry }> = ({ entry }) => (
+  <Badge variant={entry.status === 'pending' ? 'outline' : 'destructive'} className="ml-2 whitespace-nowrap">
+    {entry.status !== 'pending' ? 'Da risolvere' : entry.operation === 'delete' ? 'Da eliminare' : 'In attesa'}
+  </Badge>
+);
+
+export default PendingBadge;
@@ -1,17 +1,39 @@
 import React from 'react';
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import type { UserRole } from '@/lib/roles';
 
-const ProtectedRoute: React.FC = () => {
-  // Check if the user is logged in (e.g., by checking localStorage)
-  const isLoggedIn = localStorage.getItem('isLoggedIn') === 'true';
+interface ProtectedRouteProps {
+  // Roles allowed to open the nested routes. Any logged-in user if omitted.
+  allowedRoles?: UserRole[];
+}
 
-  if (!isLoggedIn) {
-    // If not logged in, redirect to the login page
-    return <Navigate to="/login" replace />;
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles }) => {
+  const { session, role, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    // Wait for the stored session to be restored before deciding
+    return <div className="container mx-auto py-8">Caricamento...</div>;
+  }
+
+  if (!session) {
+    // If not logged in, redirect to the login page and remember where the user was going
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (allowedRoles && !allowedRoles.includes(role)) {
+    // Logged in, but this page is reserved to other roles
+    return (
+      <div className="container mx-auto py-8">
+        <h1 className="text-3xl font-bold mb-6">Accesso negato</h1>
+        <p>Non hai i permessi necessari per visualizzare questa pagina.</p>
+      </div>
+    );
   }
 
   // If logged in, render the child routes
   return <Outlet />;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,41 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface ReplaceStatsDialogProps {
+  statCount: number; // Stat rows entered by hand for the match, see countStatsReplacedByEvents
+  open: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asked before the first event of a match whose stats were entered by hand: from then on the
+// events decide goals, assists and cards
+const ReplaceStatsDialog: React.FC<ReplaceStatsDialogProps> = ({ statCount, open, onConfirm, onCancel }) => (
+  <AlertDialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Sostituire le statistiche inserite a mano?</AlertDialogTitle>
+        <AlertDialogDescription>
+          La partita ha {statCount} {statCount === 1 ? 'statistica inserita' : 'statistiche inserite'} a mano.
+          Con il primo evento gol, assist e cartellini verranno calcolati dagli eventi e sostituiranno quelli inseriti.
+          Le note restano.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Annulla</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>Registra l'evento</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default ReplaceStatsDialog;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArchiveIcon } from 'lucide-react';
+import { useSeason } from '@/hooks/use-season';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Picks the season every page is scoped to
+const SeasonSwitcher: React.FC = () => {
+  const { seasons, season, isLoading, selectSeason } = useSeason();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!season) {
+    return (
+      <Link to="/seasons" className="text-sm text-muted-foreground hover:underline">
+        Nessuna stagione: vengono mostrati tutti i dati
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">Stagione</span>
+      <Select value={season.id} onValueChange={selectSeason}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {seasons.map(item => (
+            <SelectItem key={item.id} value={item.id}>
+              <span className="inline-flex items-center gap-2">
+                {item.name}
+                {item.is_archived && <ArchiveIcon className="h-3 w-3 text-muted-foreground" />}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {season.is_archived && <Badge variant="secondary">Archiviata · sola lettura</Badge>}
+    </div>
+  );
+};
+
+export default SeasonSwitcher;
@@ -1,24 +1,62 @@
-import React from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import { HomeIcon, CalendarIcon, BarChartIcon, ClockIcon } from 'lucide-react'; // Add ClockIcon
+import { HomeIcon, CalendarIcon, BarChartIcon, ClockIcon, LogOutIcon, ShieldIcon, UsersIcon, TrophyIcon, CalendarRangeIcon, MedalIcon, UploadIcon, DatabaseBackupIcon } from 'lucide-react'; // Add ClockIcon
+import { useAuth } from '@/hooks/use-auth';
+import { useOutbox } from '@/hooks/use-outbox';
+import { roleLabels } from '@/lib/roles';
+import { CLUB_NAME } from '@/lib/club';
+import { showError } from '@/utils/toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 interface SidebarProps {
   onLinkClick?: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ onLinkClick }) => {
+  const { user, role, can, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { entries: outboxEntries } = useOutbox();
+  const [isConfirmingLogout, setIsConfirmingLogout] = useState(false);
+
   const navItems = [
     { path: '/', name: 'Dashboard', icon: HomeIcon },
     { path: '/matches', name: 'Partite', icon: CalendarIcon },
     { path: '/player-stats', name: 'Statistiche Calciatore', icon: BarChartIcon },
+    { path: '/standings', name: 'Classifica', icon: TrophyIcon },
+    { path: '/players', name: 'Rosa', icon: UsersIcon },
+    { path: '/teams', name: 'Squadre', icon: ShieldIcon },
+    { path: '/seasons', name: 'Stagioni', icon: CalendarRangeIcon },
+    { path: '/competitions', name: 'Competizioni', icon: MedalIcon },
     { path: '/stopwatch', name: 'Cronometro', icon: ClockIcon }, // Add new link
-  ];
+    { path: '/import', name: 'Importa CSV', icon: UploadIcon, permission: 'manage' as const },
+    { path: '/backup', name: 'Backup', icon: DatabaseBackupIcon, permission: 'manage' as const },
+  ].filter(item => !item.permission || can(item.permission)); // Administration pages only for who can open them
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      onLinkClick?.();
+      navigate('/login', { replace: true });
+    } catch (error) {
+      console.error('Error signing out:', error);
+      showError('Errore durante la disconnessione.');
+    }
+  };
 
   return (
     <div className="flex flex-col h-screen w-64 border-r bg-sidebar text-sidebar-foreground p-4 shadow-md fixed left-0 top-0 z-40 max-md:hidden">
-      <div className="mb-8 text-2xl font-bold text-sidebar-primary">14 Leon</div>
+      <div className="mb-8 text-2xl font-bold text-sidebar-primary">{CLUB_NAME}</div>
       <nav className="flex flex-col space-y-2">
         {navItems.map((item) => (
           <Button
@@ -38,6 +76,38 @@ const Sidebar: React.FC<SidebarProps> = ({ onLinkClick }) => {
           </Button>
         ))}
       </nav>
+      {/* Current user and logout, pinned to the bottom of the sidebar */}
+      <div className="mt-auto space-y-2 border-t pt-4">
+        {user?.email && (
+          <div className="px-4 text-sm text-muted-foreground">
+            <div className="truncate" title={user.email}>{user.email}</div>
+            <div className="text-xs">{roleLabels[role]}</div>
+          </div>
+        )}
+        <Button
+          variant="ghost"
+          className="w-full justify-start text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+          // Logging out drops the writes still waiting to be sent
+          onClick={outboxEntries.length > 0 ? () => setIsConfirmingLogout(true) : handleLogout}
+        >
+          <LogOutIcon className="mr-2 h-4 w-4" />
+          Esci
+        </Button>
+        <AlertDialog open={isConfirmingLogout} onOpenChange={setIsConfirmingLogout}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Uscire senza sincronizzare?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {outboxEntries.length === 1 ? 'Una modifica non è ancora stata inviata' : `${outboxEntries.length} modifiche non sono ancora state inviate`}: uscendo andranno perse.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Annulla</AlertDialogCancel>
+              <AlertDialogAction onClick={handleLogout}>Esci comunque</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
     </div>
   );
 };
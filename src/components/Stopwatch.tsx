@@ -1,77 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { PlayIcon, PauseIcon, RotateCcwIcon, FlagIcon } from 'lucide-react'; // Icons for controls
-
-const timePointLabels = ['1° Tempo', '2° Tempo', '3° Tempo', '4° Tempo', 'Tempo Supplementare', 'Intervallo', 'Fine Partita'];
-
-const Stopwatch: React.FC = () => {
-  const [time, setTime] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
-  const [isSelectingLabel, setIsSelectingLabel] = useState(false); // State to show/hide label selection
-  const [currentDisplayedLabel, setCurrentDisplayedLabel] = useState<string | null>(null); // State to display the selected label
-  const intervalRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    if (isRunning) {
-      intervalRef.current = window.setInterval(() => {
-        setTime((prevTime) => prevTime + 10); // Update every 10ms
-      }, 10);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    }
-
-    // Cleanup function to clear interval when component unmounts
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isRunning]); // Re-run effect when isRunning changes
-
-  const formatTime = (milliseconds: number) => {
-    const minutes = Math.floor(milliseconds / 60000);
-    const seconds = Math.floor((milliseconds % 60000) / 1000);
-    const centiseconds = Math.floor((milliseconds % 1000) / 10);
-
-    const pad = (num: number) => num.toString().padStart(2, '0');
-
-    return `${pad(minutes)}:${pad(seconds)}.${pad(centiseconds)}`;
-  };
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PlayIcon, PauseIcon, RotateCcwIcon, FlagIcon, Trash2Icon, TimerIcon } from 'lucide-react'; // Icons for controls
+import { cn } from '@/lib/utils';
+import { useMatchFormats } from '@/hooks/use-match-formats';
+import type { StopwatchState } from '@/hooks/use-stopwatch';
+import MatchFormatDialog from './MatchFormatDialog';
+
+interface StopwatchProps {
+  // Clock state from useStopwatch, owned by the page so it can also read the current minute
+  stopwatch: StopwatchState;
+}
+
+const formatTime = (milliseconds: number) => {
+  const minutes = Math.floor(milliseconds / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  const centiseconds = Math.floor((milliseconds % 1000) / 10);
+
+  const pad = (num: number) => num.toString().padStart(2, '0');
+
+  return `${pad(minutes)}:${pad(seconds)}.${pad(centiseconds)}`;
+};
 
-  const handleStartStop = () => {
-    setIsRunning(!isRunning);
-    // If stopping, hide label selection
-    if (isRunning) {
-      setIsSelectingLabel(false);
-    }
-  };
+const Stopwatch: React.FC<StopwatchProps> = ({ stopwatch }) => {
+  const {
+    format, phase, nextPhase, time, isRunning, isStarted, isFinished, isOvertime, canPlayExtraTime,
+    currentLabel, currentMinute, addedMinute, startStop, endPhase, startExtraTime, reset, selectFormat,
+  } = stopwatch;
+  const { formats, addCustomFormat, deleteCustomFormat } = useMatchFormats();
 
-  const handleReset = () => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
-    setIsRunning(false);
-    setTime(0);
-    setIsSelectingLabel(false); // Hide label selection on reset
-    setCurrentDisplayedLabel(null); // Clear the displayed label
-  };
+  const isBreak = phase.kind === 'break';
+  // Periods count up (with added time after regulation), breaks count down
+  const displayedTime = isBreak ? Math.max(0, phase.durationMs - time) : time;
 
-  // Function to show label selection
-  const handleShowLabelSelection = () => {
-    if (isRunning) {
-      setIsSelectingLabel(true);
-    }
-  };
-
-  // Function to handle selecting a time point label
-  const handleSelectTimePoint = (label: string) => {
-    if (isRunning) {
-      setCurrentDisplayedLabel(label); // Set the selected label to be displayed
-      setIsSelectingLabel(false); // Hide label selection after selecting
-    }
+  const handleDeleteFormat = () => {
+    deleteCustomFormat(format.id);
+    selectFormat(formats[0].id);
   };
 
   return (
@@ -81,47 +53,67 @@ const Stopwatch: React.FC = () => {
       </CardHeader>
       <CardContent className="flex flex-col items-center space-y-6">
 
-        {/* Display the selected label above the main timer */}
-        {currentDisplayedLabel && (
-          <div className="w-full text-center text-lg font-semibold text-gray-800 dark:text-gray-200">
-            {currentDisplayedLabel}
-          </div>
-        )}
+        {/* Match format, can be changed only before kick-off */}
+        <div className="flex w-full items-center gap-2">
+          <Select value={format.id} onValueChange={selectFormat} disabled={isStarted}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {formats.map((matchFormat) => (
+                <SelectItem key={matchFormat.id} value={matchFormat.id}>{matchFormat.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!isStarted && <MatchFormatDialog onSave={(newFormat) => selectFormat(addCustomFormat(newFormat).id)} />}
+          {!isStarted && format.isCustom && (
+            <Button variant="outline" size="icon" title="Elimina formato" onClick={handleDeleteFormat}>
+              <Trash2Icon className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
 
-        <div className="text-6xl font-mono">
-          {formatTime(time)}
+        {/* Current period and match minute */}
+        <div className="flex w-full items-center justify-between text-lg font-semibold text-gray-800 dark:text-gray-200">
+          <span>{currentLabel}</span>
+          {!isBreak && !isFinished && (
+            <Badge variant={addedMinute ? 'destructive' : 'secondary'} className="text-base">
+              {currentMinute}'{addedMinute && `+${addedMinute}`}
+            </Badge>
+          )}
         </div>
-        <div className="flex space-x-4">
-          <Button onClick={handleStartStop} variant={isRunning ? 'destructive' : 'default'}>
-            {isRunning ? <><PauseIcon className="mr-2 h-4 w-4" /> Stop</> : <><PlayIcon className="mr-2 h-4 w-4" /> Start</>}
-          </Button>
-          <Button onClick={handleReset} variant="outline" disabled={isRunning && time === 0}>
+
+        <div className={cn('text-6xl font-mono', isOvertime && !isBreak && 'text-red-600')}>
+          {formatTime(displayedTime)}
+        </div>
+        {isBreak && !isFinished && nextPhase && (
+          <p className="text-sm text-muted-foreground">Alla fine dell'intervallo: {nextPhase.label}</p>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-2">
+          {!isFinished && (
+            <Button onClick={startStop} variant={isRunning ? 'destructive' : 'default'}>
+              {isRunning ? <><PauseIcon className="mr-2 h-4 w-4" /> Stop</> : <><PlayIcon className="mr-2 h-4 w-4" /> Start</>}
+            </Button>
+          )}
+          {/* Final whistle of the current period, or skip the rest of the break */}
+          {!isFinished && (
+            <Button onClick={endPhase} variant="secondary" disabled={time === 0 && !isRunning}>
+              <FlagIcon className="mr-2 h-4 w-4" /> {isBreak ? 'Fine Intervallo' : `Fine ${phase.label}`}
+            </Button>
+          )}
+          {canPlayExtraTime && (
+            <Button onClick={startExtraTime}>
+              <TimerIcon className="mr-2 h-4 w-4" /> Supplementari
+            </Button>
+          )}
+          <Button onClick={reset} variant="outline" disabled={!isStarted}>
             <RotateCcwIcon className="mr-2 h-4 w-4" /> Reset
           </Button>
-          {/* Button to show label selection */}
-          <Button onClick={handleShowLabelSelection} variant="secondary" disabled={!isRunning || isSelectingLabel}>
-            <FlagIcon className="mr-2 h-4 w-4" /> Seleziona Tempo
-          </Button>
         </div>
-
-        {/* Label selection area */}
-        {isSelectingLabel && isRunning && (
-          <div className="w-full flex flex-wrap justify-center gap-2 mt-4">
-            {timePointLabels.map((label) => (
-              <Button
-                key={label}
-                variant="outline"
-                size="sm"
-                onClick={() => handleSelectTimePoint(label)}
-              >
-                {label}
-              </Button>
-            ))}
-          </div>
-        )}
       </CardContent>
     </Card>
   );
 };
 
-export default Stopwatch;
\ No newline at end of file
+export default Stopwatch;
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CloudUploadIcon, RefreshCwIcon, TriangleAlertIcon, WifiOffIcon } from 'lucide-react';
+import { useOutbox } from '@/hooks/use-outbox';
+import {
+  discardOutboxEntry,
+  forceOutboxEntry,
+  OutboxEntry,
+  outboxOperationLabels,
+  replayOutbox,
+  retryOutboxEntry,
+  startOutboxSync,
+} from '@/lib/outbox';
+import { showError } from '@/utils/toast';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+// Waiting write in the sync popover, with the way out when it is stuck
+const OutboxEntryItem: React.FC<{ entry: OutboxEntry }> = ({ entry }) => {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: (id: string) => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action(entry.id);
+    } catch (error) {
+      console.error('Error resolving offline write:', error);
+      showError(`Errore durante la sincronizzazione: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <li className="space-y-1 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{outboxOperationLabels[entry.operation]} · {entry.label}</span>
+        <span className="text-xs text-muted-foreground">{format(new Date(entry.createdAt), 'dd/MM HH:mm')}</span>
+      </div>
+      {entry.status !== 'pending' && (
+        <>
+          <p className="text-xs text-red-500">{entry.error}</p>
+          <div className="flex gap-2">
+            {entry.status === 'conflict' ? (
+              <Button size="sm" variant="outline" disabled={isWorking} onClick={() => run(forceOutboxEntry)}>
+                Usa la mia versione
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" disabled={isWorking} onClick={() => run(retryOutboxEntry)}>
+                Riprova
+              </Button>
+            )}
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" variant="destructive" disabled={isWorking}>Scarta</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Scartare la modifica?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    La modifica fatta senza connessione andrà persa e resteranno i dati attuali del server.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Annulla</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => run(discardOutboxEntry)}>Scarta</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </>
+      )}
+    </li>
+  );
+};
+
+// Connection state and writes made offline, next to the season switcher
+const SyncStatus: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { entries, isOnline } = useOutbox();
+  const isStuck = entries.some(entry => entry.status !== 'pending');
+
+  // Sends the outbox when the connection returns
+  useEffect(() => startOutboxSync(), []);
+
+  // Once writes leave the outbox the lists have to be loaded again from the server
+  const previousCountRef = useRef(entries.length);
+  useEffect(() => {
+    if (entries.length < previousCountRef.current) {
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+      queryClient.invalidateQueries({ queryKey: ['latestMatches'] });
+      queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+      queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+    }
+    previousCountRef.current = entries.length;
+  }, [entries.length, queryClient]);
+
+  if (isOnline && entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {!isOnline && (
+        <Badge variant="secondary" className="gap-1">
+          <WifiOffIcon className="h-3 w-3" /> Offline
+        </Badge>
+      )}
+      {entries.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant={isStuck ? 'destructive' : 'outline'} size="sm">
+              {isStuck ? <TriangleAlertIcon className="mr-2 h-4 w-4" /> : <CloudUploadIcon className="mr-2 h-4 w-4" />}
+              {entries.length} in attesa
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96">
+            <div className="flex items-center justify-between">
+              <p className="font-medium">Modifiche da sincronizzare</p>
+              <Button variant="ghost" size="sm" disabled={!isOnline} onClick={() => replayOutbox()}>
+                <RefreshCwIcon className="mr-2 h-4 w-4" /> Sincronizza
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {isOnline ? 'Vengono inviate nell\'ordine in cui sono state fatte.' : 'Verranno inviate al ritorno della connessione.'}
+            </p>
+            <ul className="max-h-80 divide-y overflow-y-auto">
+              {entries.map(entry => <OutboxEntryItem key={entry.id} entry={entry} />)}
+            </ul>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
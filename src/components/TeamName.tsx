@@ -0,0 +1,41 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { Team } from '@/types/team';
+
+interface TeamColorsProps {
+  team: Team;
+  className?: string;
+}
+
+// Logo if the team has one, otherwise a dot split in the team's two colours
+export const TeamColors: React.FC<TeamColorsProps> = ({ team, className }) => {
+  if (team.logo_url) {
+    return <img src={team.logo_url} alt="" className={cn('h-5 w-5 rounded-full object-cover', className)} />;
+  }
+  const primary = team.primary_color || '#9ca3af';
+  const secondary = team.secondary_color || primary;
+  return (
+    <span
+      className={cn('inline-block h-4 w-4 shrink-0 rounded-full border', className)}
+      style={{ background: `linear-gradient(135deg, ${primary} 50%, ${secondary} 50%)` }}
+    />
+  );
+};
+
+interface TeamNameProps {
+  team: Team | null | undefined;
+}
+
+const TeamName: React.FC<TeamNameProps> = ({ team }) => {
+  if (!team) {
+    return <span>-</span>;
+  }
+  return (
+    <span className="inline-flex items-center gap-2">
+      <TeamColors team={team} />
+      {team.name}
+    </span>
+  );
+};
+
+export default TeamName;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ArrowDownIcon, ArrowUpIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { tieBreakerLabels, TieBreaker } from '@/lib/standings';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+
+interface TieBreakerEditorProps {
+  value: TieBreaker[];
+  onChange: (value: TieBreaker[]) => void;
+}
+
+const allTieBreakers = Object.keys(tieBreakerLabels) as TieBreaker[];
+
+// Turn tie-breakers on and off and set the order they are applied in
+const TieBreakerEditor: React.FC<TieBreakerEditorProps> = ({ value, onChange }) => {
+  const move = (index: number, direction: -1 | 1) => {
+    const tieBreakers = [...value];
+    [tieBreakers[index], tieBreakers[index + direction]] = [tieBreakers[index + direction], tieBreakers[index]];
+    onChange(tieBreakers);
+  };
+
+  const toggle = (tieBreaker: TieBreaker, enabled: boolean) => {
+    onChange(enabled ? [...value, tieBreaker] : value.filter(item => item !== tieBreaker));
+  };
+
+  // Enabled tie-breakers in order, then the disabled ones
+  const disabledTieBreakers = allTieBreakers.filter(tieBreaker => !value.includes(tieBreaker));
+
+  return (
+    <ul className="space-y-2">
+      {[...value, ...disabledTieBreakers].map((tieBreaker) => {
+        const index = value.indexOf(tieBreaker);
+        const isEnabled = index !== -1;
+        return (
+          <li key={tieBreaker} className="flex items-center gap-2">
+            <Switch checked={isEnabled} onCheckedChange={enabled => toggle(tieBreaker, enabled)} />
+            <span className={cn('w-40', !isEnabled && 'text-muted-foreground')}>
+              {isEnabled && `${index + 1}. `}{tieBreakerLabels[tieBreaker]}
+            </span>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={!isEnabled || index === 0} onClick={() => move(index, -1)}>
+              <ArrowUpIcon className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={!isEnabled || index === value.length - 1} onClick={() => move(index, 1)}>
+              <ArrowDownIcon className="h-4 w-4" />
+            </Button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default TieBreakerEditor;
@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000; // The app can stay open for days on a phone
+
+// Registers the service worker and offers the new version once it is downloaded.
+// Nothing is lost by reloading: the cache and the offline outbox live in IndexedDB.
+const UpdatePrompt = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW: (_url, registration) => {
+      if (registration) {
+        setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+      }
+    },
+    onRegisterError: (error) => {
+      console.error('Error registering the service worker:', error);
+    },
+  });
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    const toastId = toast('Nuova versione disponibile', {
+      description: 'Aggiorna per usare l\'ultima versione dell\'app.',
+      duration: Infinity,
+      action: { label: 'Aggiorna', onClick: () => updateServiceWorker(true) },
+      onDismiss: () => setNeedRefresh(false),
+    });
+    return () => {
+      toast.dismiss(toastId);
+    };
+  }, [needRefresh, setNeedRefresh, updateServiceWorker]);
+
+  return null;
+};
+
+export default UpdatePrompt;
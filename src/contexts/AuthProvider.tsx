@@ -0,0 +1,83 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { useQueryClient } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import { clearOutbox, setOutboxUser } from '@/lib/outbox';
+import { showError } from '@/utils/toast';
+import { getUserRole, hasPermission, Permission } from '@/lib/roles';
+import { AuthContext, AuthContextValue } from './auth-context';
+
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Set while the user is logging out, so the "session expired" toast is only shown for unexpected sign-outs
+  const isSigningOutRef = useRef(false);
+
+  useEffect(() => {
+    // Restore the persisted session (the client refreshes it if the access token is expired)
+    repositories.auth.getSession().then((restoredSession) => {
+      setSession(restoredSession);
+      setIsLoading(false);
+    });
+
+    // Keep the state in sync with sign-ins, sign-outs and automatic token refreshes
+    const unsubscribe = repositories.auth.onChange((event, newSession) => {
+      if (event === 'SIGNED_OUT') {
+        if (!isSigningOutRef.current) {
+          // The refresh token expired or was revoked
+          showError('Sessione scaduta. Effettua di nuovo l\'accesso.');
+        }
+        isSigningOutRef.current = false;
+        // Don't leave the previous user's data in the cache
+        queryClient.clear();
+      }
+      setSession(newSession);
+      setIsLoading(false);
+    });
+
+    return unsubscribe;
+  }, [queryClient]);
+
+  // Only the signed-in user's offline writes are shown and sent
+  const userId = session?.user.id ?? null;
+  useEffect(() => {
+    setOutboxUser(userId);
+  }, [userId]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    await repositories.auth.signIn(email, password);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    isSigningOutRef.current = true;
+    try {
+      await repositories.auth.signOut();
+    } catch (error) {
+      isSigningOutRef.current = false;
+      throw error;
+    }
+    // An expired session keeps them, for the same user to send after signing in again
+    if (userId) {
+      await clearOutbox(userId);
+    }
+  }, [userId]);
+
+  const value = useMemo<AuthContextValue>(() => {
+    const user = session?.user ?? null;
+    const role = getUserRole(user);
+    return {
+      session,
+      user,
+      role,
+      isLoading,
+      can: (permission: Permission) => hasPermission(role, permission),
+      signIn,
+      signOut,
+    };
+  }, [session, isLoading, signIn, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,40 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSeasons } from '@/hooks/use-seasons';
+import { findSeasonForDate, getCurrentSeason } from '@/lib/seasons';
+import { SeasonContext, SeasonContextValue } from './season-context';
+
+const SELECTED_SEASON_STORAGE_KEY = 'season.selected';
+
+const SeasonProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { data: seasons, isLoading, error } = useSeasons();
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(() => localStorage.getItem(SELECTED_SEASON_STORAGE_KEY));
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error fetching seasons:', error);
+    }
+  }, [error]);
+
+  const selectSeason = useCallback((seasonId: string) => {
+    localStorage.setItem(SELECTED_SEASON_STORAGE_KEY, seasonId);
+    setSelectedSeasonId(seasonId);
+  }, []);
+
+  const value = useMemo<SeasonContextValue>(() => {
+    const allSeasons = seasons || [];
+    // Fall back to the current season if nothing was picked yet or the picked season was deleted
+    const season = allSeasons.find(item => item.id === selectedSeasonId) ?? getCurrentSeason(allSeasons);
+    return {
+      seasons: allSeasons,
+      season,
+      seasonKey: season?.id ?? 'all',
+      isLoading,
+      selectSeason,
+      isFrozen: (date: string | Date) => !!findSeasonForDate(allSeasons, date)?.is_archived,
+    };
+  }, [seasons, selectedSeasonId, isLoading, selectSeason]);
+
+  return <SeasonContext.Provider value={value}>{children}</SeasonContext.Provider>;
+};
+
+export default SeasonProvider;
@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import type { Permission, UserRole } from '@/lib/roles';
+
+// Shape of the authentication state shared through AuthProvider
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  role: UserRole;
+  isLoading: boolean; // True until the initial session has been restored
+  can: (permission: Permission) => boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
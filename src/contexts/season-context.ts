@@ -0,0 +1,14 @@
+import { createContext } from 'react';
+import type { Season } from '@/types/season';
+
+// Season selected in the switcher, shared through SeasonProvider
+export interface SeasonContextValue {
+  seasons: Season[];
+  season: Season | null; // Null when no season has been created yet: pages then show the whole history
+  seasonKey: string; // Part of the query keys of season scoped queries
+  isLoading: boolean;
+  selectSeason: (seasonId: string) => void;
+  isFrozen: (date: string | Date) => boolean; // True if the date falls in an archived season
+}
+
+export const SeasonContext = createContext<SeasonContextValue | undefined>(undefined);
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import { useSeason } from '@/hooks/use-season';
+import type { Competition } from '@/types/competition';
+
+// Competitions of the selected season, ordered by name
+export function useCompetitions() {
+  const { season, seasonKey } = useSeason();
+
+  return useQuery<Competition[]>({
+    queryKey: ['competitions', seasonKey],
+    queryFn: () => repositories.competitions.list(season?.id),
+  });
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { newRowId, pickColumns, submitWrite } from '@/lib/outbox';
+import { eventTypeLabels, formatEventMinute } from '@/lib/matchEvents';
+import { showError } from '@/utils/toast';
+import type { MatchEventValues } from '@/lib/repositories';
+import type { MatchEvent } from '@/types/matchEvent';
+
+export type NewMatchEvent = Omit<MatchEventValues, 'match_id'>;
+
+// Compared with the server row before an offline edit or delete is sent
+const matchEventColumns: (keyof MatchEvent)[] = ['event_type', 'goal_type', 'team_id', 'player_id', 'related_player_id', 'minute', 'added_minute', 'period', 'notes'];
+
+// "Gol al 23'", to tell the waiting writes apart
+const describeEvent = (event: Pick<NewMatchEvent, 'event_type' | 'minute' | 'added_minute'>) =>
+  `${eventTypeLabels[event.event_type]} al ${formatEventMinute(event)}`;
+
+// Adding or removing events changes the score and the player stats of the match,
+// rewritten by the backend along with the event (see sync_match_from_events).
+// Offline the events wait in the outbox like the other writes, see SyncStatus.
+const useInvalidateMatchData = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['matchEvents'] }); // Timeline and the list of matches with events
+    queryClient.invalidateQueries({ queryKey: ['matches'] });
+    queryClient.invalidateQueries({ queryKey: ['latestMatches'] });
+    queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+    queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+  };
+};
+
+export function useAddMatchEvent(matchId: string) {
+  const invalidateMatchData = useInvalidateMatchData();
+  return useMutation({
+    mutationFn: (newEvent: NewMatchEvent) => submitWrite({
+      table: 'match_events',
+      operation: 'insert',
+      rowId: newRowId(),
+      values: { ...newEvent, match_id: matchId },
+      base: null,
+      label: describeEvent(newEvent),
+    }),
+    onSuccess: invalidateMatchData,
+    onError: (error: Error) => {
+      console.error('Error inserting match event:', error);
+      showError(`Errore durante l'inserimento dell'evento: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdateMatchEvent() {
+  const invalidateMatchData = useInvalidateMatchData();
+  return useMutation({
+    mutationFn: ({ event, changes }: { event: MatchEvent; changes: Partial<NewMatchEvent> }) => submitWrite({
+      table: 'match_events',
+      operation: 'update',
+      rowId: event.id,
+      values: changes,
+      base: pickColumns(event, matchEventColumns), // To spot changes made elsewhere meanwhile
+      label: describeEvent(event),
+    }),
+    onSuccess: invalidateMatchData,
+    onError: (error: Error) => {
+      console.error('Error updating match event:', error);
+      showError(`Errore durante la modifica dell'evento: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteMatchEvent() {
+  const invalidateMatchData = useInvalidateMatchData();
+  return useMutation({
+    mutationFn: (event: MatchEvent) => submitWrite({
+      table: 'match_events',
+      operation: 'delete',
+      rowId: event.id,
+      values: null,
+      base: pickColumns(event, matchEventColumns),
+      label: describeEvent(event),
+    }),
+    onSuccess: invalidateMatchData,
+    onError: (error: Error) => {
+      console.error('Error deleting match event:', error);
+      showError(`Errore durante l'eliminazione dell'evento: ${error.message}`);
+    },
+  });
+}
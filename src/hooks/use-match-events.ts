@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import { withPendingWrites } from '@/lib/outbox';
+import { buildPendingMatchEvent, sortEvents } from '@/lib/matchEvents';
+import { useOutbox } from '@/hooks/use-outbox';
+import type { MatchEvent } from '@/types/matchEvent';
+
+// Timeline of a single match, in minute order, as it will be once the offline outbox is sent
+export function useMatchEvents(matchId: string | undefined) {
+  const query = useQuery<MatchEvent[]>({
+    queryKey: ['matchEvents', matchId],
+    enabled: !!matchId,
+    queryFn: () => repositories.matchEvents.listByMatch(matchId!),
+  });
+  const { entries: outboxEntries } = useOutbox();
+  const data = useMemo(() => {
+    if (!query.data) return undefined;
+    const rows = withPendingWrites(query.data, outboxEntries, 'match_events', buildPendingMatchEvent)
+      .filter(item => item.row.match_id === matchId && item.pending?.operation !== 'delete')
+      .map(item => item.row);
+    return sortEvents(rows);
+  }, [query.data, outboxEntries, matchId]);
+  return { ...query, data };
+}
+
+// Ids of the matches that have a timeline. Their score and player stats are derived from the events.
+export function useMatchIdsWithEvents() {
+  return useQuery<string[], Error, Set<string>>({
+    queryKey: ['matchEvents', 'matchIds'],
+    queryFn: () => repositories.matchEvents.listMatchIds(),
+    select: matchIds => new Set(matchIds), // The cache keeps the plain list, as it is saved to IndexedDB
+  });
+}
@@ -0,0 +1,31 @@
+import { useState, useCallback } from 'react';
+import { loadCustomFormats, matchFormatPresets, saveCustomFormats, MatchFormat } from '@/lib/matchFormats';
+
+// Presets plus the formats created by the user, stored in this browser
+export function useMatchFormats() {
+  const [customFormats, setCustomFormats] = useState<MatchFormat[]>(loadCustomFormats);
+
+  const addCustomFormat = useCallback((format: Omit<MatchFormat, 'id' | 'isCustom'>) => {
+    const newFormat: MatchFormat = { ...format, id: `custom-${Date.now()}`, isCustom: true };
+    setCustomFormats(prev => {
+      const next = [...prev, newFormat];
+      saveCustomFormats(next);
+      return next;
+    });
+    return newFormat;
+  }, []);
+
+  const deleteCustomFormat = useCallback((formatId: string) => {
+    setCustomFormats(prev => {
+      const next = prev.filter(format => format.id !== formatId);
+      saveCustomFormats(next);
+      return next;
+    });
+  }, []);
+
+  return {
+    formats: [...matchFormatPresets, ...customFormats],
+    addCustomFormat,
+    deleteCustomFormat,
+  };
+}
@@ -0,0 +1,26 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { MatchListPage, repositories } from '@/lib/repositories';
+import { getSeasonRange } from '@/lib/seasons';
+import { MATCH_LIST_PAGE_SIZE, MatchListParams } from '@/lib/matchList';
+import { useSeason } from '@/hooks/use-season';
+import type { Season } from '@/types/season';
+
+// Every page of the list at once, in the same order, for exports
+export async function fetchAllMatchListRows(season: Season | null, params: MatchListParams) {
+  const { matches } = await repositories.matches.search(params, season ? getSeasonRange(season) : null);
+  return matches;
+}
+
+// One page of the season's matches, filtered and sorted by the database
+export function useMatchList(params: MatchListParams) {
+  const { season, seasonKey } = useSeason();
+
+  return useQuery<MatchListPage>({
+    queryKey: ['matches', 'list', seasonKey, params],
+    placeholderData: keepPreviousData, // Keep the current page on screen while the next one loads
+    queryFn: () => repositories.matches.search(params, season ? getSeasonRange(season) : null, {
+      offset: (params.page - 1) * MATCH_LIST_PAGE_SIZE,
+      limit: MATCH_LIST_PAGE_SIZE,
+    }),
+  });
+}
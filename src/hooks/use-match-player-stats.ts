@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import type { PlayerStat } from '@/types/playerStat';
+
+// Stat rows of one match, with the roster player resolved
+export function useMatchPlayerStats(matchId: string | undefined) {
+  return useQuery<PlayerStat[]>({
+    queryKey: ['playerStats', 'match', matchId],
+    enabled: !!matchId,
+    queryFn: () => repositories.playerStats.listByMatch(matchId!),
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import type { MatchWithTeams } from '@/types/match';
+
+// A single match with home and away team resolved
+export function useMatch(matchId: string | undefined) {
+  return useQuery<MatchWithTeams>({
+    queryKey: ['matches', matchId],
+    enabled: !!matchId,
+    queryFn: () => repositories.matches.get(matchId!),
+  });
+}
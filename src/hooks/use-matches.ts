@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import { getSeasonRange } from '@/lib/seasons';
+import { useSeason } from '@/hooks/use-season';
+import type { MatchWithTeams } from '@/types/match';
+
+// Matches of the selected season (or of every season), most recent first, with home and away team resolved
+export function useMatches(scope: 'season' | 'all' = 'season') {
+  const { season, seasonKey } = useSeason();
+  const scopedSeason = scope === 'season' ? season : null;
+
+  return useQuery<MatchWithTeams[]>({
+    queryKey: ['matches', 'season', scopedSeason ? seasonKey : 'all'],
+    queryFn: () => repositories.matches.list({ range: scopedSeason ? getSeasonRange(scopedSeason) : null }),
+  });
+}
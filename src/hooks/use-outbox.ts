@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+import { getOutboxEntries, subscribeOutbox } from '@/lib/outbox';
+
+// Writes waiting to be sent (see lib/outbox) and whether the browser is online
+export function useOutbox() {
+  const entries = useSyncExternalStore(subscribeOutbox, getOutboxEntries);
+  const isOnline = useSyncExternalStore(
+    callback => onlineManager.subscribe(callback),
+    () => onlineManager.isOnline(),
+  );
+  return { entries, isOnline };
+}
@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import type { Player } from '@/types/player';
+import type { PlayerStat } from '@/types/playerStat';
+
+// A single roster player
+export function usePlayer(playerId: string | undefined) {
+  return useQuery<Player>({
+    queryKey: ['players', playerId],
+    enabled: !!playerId,
+    queryFn: () => repositories.players.get(playerId!),
+  });
+}
+
+// Every stat row of a player, oldest match first
+export function usePlayerStatHistory(playerId: string | undefined) {
+  return useQuery<PlayerStat[]>({
+    queryKey: ['playerStats', 'player', playerId],
+    enabled: !!playerId,
+    queryFn: async () => {
+      const stats = await repositories.playerStats.listByPlayer(playerId!);
+      // Sorted here because the order has to follow the joined match date
+      return stats.sort((a, b) =>
+        (a.match?.match_date ?? a.created_at).localeCompare(b.match?.match_date ?? b.created_at));
+    },
+  });
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import type { Player } from '@/types/player';
+
+// The whole roster (active and inactive) ordered by shirt number, then name
+export function usePlayers() {
+  return useQuery<Player[]>({
+    queryKey: ['players'],
+    queryFn: () => repositories.players.list(),
+  });
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import type { Season } from '@/types/season';
+
+// All seasons, most recent first
+export function useSeasons() {
+  return useQuery<Season[]>({
+    queryKey: ['seasons'],
+    queryFn: () => repositories.seasons.list(),
+  });
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { buildPhases, DEFAULT_MATCH_FORMAT_ID, findMatchFormat } from '@/lib/matchFormats';
+import { showSuccess } from '@/utils/toast';
+
+// What is saved in localStorage. Elapsed time is derived from timestamps, so it survives reloads and throttled tabs.
+interface PersistedStopwatch {
+  formatId: string;
+  withExtraTime: boolean; // Extra time phases are played
+  phaseIndex: number; // Current period or break in buildPhases()
+  startedAt: number | null; // Date.now() when the clock was last started, null while paused
+  accumulatedMs: number; // Time counted in the current phase before the last start
+  isFinished: boolean; // Final whistle (or end of regulation, waiting for the extra time decision)
+  alertedPhaseIndex: number; // Last phase whose end has already been signalled
+}
+
+const initialState: PersistedStopwatch = {
+  formatId: DEFAULT_MATCH_FORMAT_ID,
+  withExtraTime: false,
+  phaseIndex: 0,
+  startedAt: null,
+  accumulatedMs: 0,
+  isFinished: false,
+  alertedPhaseIndex: -1,
+};
+
+// In memory the state also remembers which key it was loaded from
+type ClockState = PersistedStopwatch & { storageKey: string };
+
+const loadState = (storageKey: string): ClockState => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return { ...initialState, ...(stored ? JSON.parse(stored) : {}), storageKey };
+  } catch (error) {
+    console.error('Error restoring stopwatch state:', error);
+    return { ...initialState, storageKey };
+  }
+};
+
+const TICK_MS = 30; // Display refresh rate while running
+
+// Sound, vibration and toast when a period or a break is over
+const signalPhaseEnd = (message: string) => {
+  showSuccess(message);
+  navigator.vibrate?.([400, 150, 400]);
+  try {
+    const audioContext = new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    oscillator.frequency.value = 880;
+    oscillator.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.6);
+    oscillator.onended = () => audioContext.close();
+  } catch (error) {
+    console.error('Error playing the period end sound:', error);
+  }
+};
+
+// State and controls of a match clock, shared by the Stopwatch component and the live match screen.
+// The clock walks through the periods and breaks of the selected match format.
+// Each storageKey is an independent clock (e.g. one per live match).
+export function useStopwatch(storageKey = 'stopwatch') {
+  const [state, setState] = useState<ClockState>(() => loadState(storageKey));
+  const [now, setNow] = useState(() => Date.now());
+  const isRunning = state.startedAt !== null;
+
+  const format = useMemo(() => findMatchFormat(state.formatId), [state.formatId]);
+  const phases = useMemo(() => buildPhases(format, state.withExtraTime), [format, state.withExtraTime]);
+  const phase = phases[Math.min(state.phaseIndex, phases.length - 1)];
+  const nextPhase = phases[state.phaseIndex + 1] ?? null;
+
+  // Switch clock when the key changes (e.g. navigating between live matches)
+  useEffect(() => {
+    if (state.storageKey !== storageKey) {
+      setState(loadState(storageKey));
+    }
+  }, [storageKey, state.storageKey]);
+
+  // Persist every change of state (not every tick)
+  useEffect(() => {
+    const { storageKey: stateKey, ...persisted } = state;
+    if (stateKey === storageKey) {
+      localStorage.setItem(storageKey, JSON.stringify(persisted));
+    }
+  }, [storageKey, state]);
+
+  // Keep in sync with the same clock open in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) {
+        setState(loadState(storageKey));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [storageKey]);
+
+  // Refresh the display. Ticks may be throttled in background tabs, but the time is computed from timestamps.
+  useEffect(() => {
+    if (!isRunning) return;
+    const refresh = () => setNow(Date.now());
+    const intervalId = window.setInterval(refresh, TICK_MS);
+    document.addEventListener('visibilitychange', refresh); // Catch up immediately when the screen is unlocked
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', refresh);
+    };
+  }, [isRunning]);
+
+  const time = state.accumulatedMs + (state.startedAt !== null ? Math.max(0, now - state.startedAt) : 0);
+  const isOvertime = time >= phase.durationMs; // Regulation time of the phase is over
+
+  // Signal the end of regulation time once per phase. A finished break hands over to the next period.
+  useEffect(() => {
+    if (!isRunning || !isOvertime || state.alertedPhaseIndex === state.phaseIndex) return;
+    if (phase.kind === 'period') {
+      signalPhaseEnd(`${phase.label}: tempo regolamentare terminato.`);
+      setState(prev => ({ ...prev, alertedPhaseIndex: prev.phaseIndex }));
+    } else {
+      signalPhaseEnd(nextPhase ? `${phase.label} terminato: pronti per il ${nextPhase.label}.` : `${phase.label} terminato.`);
+      setState(prev => ({ ...prev, alertedPhaseIndex: prev.phaseIndex, phaseIndex: prev.phaseIndex + 1, startedAt: null, accumulatedMs: 0 }));
+    }
+  }, [isRunning, isOvertime, phase, nextPhase, state.alertedPhaseIndex, state.phaseIndex]);
+
+  const startStop = useCallback(() => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setState(prev => {
+      if (prev.isFinished) return prev;
+      return prev.startedAt === null
+        ? { ...prev, startedAt: timestamp }
+        : { ...prev, startedAt: null, accumulatedMs: prev.accumulatedMs + (timestamp - prev.startedAt) };
+    });
+  }, []);
+
+  // Final whistle of the current phase: breaks start counting down right away, periods wait for kick-off
+  const endPhase = useCallback(() => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setState(prev => {
+      const prevPhases = buildPhases(findMatchFormat(prev.formatId), prev.withExtraTime);
+      const following = prevPhases[prev.phaseIndex + 1];
+      if (!following) {
+        return { ...prev, startedAt: null, isFinished: true };
+      }
+      return {
+        ...prev,
+        phaseIndex: prev.phaseIndex + 1,
+        startedAt: following.kind === 'break' ? timestamp : null,
+        accumulatedMs: 0,
+      };
+    });
+  }, []);
+
+  // After the last regular period, continue with extra time
+  const startExtraTime = useCallback(() => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setState(prev => ({ ...prev, withExtraTime: true, isFinished: false, phaseIndex: prev.phaseIndex + 1, startedAt: timestamp, accumulatedMs: 0 }));
+  }, []);
+
+  const reset = useCallback(() => setState(prev => ({ ...initialState, formatId: prev.formatId, storageKey: prev.storageKey })), []);
+
+  // Only before kick-off
+  const selectFormat = useCallback((formatId: string) => setState(prev => ({ ...initialState, formatId, storageKey: prev.storageKey })), []);
+
+  const isStarted = state.phaseIndex > 0 || time > 0 || state.isFinished;
+  const elapsedMinutes = Math.floor(time / 60000);
+  const periodMinutes = phase.durationMs / 60000;
+
+  // Match minute as written in reports: the first minute of play is minute 1. During breaks, the minute the last period ended.
+  const currentMinute = phase.kind === 'period'
+    ? phase.minuteOffset + Math.min(elapsedMinutes + 1, periodMinutes)
+    : phase.minuteOffset;
+  // Minutes of added time (the "+2" in 45'+2), null within regulation time
+  const addedMinute = phase.kind === 'period' && isOvertime ? elapsedMinutes - periodMinutes + 1 : null;
+
+  return {
+    format,
+    phase,
+    nextPhase,
+    time, // Elapsed time in the current phase
+    isRunning,
+    isStarted,
+    isFinished: state.isFinished,
+    isOvertime,
+    canPlayExtraTime: state.isFinished && !state.withExtraTime && format.extraTimePeriods > 0,
+    currentLabel: state.isFinished ? 'Fine Partita' : phase.label,
+    currentMinute,
+    addedMinute,
+    startStop,
+    endPhase,
+    startExtraTime,
+    reset,
+    selectFormat,
+  };
+}
+
+export type StopwatchState = ReturnType<typeof useStopwatch>;
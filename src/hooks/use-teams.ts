@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { repositories } from '@/lib/repositories';
+import type { Team } from '@/types/team';
+
+// All teams ordered by name, shared by the teams page and the team pickers
+export function useTeams() {
+  return useQuery<Team[]>({
+    queryKey: ['teams'],
+    queryFn: () => repositories.teams.list(),
+  });
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import { repositories } from '@/lib/repositories';
+
+// Versioned JSON copy of every club table. Views (match_list, player_total_stats) are derived and left out.
+
+export const BACKUP_FORMAT = 'statistiche-calcio-backup';
+export const BACKUP_VERSION = 1; // Bump when a table or column is added, and convert older files in parseBackup
+
+// In insert order: every table only references tables above it
+export const backupTables = ['seasons', 'teams', 'competitions', 'players', 'matches', 'player_stats', 'match_events'] as const;
+
+export type BackupTable = typeof backupTables[number];
+
+export const backupTableLabels: Record<BackupTable, string> = {
+  seasons: 'Stagioni',
+  teams: 'Squadre',
+  competitions: 'Competizioni',
+  players: 'Rosa',
+  matches: 'Partite',
+  player_stats: 'Statistiche calciatori',
+  match_events: 'Eventi partita',
+};
+
+export type BackupRow = { id: string } & Record<string, unknown>;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  tables: Record<BackupTable, BackupRow[]>;
+}
+
+export type BackupTables = Backup['tables'];
+
+// Foreign keys checked on restore: column -> referenced table. Nullable columns may be empty.
+const backupReferences: Partial<Record<BackupTable, Record<string, BackupTable>>> = {
+  competitions: { season_id: 'seasons' },
+  matches: { home_team_id: 'teams', away_team_id: 'teams', competition_id: 'competitions' },
+  player_stats: { match_id: 'matches', player_id: 'players' },
+  match_events: { match_id: 'matches', team_id: 'teams', player_id: 'players', related_player_id: 'players' },
+};
+
+const rowSchema = z.object({ id: z.string().min(1, { message: 'Id mancante.' }) }).passthrough();
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  created_at: z.string(),
+  tables: z.object({
+    seasons: z.array(rowSchema),
+    teams: z.array(rowSchema),
+    competitions: z.array(rowSchema),
+    players: z.array(rowSchema),
+    matches: z.array(rowSchema),
+    player_stats: z.array(rowSchema),
+    match_events: z.array(rowSchema),
+  }),
+});
+
+const MAX_ERRORS = 20;
+
+// Reads a backup file: the JSON structure, the version, duplicated ids and references between tables
+export const parseBackup = (text: string): { backup: Backup; errors: [] } | { backup: null; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['Il file non è un JSON valido.'] };
+  }
+
+  // Any other JSON file: no point in listing what it lacks
+  if ((json as { format?: unknown })?.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['Il file non è un backup di questa applicazione.'] };
+  }
+
+  const version = (json as { version?: unknown }).version;
+  if (typeof version === 'number' && version > BACKUP_VERSION) {
+    return { backup: null, errors: [`Il backup è stato creato con una versione più recente dell'applicazione (formato ${version}).`] };
+  }
+
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    return { backup: null, errors: result.error.issues.slice(0, MAX_ERRORS).map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`) };
+  }
+  const backup = result.data as Backup;
+
+  const errors: string[] = [];
+  const ids = Object.fromEntries(backupTables.map(table => [table, new Set<string>()])) as Record<BackupTable, Set<string>>;
+  backupTables.forEach(table => backup.tables[table].forEach((row) => {
+    if (ids[table].has(row.id)) errors.push(`${backupTableLabels[table]}: id ${row.id} ripetuto.`);
+    ids[table].add(row.id);
+  }));
+
+  // A backup is a complete copy, so every reference has to be found in the file itself
+  backupTables.forEach(table => Object.entries(backupReferences[table] ?? {}).forEach(([column, referenced]) => {
+    backup.tables[table].forEach((row) => {
+      const value = row[column];
+      if (value != null && !ids[referenced].has(String(value))) {
+        errors.push(`${backupTableLabels[table]}: ${column} ${value} della riga ${row.id} non trovato in ${backupTableLabels[referenced]}.`);
+      }
+    });
+  }));
+
+  if (errors.length > 0) {
+    const extra = errors.length > MAX_ERRORS ? [`...e altri ${errors.length - MAX_ERRORS} errori.`] : [];
+    return { backup: null, errors: [...errors.slice(0, MAX_ERRORS), ...extra] };
+  }
+  return { backup, errors: [] };
+};
+
+// Current content of every table
+export const fetchBackupTables = async (): Promise<BackupTables> => {
+  const entries = await Promise.all(backupTables.map(async table => [table, await repositories.tables.selectAll(table)] as const));
+  return Object.fromEntries(entries) as BackupTables;
+};
+
+export const createBackup = async (): Promise<Backup> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  created_at: new Date().toISOString(),
+  tables: await fetchBackupTables(),
+});
+
+export interface BackupTableDiff {
+  table: BackupTable;
+  added: number; // In the file only
+  changed: number; // In both, with different values
+  unchanged: number;
+  missing: number; // In the database only: kept by a merge, deleted by a replace
+}
+
+// Key order doesn't matter when comparing rows
+const rowSignature = (row: BackupRow) =>
+  JSON.stringify(Object.keys(row).sort().map(key => [key, row[key]]));
+
+export const diffBackup = (backup: Backup, current: BackupTables): BackupTableDiff[] =>
+  backupTables.map((table) => {
+    const currentRows = new Map(current[table].map(row => [row.id, rowSignature(row)]));
+    const diff: BackupTableDiff = { table, added: 0, changed: 0, unchanged: 0, missing: 0 };
+    backup.tables[table].forEach((row) => {
+      const currentRow = currentRows.get(row.id);
+      if (currentRow === undefined) diff.added++;
+      else if (currentRow === rowSignature(row)) diff.unchanged++;
+      else diff.changed++;
+    });
+    const backupIds = new Set(backup.tables[table].map(row => row.id));
+    diff.missing = current[table].filter(row => !backupIds.has(row.id)).length;
+    return diff;
+  });
+
+export type RestoreMode = 'merge' | 'replace';
+
+const CHUNK_SIZE = 500; // Rows per request, to stay well below the request size limit
+
+const chunks = <T>(rows: T[]) =>
+  Array.from({ length: Math.ceil(rows.length / CHUNK_SIZE) }, (_, index) => rows.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE));
+
+// Every season is tried, then the ones left open are reported
+const archiveSeasons = async (seasonIds: string[]) => {
+  let failedCount = 0;
+  for (const id of seasonIds) {
+    try {
+      await repositories.tables.update('seasons', id, { is_archived: true });
+    } catch (error) {
+      console.error('Error archiving season after restore:', error);
+      failedCount++;
+    }
+  }
+  if (failedCount > 0) {
+    throw new Error(`${failedCount} stagioni archiviate sono rimaste aperte: archiviale di nuovo dalla pagina Stagioni.`);
+  }
+};
+
+// merge: rows of the file are inserted or overwritten by id, everything else stays.
+// replace: the file is loaded the same way, then the rows it doesn't have are deleted (children first).
+// Nothing is deleted until every chunk of the file has been written, so a failed upload (e.g. a row of the
+// file clashing with another one on match and player) leaves the current data in place. Supabase has no
+// multi-request transactions, so a failure halfway still leaves the tables partly restored:
+// download a backup of the current data first.
+// Matches of archived seasons can't be written (see the reject_archived_season_writes trigger), so every
+// season is reopened while the rows go in, and archived again at the end as in the file (merge keeps the
+// flag of the seasons the file doesn't have). A restore failing halfway archives again every season that
+// was archived before it or is archived in the file, so nothing stays open by mistake.
+export const restoreBackup = async (backup: Backup, mode: RestoreMode) => {
+  const archivedSeasonIds = (await repositories.tables.selectAll('seasons')).filter(row => row.is_archived).map(row => row.id);
+  const backupArchivedSeasonIds = backup.tables.seasons.filter(row => row.is_archived).map(row => row.id);
+  let isRestored = false;
+
+  try {
+    for (const id of archivedSeasonIds) {
+      await repositories.tables.update('seasons', id, { is_archived: false });
+    }
+
+    for (const table of backupTables) {
+      const tableRows = table === 'seasons'
+        ? backup.tables.seasons.map(row => ({ ...row, is_archived: false }))
+        : backup.tables[table];
+      for (const rows of chunks(tableRows)) {
+        await repositories.tables.upsert(table, rows, 'id');
+      }
+    }
+
+    if (mode === 'replace') {
+      const current = await fetchBackupTables();
+      for (const table of [...backupTables].reverse()) {
+        const backupIds = new Set(backup.tables[table].map(row => row.id));
+        await repositories.tables.removeMany(table, current[table].map(row => row.id).filter(id => !backupIds.has(id)));
+      }
+    }
+    isRestored = true;
+  } finally {
+    const backupSeasonIds = new Set(backup.tables.seasons.map(row => row.id));
+    const seasonIdsToArchive = isRestored
+      ? [...backupArchivedSeasonIds, ...(mode === 'merge' ? archivedSeasonIds.filter(id => !backupSeasonIds.has(id)) : [])]
+      : [...new Set([...archivedSeasonIds, ...backupArchivedSeasonIds])];
+    await archiveSeasons(seasonIdsToArchive);
+  }
+};
@@ -0,0 +1,5 @@
+// Name of the club shown in the sidebar and on printed reports
+export const CLUB_NAME = '14 Leon';
+
+// Club colour (Tailwind blue-800, as the sidebar title), for the installed app's title bar and splash screen
+export const CLUB_COLOR = '#1e40af';
@@ -0,0 +1,28 @@
+import type { Competition, CompetitionType } from '@/types/competition';
+import type { MatchWithTeams } from '@/types/match';
+import type { MatchOutcome } from './matches';
+import { defaultStandingsRules, StandingsRules } from './standings';
+
+export const competitionTypeLabels: Record<CompetitionType, string> = {
+  league: 'Campionato',
+  cup: 'Coppa',
+  friendly: 'Amichevole',
+  tournament: 'Torneo',
+};
+
+// Friendlies have no table
+export const hasStandings = (competition: Pick<Competition, 'type'>) => competition.type !== 'friendly';
+
+export const getStandingsRules = (competition: Competition): StandingsRules => ({
+  pointsPerWin: competition.points_per_win,
+  pointsPerDraw: competition.points_per_draw,
+  pointsPerLoss: competition.points_per_loss,
+  tieBreakers: competition.tie_breakers,
+});
+
+// Points our club got from a match, with the rules of its competition as in the standings.
+// Matches without a competition use the default rules.
+export const getMatchPoints = (match: Pick<MatchWithTeams, 'competition_info'>, outcome: MatchOutcome) => {
+  const rules = match.competition_info ? getStandingsRules(match.competition_info) : defaultStandingsRules;
+  return { win: rules.pointsPerWin, draw: rules.pointsPerDraw, loss: rules.pointsPerLoss }[outcome];
+};
@@ -0,0 +1,73 @@
+// Minimal CSV reader for spreadsheet exports: quoted fields, doubled quotes, CRLF line ends.
+// Excel with Italian settings writes ';' as separator, so the separator is guessed from the header line.
+
+export interface CsvData {
+  headers: string[];
+  rows: string[][]; // Data rows, each padded or cut to the number of headers
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// The candidate found most often in the first line, outside quotes
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  return CANDIDATE_DELIMITERS
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// Splits the text into records of raw fields
+export const parseCsvRecords = (text: string, delimiter = detectDelimiter(text)) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Byte order mark left by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true; // Quotes only open at the start of a field, elsewhere they are plain text
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last record when the file doesn't end with a newline
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines are skipped
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+export const parseCsv = (text: string): CsvData => {
+  const [headerRecord = [], ...records] = parseCsvRecords(text);
+  const headers = headerRecord.map(header => header.trim());
+  return {
+    headers,
+    rows: records.map(fields => headers.map((_, index) => (fields[index] ?? '').trim())),
+  };
+};
@@ -0,0 +1,313 @@
+import { format, isValid } from 'date-fns';
+import { matchFormSchema, MatchFormValues, playerStatsFormSchema, PlayerStatsFormValues } from '@/lib/schemas';
+import { findSeasonForDate, isDateInSeason } from '@/lib/seasons';
+import { formatMatchLabel } from '@/lib/matches';
+import { formatPlayerName } from '@/lib/players';
+import type { Competition } from '@/types/competition';
+import type { MatchWithTeams } from '@/types/match';
+import type { Player } from '@/types/player';
+import type { Season } from '@/types/season';
+import type { Team } from '@/types/team';
+
+// Import of spreadsheet history: columns are mapped to fields, names are resolved to ids,
+// then every row goes through the same schema as the forms before anything is written.
+
+export type ImportTarget = 'matches' | 'playerStats';
+
+export const importTargetLabels: Record<ImportTarget, string> = {
+  matches: 'Partite',
+  playerStats: 'Statistiche calciatori',
+};
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Header names recognised when guessing the mapping, already normalised
+}
+
+export const importFields: Record<ImportTarget, ImportField[]> = {
+  matches: [
+    { key: 'match_date', label: 'Data', required: true, aliases: ['data', 'data partita', 'date', 'giorno'] },
+    { key: 'home_team', label: 'Squadra casa', required: true, aliases: ['casa', 'squadra casa', 'home', 'home team'] },
+    { key: 'away_team', label: 'Squadra ospite', required: true, aliases: ['ospite', 'ospiti', 'squadra ospite', 'away', 'away team'] },
+    { key: 'home_goals', label: 'Gol casa', required: true, aliases: ['gol casa', 'reti casa', 'home goals'] },
+    { key: 'away_goals', label: 'Gol ospite', required: true, aliases: ['gol ospite', 'gol ospiti', 'reti ospite', 'away goals'] },
+    { key: 'competition', label: 'Competizione', aliases: ['competizione', 'torneo', 'competition'] },
+    { key: 'notes', label: 'Note', aliases: ['note', 'notes'] },
+  ],
+  playerStats: [
+    { key: 'player', label: 'Calciatore (nome o numero)', required: true, aliases: ['calciatore', 'giocatore', 'nome', 'player', 'numero'] },
+    { key: 'match_date', label: 'Data partita', required: true, aliases: ['data', 'data partita', 'date', 'giorno'] },
+    { key: 'opponent', label: 'Avversario', aliases: ['avversario', 'avversari', 'opponent', 'contro'] },
+    { key: 'right_foot_goals', label: 'Gol destro', aliases: ['gol destro', 'destro', 'dx'] },
+    { key: 'left_foot_goals', label: 'Gol sinistro', aliases: ['gol sinistro', 'sinistro', 'sx'] },
+    { key: 'header_goals', label: 'Gol di testa', aliases: ['gol di testa', 'testa'] },
+    { key: 'penalties', label: 'Rigori', aliases: ['rigori', 'rig'] },
+    { key: 'assists', label: 'Assist', aliases: ['assist', 'assists'] },
+    { key: 'yellow_cards', label: 'Cartellini gialli', aliases: ['cartellini gialli', 'gialli', 'ammonizioni', 'amm'] },
+    { key: 'red_cards', label: 'Cartellini rossi', aliases: ['cartellini rossi', 'rossi', 'espulsioni', 'esp'] },
+    { key: 'notes', label: 'Note', aliases: ['note', 'notes'] },
+  ],
+};
+
+// Field key -> index of the CSV column it is read from, null when not imported
+export type ColumnMapping = Record<string, number | null>;
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRow<T> {
+  line: number; // Row number as a spreadsheet shows it, the header being row 1
+  label: string; // Short description shown in the preview
+  status: ImportRowStatus;
+  errors: string[];
+  values?: T; // Set for valid rows only
+}
+
+// Everything the rows are resolved and checked against
+export interface ImportContext {
+  teams: Team[];
+  competitions: Competition[]; // Of every season
+  seasons: Season[];
+  players: Player[];
+  matches: MatchWithTeams[]; // Of every season
+  matchIdsWithEvents: Set<string>;
+  playerStatKeys: Set<string>; // statKey() of the rows already saved
+}
+
+// Lowercase, no accents or punctuation, so "Squadra Casa" and "squadra_casa" compare equal
+export const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Each field gets the first column whose header is its label or one of its aliases
+export const guessMapping = (fields: ImportField[], headers: string[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  return Object.fromEntries(fields.map(field => {
+    const names = [normalizeHeader(field.label), ...field.aliases];
+    const index = normalizedHeaders.findIndex(header => names.includes(header));
+    return [field.key, index >= 0 ? index : null];
+  }));
+};
+
+export const missingRequiredFields = (fields: ImportField[], mapping: ColumnMapping) =>
+  fields.filter(field => field.required && mapping[field.key] == null);
+
+// Dates as spreadsheets write them: 15/09/2024, 15-09-24, 15.09.2024 or 2024-09-15, optionally followed by a time
+export const parseImportDate = (value: string): Date | null => {
+  const text = value.trim();
+  const time = text.match(/[ T](\d{1,2}):(\d{2})/);
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  const yearFirst = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+
+  let year: number, month: number, day: number;
+  if (yearFirst) {
+    [year, month, day] = yearFirst.slice(1).map(Number);
+  } else if (dayFirst) {
+    [day, month, year] = dayFirst.slice(1).map(Number);
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day, time ? Number(time[1]) : 0, time ? Number(time[2]) : 0);
+  // new Date() rolls 31/02 over to March, which is a typo rather than a date
+  if (!isValid(date) || date.getDate() !== day || date.getMonth() !== month - 1) {
+    return null;
+  }
+  return date;
+};
+
+const dayKey = (date: string | Date) => format(typeof date === 'string' ? new Date(date) : date, 'yyyy-MM-dd');
+
+export const statKey = (matchId: string, playerId: string) => `${matchId}:${playerId}`;
+
+const cell = (row: string[], mapping: ColumnMapping, key: string) => {
+  const index = mapping[key];
+  return index == null ? '' : row[index] ?? '';
+};
+
+const findTeam = (teams: Team[], name: string) => {
+  const normalized = normalizeHeader(name);
+  return teams.find(team => normalizeHeader(team.name) === normalized || (!!team.short_name && normalizeHeader(team.short_name) === normalized));
+};
+
+// Players are matched by name, or by shirt number preferring the active roster
+const findPlayer = (players: Player[], value: string) => {
+  const normalized = normalizeHeader(value);
+  if (/^\d+$/.test(normalized)) {
+    const withNumber = players.filter(player => player.shirt_number === Number(normalized));
+    return withNumber.find(player => player.is_active) ?? withNumber[0];
+  }
+  return players.find(player => normalizeHeader(player.name) === normalized);
+};
+
+// Schema messages for the fields that were resolved without errors of their own,
+// prefixed with the column they come from when the message doesn't say it
+const schemaErrors = (issues: { path: (string | number)[]; message: string }[], skipFields: Set<string>, fields: ImportField[]) =>
+  issues
+    .filter(issue => !skipFields.has(String(issue.path[0])))
+    .map(issue => {
+      const field = fields.find(item => item.key === issue.path[0]);
+      return field ? `${field.label}: ${issue.message}` : issue.message;
+    });
+
+export const validateMatchRows = (rows: string[][], mapping: ColumnMapping, context: ImportContext): ImportRow<MatchFormValues>[] => {
+  const existingKeys = new Set(context.matches.map(match => `${dayKey(match.match_date)}:${match.home_team_id}:${match.away_team_id}`));
+  const fileKeys = new Set<string>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const failedFields = new Set<string>();
+    const fail = (field: string, message: string) => {
+      failedFields.add(field);
+      errors.push(message);
+    };
+
+    const rawDate = cell(row, mapping, 'match_date');
+    const matchDate = rawDate ? parseImportDate(rawDate) : undefined;
+    if (matchDate === null) fail('match_date', `Data "${rawDate}" non valida.`);
+
+    const rawHome = cell(row, mapping, 'home_team');
+    const homeTeam = rawHome ? findTeam(context.teams, rawHome) : undefined;
+    if (rawHome && !homeTeam) fail('home_team_id', `Squadra "${rawHome}" non trovata.`);
+
+    const rawAway = cell(row, mapping, 'away_team');
+    const awayTeam = rawAway ? findTeam(context.teams, rawAway) : undefined;
+    if (rawAway && !awayTeam) fail('away_team_id', `Squadra "${rawAway}" non trovata.`);
+
+    // Competition names repeat every season, so the one of the match's season wins
+    const rawCompetition = cell(row, mapping, 'competition');
+    const namedCompetitions = rawCompetition
+      ? context.competitions.filter(competition => normalizeHeader(competition.name) === normalizeHeader(rawCompetition))
+      : [];
+    const matchSeason = matchDate ? findSeasonForDate(context.seasons, matchDate) : null;
+    const competition = namedCompetitions.find(item => item.season_id === matchSeason?.id) ?? namedCompetitions[0];
+    if (rawCompetition && !competition) fail('competition_id', `Competizione "${rawCompetition}" non trovata.`);
+
+    const label = `${rawDate || '-'} · ${rawHome || '?'} vs ${rawAway || '?'} ${cell(row, mapping, 'home_goals')}-${cell(row, mapping, 'away_goals')}`;
+
+    const result = matchFormSchema.safeParse({
+      match_date: matchDate ?? undefined,
+      home_team_id: homeTeam?.id ?? '',
+      away_team_id: awayTeam?.id ?? '',
+      competition_id: competition?.id ?? '',
+      home_goals: cell(row, mapping, 'home_goals'),
+      away_goals: cell(row, mapping, 'away_goals'),
+      notes: cell(row, mapping, 'notes'),
+    });
+    if (!result.success) {
+      errors.push(...schemaErrors(result.error.issues, failedFields, importFields.matches));
+      return { line: index + 2, label, status: 'invalid', errors };
+    }
+
+    // Same checks as the match form
+    const values = result.data;
+    if (values.home_team_id === values.away_team_id) {
+      errors.push('La squadra ospite deve essere diversa dalla squadra di casa.');
+    }
+    if (matchSeason?.is_archived) {
+      errors.push(`La data appartiene alla stagione archiviata ${matchSeason.name}.`);
+    }
+    const competitionSeason = competition && context.seasons.find(item => item.id === competition.season_id);
+    if (competitionSeason && !isDateInSeason(competitionSeason, values.match_date)) {
+      errors.push(`La data è fuori dalla stagione ${competitionSeason.name} della competizione.`);
+    }
+    if (errors.length > 0) {
+      return { line: index + 2, label, status: 'invalid', errors };
+    }
+
+    // Same day and same teams: already saved, or repeated further up in the file
+    const key = `${dayKey(values.match_date)}:${values.home_team_id}:${values.away_team_id}`;
+    if (existingKeys.has(key) || fileKeys.has(key)) {
+      return { line: index + 2, label, status: 'duplicate', errors: [existingKeys.has(key) ? 'Partita già presente.' : 'Partita ripetuta nel file.'] };
+    }
+    fileKeys.add(key);
+
+    return { line: index + 2, label, status: 'valid', errors: [], values };
+  });
+};
+
+export const validatePlayerStatRows = (rows: string[][], mapping: ColumnMapping, context: ImportContext): ImportRow<PlayerStatsFormValues>[] => {
+  const fileKeys = new Set<string>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const failedFields = new Set<string>();
+    const fail = (field: string, message: string) => {
+      failedFields.add(field);
+      errors.push(message);
+    };
+
+    const rawPlayer = cell(row, mapping, 'player');
+    const player = rawPlayer ? findPlayer(context.players, rawPlayer) : undefined;
+    if (rawPlayer && !player) fail('player_id', `Calciatore "${rawPlayer}" non trovato in rosa.`);
+
+    // The match is the one played that day, against the opponent when the file names one
+    const rawDate = cell(row, mapping, 'match_date');
+    const rawOpponent = cell(row, mapping, 'opponent');
+    const matchDate = rawDate ? parseImportDate(rawDate) : undefined;
+    let match: MatchWithTeams | undefined;
+    if (matchDate === null) {
+      fail('match_id', `Data "${rawDate}" non valida.`);
+    } else if (matchDate) {
+      const opponent = rawOpponent ? findTeam(context.teams, rawOpponent) : undefined;
+      const candidates = context.matches.filter(item =>
+        dayKey(item.match_date) === dayKey(matchDate) &&
+        (!rawOpponent || item.home_team_id === opponent?.id || item.away_team_id === opponent?.id));
+      if (candidates.length === 1) {
+        match = candidates[0];
+      } else if (candidates.length === 0) {
+        fail('match_id', `Nessuna partita il ${format(matchDate, 'dd/MM/yyyy')}${rawOpponent ? ` contro "${rawOpponent}"` : ''}.`);
+      } else {
+        fail('match_id', `Più partite il ${format(matchDate, 'dd/MM/yyyy')}: indica l'avversario.`);
+      }
+    }
+
+    const label = `${player ? formatPlayerName(player) : rawPlayer || '?'} · ${match ? formatMatchLabel(match) : `${rawDate || '-'}${rawOpponent ? ` vs ${rawOpponent}` : ''}`}`;
+
+    const result = playerStatsFormSchema.safeParse({
+      player_id: player?.id ?? '',
+      match_id: match?.id ?? '',
+      right_foot_goals: cell(row, mapping, 'right_foot_goals'),
+      left_foot_goals: cell(row, mapping, 'left_foot_goals'),
+      header_goals: cell(row, mapping, 'header_goals'),
+      penalties: cell(row, mapping, 'penalties'),
+      assists: cell(row, mapping, 'assists'),
+      yellow_cards: cell(row, mapping, 'yellow_cards'),
+      red_cards: cell(row, mapping, 'red_cards'),
+      notes: cell(row, mapping, 'notes'),
+    });
+    if (!result.success) {
+      errors.push(...schemaErrors(result.error.issues, failedFields, importFields.playerStats));
+      return { line: index + 2, label, status: 'invalid', errors };
+    }
+
+    // Same checks as the stats form
+    const values = result.data;
+    if (errors.length === 0 && match) {
+      if (context.matchIdsWithEvents.has(match.id)) {
+        errors.push('La partita ha una cronologia eventi: le statistiche sono calcolate automaticamente.');
+      }
+      if (findSeasonForDate(context.seasons, match.match_date)?.is_archived) {
+        errors.push('La partita appartiene a una stagione archiviata.');
+      }
+    }
+    if (errors.length > 0) {
+      return { line: index + 2, label, status: 'invalid', errors };
+    }
+
+    // One row per player and match
+    const key = statKey(values.match_id, values.player_id);
+    if (context.playerStatKeys.has(key) || fileKeys.has(key)) {
+      return { line: index + 2, label, status: 'duplicate', errors: [context.playerStatKeys.has(key) ? 'Statistica già presente per questa partita.' : 'Riga ripetuta nel file.'] };
+    }
+    fileKeys.add(key);
+
+    return { line: index + 2, label, status: 'valid', errors: [], values };
+  });
+};
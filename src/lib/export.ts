@@ -0,0 +1,87 @@
+import { format } from 'date-fns';
+
+// Table exports for spreadsheets, formatted the Italian way: "15/09/2024", "1,5", ';' between columns
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string; // Italian header, as shown on screen
+  value: (row: T) => ExportValue;
+  dateFormat?: 'date' | 'datetime'; // Only for Date values, 'date' by default
+  width?: number; // Excel column width in characters
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const numberFormatter = new Intl.NumberFormat('it-IT', { maximumFractionDigits: 2 });
+
+const dateFormats = {
+  date: { csv: 'dd/MM/yyyy', xlsx: 'dd/mm/yyyy' },
+  datetime: { csv: 'dd/MM/yyyy HH:mm', xlsx: 'dd/mm/yyyy hh:mm' },
+};
+
+// Text starting like a formula ("=HYPERLINK(...)", "+39 ...") would be run by Excel: the quote makes it plain text
+const escapeFormula = (text: string) => (/^[=+\-@\t\r]/.test(text) ? `'${text}` : text);
+
+const formatCsvValue = <T>(column: ExportColumn<T>, value: ExportValue) => {
+  if (value == null) return '';
+  if (value instanceof Date) return format(value, dateFormats[column.dateFormat ?? 'date'].csv);
+  if (typeof value === 'number') return numberFormatter.format(value);
+  return escapeFormula(value);
+};
+
+// Quotes only the fields that need it, doubling the quotes inside
+const quoteCsvField = (field: string) =>
+  /[";\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  [
+    columns.map(column => quoteCsvField(column.header)),
+    ...rows.map(row => columns.map(column => quoteCsvField(formatCsvValue(column, column.value(row))))),
+  ].map(fields => fields.join(';')).join('\r\n');
+
+// Safe file name: "Città Alta 2024/25" -> "citta-alta-2024-25"
+export const toFileSlug = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// "partite-2024-25-2025-10-01": what, which season, when it was exported
+export const exportFileName = (base: string, seasonName?: string | null) =>
+  toFileSlug([base, seasonName, format(new Date(), 'yyyy-MM-dd')].filter(Boolean).join('-'));
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Browsers may read the URL after click() returns: revoking right away can cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 40_000);
+};
+
+export const downloadCsv = <T>(fileName: string, rows: T[], columns: ExportColumn<T>[]) => {
+  // The byte order mark makes Excel read the file as UTF-8 (accents in names)
+  downloadBlob(new Blob(['\uFEFF', toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+// The Excel writer is only loaded when someone actually exports
+export const downloadXlsx = async <T>(fileName: string, rows: T[], columns: ExportColumn<T>[], sheetName?: string) => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const data = [
+    columns.map(column => ({ value: column.header, fontWeight: 'bold' as const })),
+    ...rows.map(row => columns.map((column) => {
+      const value = column.value(row);
+      if (value == null || value === '') return null;
+      if (value instanceof Date) return { value, format: dateFormats[column.dateFormat ?? 'date'].xlsx };
+      return { value };
+    })),
+  ];
+  await writeXlsxFile(data, {
+    columns: columns.map(column => ({ width: column.width ?? Math.max(10, column.header.length + 2) })),
+    sheet: sheetName?.slice(0, 31), // Excel limit on sheet names
+  }).toFile(`${fileName}.xlsx`);
+};
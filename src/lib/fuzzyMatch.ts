@@ -0,0 +1,118 @@
+import { format } from 'date-fns';
+import { getCompetitionName, getTeamName } from '@/lib/matches';
+import type { MatchWithTeams } from '@/types/match';
+import type { Player } from '@/types/player';
+
+// Words that carry no information when comparing "vs Squadra B (Campionato)" style strings
+const STOP_WORDS = new Set(['vs', 'v', 'contro', 'con', 'il', 'la', 'lo', 'i', 'gli', 'le', 'di', 'del', 'della', 'a', 'in', 'partita']);
+
+// Lowercase, strip accents and punctuation, split into words
+const tokenize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9/]+/g, ' ')
+    .split(' ')
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+
+const bigrams = (word: string) => {
+  const result: string[] = [];
+  for (let i = 0; i < word.length - 1; i++) {
+    result.push(word.slice(i, i + 2));
+  }
+  return result;
+};
+
+// Sørensen–Dice coefficient on character bigrams: 1 for equal words, 0 for nothing in common
+export const diceCoefficient = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigramsA = bigrams(a);
+  const bigramsB = bigrams(b);
+  const counts = new Map<string, number>();
+  bigramsB.forEach(bigram => counts.set(bigram, (counts.get(bigram) || 0) + 1));
+  let overlap = 0;
+  bigramsA.forEach((bigram) => {
+    const count = counts.get(bigram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bigram, count - 1);
+    }
+  });
+  return (2 * overlap) / (bigramsA.length + bigramsB.length);
+};
+
+// Average of the best similarity of every word in `words` with the words in `candidates`
+const wordSimilarity = (words: string[], candidates: string[]) =>
+  words.reduce((sum, token) => sum + Math.max(0, ...candidates.map(candidate => diceCoefficient(token, candidate))), 0) / words.length;
+
+// Dates written as 12/03, 12-03-2025, 12.3.25 ...
+const DATE_PATTERN = /\b(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?\b/;
+
+const mentionsMatchDate = (text: string, matchDate: Date) => {
+  const found = text.match(DATE_PATTERN);
+  if (!found) return false;
+  const [, day, month, year] = found;
+  if (Number(day) !== matchDate.getDate() || Number(month) !== matchDate.getMonth() + 1) return false;
+  return !year || matchDate.getFullYear() % 100 === Number(year) % 100;
+};
+
+const matchTokens = (match: MatchWithTeams) => tokenize([
+  getTeamName(match.home_team),
+  match.home_team?.short_name,
+  getTeamName(match.away_team),
+  match.away_team?.short_name,
+  getCompetitionName(match),
+  format(new Date(match.match_date), 'dd/MM/yyyy'),
+].filter(Boolean).join(' '));
+
+// Similarity between a free-text match description and a match row, between 0 and 1
+export const scoreMatch = (details: string, match: MatchWithTeams) => {
+  const detailTokens = tokenize(details).filter(token => !DATE_PATTERN.test(token));
+  const candidateTokens = matchTokens(match);
+  const dateBonus = mentionsMatchDate(details, new Date(match.match_date)) ? 0.3 : 0;
+  if (detailTokens.length === 0) {
+    return dateBonus;
+  }
+  // Average of the best word-to-word similarity for every word in the description
+  const wordScore = wordSimilarity(detailTokens, candidateTokens);
+  return Math.min(1, wordScore * 0.7 + dateBonus + (wordScore === 1 ? 0.3 : 0));
+};
+
+export interface MatchSuggestion {
+  match: MatchWithTeams;
+  score: number;
+}
+
+// Matches ordered by similarity to the description, best first
+export const suggestMatches = (details: string, matches: MatchWithTeams[], limit = 3): MatchSuggestion[] =>
+  matches
+    .map(match => ({ match, score: scoreMatch(details, match) }))
+    .filter(suggestion => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+// Similarity between a free-text player name and a roster player, between 0 and 1. Both ways,
+// so "Rossi" points at "Marco Rossi" without scoring as high as the full name.
+export const scorePlayer = (name: string, player: Pick<Player, 'name'>) => {
+  const nameTokens = tokenize(name);
+  const playerTokens = tokenize(player.name);
+  if (nameTokens.length === 0 || playerTokens.length === 0) {
+    return 0;
+  }
+  return (wordSimilarity(nameTokens, playerTokens) + wordSimilarity(playerTokens, nameTokens)) / 2;
+};
+
+export interface PlayerSuggestion {
+  player: Player;
+  score: number;
+}
+
+// Roster players ordered by similarity to the name, best first
+export const suggestPlayers = (name: string, players: Player[], limit = 3): PlayerSuggestion[] =>
+  players
+    .map(player => ({ player, score: scorePlayer(name, player) }))
+    .filter(suggestion => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
@@ -0,0 +1,132 @@
+import type { MatchEventValues } from '@/lib/repositories';
+import type { OutboxValues } from '@/lib/outbox';
+import type { GoalType, MatchEvent, MatchEventType } from '@/types/matchEvent';
+import type { Match } from '@/types/match';
+import type { PlayerStat } from '@/types/playerStat';
+
+export const eventTypeLabels: Record<MatchEventType, string> = {
+  goal: 'Gol',
+  own_goal: 'Autogol',
+  yellow_card: 'Cartellino Giallo',
+  red_card: 'Cartellino Rosso',
+  substitution: 'Sostituzione',
+};
+
+export const goalTypeLabels: Record<GoalType, string> = {
+  right_foot: 'Destro',
+  left_foot: 'Sinistro',
+  header: 'Testa',
+  penalty: 'Rigore',
+};
+
+// Label for the related player, depending on the event type
+export const relatedPlayerLabels: Partial<Record<MatchEventType, string>> = {
+  goal: 'Assist',
+  substitution: 'Entra',
+};
+
+// Events in timeline order (by minute and added time, then by insertion)
+export const sortEvents = (events: MatchEvent[]) =>
+  [...events].sort((a, b) =>
+    a.minute - b.minute || (a.added_minute ?? 0) - (b.added_minute ?? 0) || a.created_at.localeCompare(b.created_at));
+
+// "23'" or "45'+2", of a saved event or one about to be recorded
+export const formatEventMinute = (event: Pick<MatchEventValues, 'minute' | 'added_minute'>) =>
+  event.added_minute ? `${event.minute}'+${event.added_minute}` : `${event.minute}'`;
+
+// Columns the forms leave out, for showing an event that is still waiting to be inserted
+const emptyMatchEvent: MatchEvent = {
+  id: '',
+  created_at: '',
+  match_id: '',
+  team_id: '',
+  event_type: 'goal',
+  goal_type: null,
+  player_id: null,
+  related_player_id: null,
+  minute: 0,
+  added_minute: null,
+  period: null,
+  notes: null,
+};
+
+// An event as it will be once the offline outbox is sent (see withPendingWrites)
+export const buildPendingMatchEvent = (values: OutboxValues<'match_events'>, row: MatchEvent | null): MatchEvent =>
+  ({ ...(row ?? emptyMatchEvent), ...values });
+
+const isGoal = (event: MatchEvent) => event.event_type === 'goal' || event.event_type === 'own_goal';
+
+// Score of the match as recorded by its events
+export const deriveScore = (events: MatchEvent[], match: Pick<Match, 'home_team_id' | 'away_team_id'>) => ({
+  home_goals: events.filter(event => isGoal(event) && event.team_id === match.home_team_id).length,
+  away_goals: events.filter(event => isGoal(event) && event.team_id === match.away_team_id).length,
+});
+
+// Per-player counters, in the same shape as the player_stats columns
+export interface DerivedPlayerStats {
+  player_id: string;
+  right_foot_goals: number;
+  left_foot_goals: number;
+  header_goals: number;
+  penalties: number;
+  assists: number;
+  yellow_cards: number;
+  red_cards: number;
+}
+
+const goalTypeColumns: Record<GoalType, keyof Omit<DerivedPlayerStats, 'player_id'>> = {
+  right_foot: 'right_foot_goals',
+  left_foot: 'left_foot_goals',
+  header: 'header_goals',
+  penalty: 'penalties',
+};
+
+// Player stat rows for a match, built from its events. Own goals are not credited to the scorer.
+// The database applies the same rules (sync_match_from_events in supabase/migrations).
+export const derivePlayerStats = (events: MatchEvent[]): DerivedPlayerStats[] => {
+  const statsByPlayer = new Map<string, DerivedPlayerStats>();
+  const statsFor = (playerId: string) => {
+    if (!statsByPlayer.has(playerId)) {
+      statsByPlayer.set(playerId, {
+        player_id: playerId,
+        right_foot_goals: 0,
+        left_foot_goals: 0,
+        header_goals: 0,
+        penalties: 0,
+        assists: 0,
+        yellow_cards: 0,
+        red_cards: 0,
+      });
+    }
+    return statsByPlayer.get(playerId);
+  };
+
+  events.forEach((event) => {
+    switch (event.event_type) {
+      case 'goal':
+        if (event.player_id) {
+          statsFor(event.player_id)[goalTypeColumns[event.goal_type || 'right_foot']]++;
+        }
+        if (event.related_player_id) {
+          statsFor(event.related_player_id).assists++;
+        }
+        break;
+      case 'yellow_card':
+        if (event.player_id) statsFor(event.player_id).yellow_cards++;
+        break;
+      case 'red_card':
+        if (event.player_id) statsFor(event.player_id).red_cards++;
+        break;
+      default:
+        // Own goals and substitutions don't change player totals
+        break;
+    }
+  });
+
+  return Array.from(statsByPlayer.values());
+};
+
+// Stat rows of a match without a timeline yet, whose counters the first event would replace
+// (entered with the form, the bulk grid or the CSV import)
+export const countStatsReplacedByEvents = (stats: Pick<PlayerStat, 'player_id'>[], events: MatchEvent[]) =>
+  events.length > 0 ? 0 : stats.filter(stat => stat.player_id).length;
@@ -0,0 +1,76 @@
+// How a match is played: number and length of periods, breaks and optional extra time
+export interface MatchFormat {
+  id: string;
+  name: string;
+  periods: number;
+  periodMinutes: number;
+  breakMinutes: number;
+  extraTimePeriods: number; // 0 if the format has no extra time
+  extraTimeMinutes: number;
+  isCustom?: boolean;
+}
+
+export const matchFormatPresets: MatchFormat[] = [
+  { id: 'eleven-a-side', name: 'Calcio a 11 (2×45)', periods: 2, periodMinutes: 45, breakMinutes: 15, extraTimePeriods: 2, extraTimeMinutes: 15 },
+  { id: 'youth-2x35', name: 'Giovanili (2×35)', periods: 2, periodMinutes: 35, breakMinutes: 10, extraTimePeriods: 0, extraTimeMinutes: 0 },
+  { id: 'youth-2x30', name: 'Giovanili (2×30)', periods: 2, periodMinutes: 30, breakMinutes: 10, extraTimePeriods: 0, extraTimeMinutes: 0 },
+  { id: 'youth-4x15', name: 'Giovanili (4×15)', periods: 4, periodMinutes: 15, breakMinutes: 5, extraTimePeriods: 0, extraTimeMinutes: 0 },
+  { id: 'five-a-side', name: 'Calcio a 5 (2×20)', periods: 2, periodMinutes: 20, breakMinutes: 10, extraTimePeriods: 2, extraTimeMinutes: 5 },
+];
+
+export const DEFAULT_MATCH_FORMAT_ID = matchFormatPresets[0].id;
+
+const CUSTOM_FORMATS_KEY = 'matchFormats.custom';
+
+export const loadCustomFormats = (): MatchFormat[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_FORMATS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading custom match formats:', error);
+    return [];
+  }
+};
+
+export const saveCustomFormats = (formats: MatchFormat[]) => {
+  localStorage.setItem(CUSTOM_FORMATS_KEY, JSON.stringify(formats));
+};
+
+// Falls back to the default preset if the format was deleted
+export const findMatchFormat = (formatId: string) =>
+  [...matchFormatPresets, ...loadCustomFormats()].find(format => format.id === formatId) ?? matchFormatPresets[0];
+
+export interface MatchPhase {
+  kind: 'period' | 'break';
+  label: string;
+  durationMs: number;
+  minuteOffset: number; // Match minutes played before this phase
+  isExtraTime: boolean;
+}
+
+const periodLabel = (index: number) => `${index + 1}° Tempo`;
+const extraTimeLabel = (index: number, count: number) =>
+  count === 1 ? 'Tempo Supplementare' : `${index + 1}° Tempo Supplementare`;
+
+// Periods and breaks in playing order. Extra time phases are added only when it is actually played.
+export const buildPhases = (format: MatchFormat, withExtraTime: boolean): MatchPhase[] => {
+  const phases: MatchPhase[] = [];
+  const breakPhase = (label: string, minuteOffset: number, isExtraTime: boolean): MatchPhase =>
+    ({ kind: 'break', label, durationMs: format.breakMinutes * 60000, minuteOffset, isExtraTime });
+
+  for (let i = 0; i < format.periods; i++) {
+    if (i > 0) phases.push(breakPhase('Intervallo', i * format.periodMinutes, false));
+    phases.push({ kind: 'period', label: periodLabel(i), durationMs: format.periodMinutes * 60000, minuteOffset: i * format.periodMinutes, isExtraTime: false });
+  }
+
+  if (withExtraTime) {
+    const regulationMinutes = format.periods * format.periodMinutes;
+    for (let i = 0; i < format.extraTimePeriods; i++) {
+      const minuteOffset = regulationMinutes + i * format.extraTimeMinutes;
+      phases.push(breakPhase(i === 0 ? 'Pausa prima dei supplementari' : 'Intervallo', minuteOffset, true));
+      phases.push({ kind: 'period', label: extraTimeLabel(i, format.extraTimePeriods), durationMs: format.extraTimeMinutes * 60000, minuteOffset, isExtraTime: true });
+    }
+  }
+
+  return phases;
+};
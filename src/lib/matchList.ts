@@ -0,0 +1,85 @@
+import { isValid, parse } from 'date-fns';
+import type { MatchOutcome } from './matches';
+
+export const MATCH_LIST_PAGE_SIZE = 20;
+
+// Columns of the match_list view the list can be sorted on
+export type MatchListSort = 'match_date' | 'home_team_name' | 'away_team_name' | 'competition_name';
+
+export type MatchVenue = 'home' | 'away';
+
+// Filters, sorting and page of the matches list, kept in the URL so a filtered view can be bookmarked
+export interface MatchListParams {
+  from: string; // yyyy-MM-dd, empty for no lower bound
+  to: string; // yyyy-MM-dd, empty for no upper bound
+  opponent: string; // teams.id
+  competition: string; // competitions.id
+  result: MatchOutcome | '';
+  venue: MatchVenue | '';
+  q: string; // Free-text search on teams, competition and notes
+  sort: MatchListSort;
+  dir: 'asc' | 'desc';
+  page: number; // 1-based
+}
+
+export const defaultMatchListParams: MatchListParams = {
+  from: '',
+  to: '',
+  opponent: '',
+  competition: '',
+  result: '',
+  venue: '',
+  q: '',
+  sort: 'match_date',
+  dir: 'desc',
+  page: 1,
+};
+
+const sorts: MatchListSort[] = ['match_date', 'home_team_name', 'away_team_name', 'competition_name'];
+const results: MatchOutcome[] = ['win', 'draw', 'loss'];
+const venues: MatchVenue[] = ['home', 'away'];
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T | '') =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// A yyyy-MM-dd day that exists in the calendar, e.g. not 2024-02-30
+const day = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parse(value, 'yyyy-MM-dd', new Date())) ? value : '';
+
+// A row id (uuid): anything else would make the database reject the whole query
+const rowId = (value: string | null) =>
+  value && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value) ? value : '';
+
+// Unknown or malformed values fall back to the defaults, so hand-edited URLs never break the page
+export const parseMatchListParams = (searchParams: URLSearchParams): MatchListParams => {
+  const page = Number(searchParams.get('page'));
+  return {
+    from: day(searchParams.get('from')),
+    to: day(searchParams.get('to')),
+    opponent: rowId(searchParams.get('opponent')),
+    competition: rowId(searchParams.get('competition')),
+    result: oneOf(searchParams.get('result'), results, ''),
+    venue: oneOf(searchParams.get('venue'), venues, ''),
+    q: searchParams.get('q') ?? '',
+    sort: oneOf(searchParams.get('sort'), sorts, defaultMatchListParams.sort) || defaultMatchListParams.sort,
+    dir: searchParams.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+export const hasMatchListFilters = (params: MatchListParams) =>
+  !!(params.from || params.to || params.opponent || params.competition || params.result || params.venue || params.q);
+
+// Only values that differ from the defaults end up in the URL
+export const toMatchListSearchParams = (params: MatchListParams) => {
+  const searchParams = new URLSearchParams();
+  (Object.keys(defaultMatchListParams) as (keyof MatchListParams)[]).forEach((key) => {
+    if (params[key] !== defaultMatchListParams[key]) {
+      searchParams.set(key, String(params[key]));
+    }
+  });
+  return searchParams;
+};
+
+// Characters with a meaning in PostgREST filters are dropped from the search text
+export const sanitizeSearch = (q: string) => q.replace(/[%_,()*\\]/g, ' ').trim();
@@ -0,0 +1,189 @@
+import { format } from 'date-fns';
+import { CLUB_NAME } from '@/lib/club';
+import { toFileSlug } from '@/lib/export';
+import { getCompetitionName, getOwnClubResult, getTeamName, MatchOutcome, outcomeLabels } from '@/lib/matches';
+import { formatPlayerName, getTotalGoals } from '@/lib/players';
+import { getMatchPoints } from '@/lib/competitions';
+import type { MatchWithTeams } from '@/types/match';
+import type { PlayerStat } from '@/types/playerStat';
+
+// Printable match summary for the club newsletter: the content is built here, the PDF drawn in generateMatchReportPdf
+
+const FORM_WINDOW = 5; // Matches summarised by the form line
+
+const outcomeLetters: Record<MatchOutcome, string> = { win: 'V', draw: 'N', loss: 'P' };
+
+export interface MatchReport {
+  date: string;
+  competition: string;
+  homeTeam: string;
+  awayTeam: string;
+  score: string;
+  outcome: string | null; // From our club's side
+  scorers: string[];
+  assists: string[];
+  cards: string[];
+  notes: string;
+  form: string | null; // Our club's last results up to this match
+}
+
+const statPlayerName = (stat: PlayerStat) => (stat.player ? formatPlayerName(stat.player) : stat.player_name || '-');
+
+// "2 (1 destro, 1 rigore)", the split only when there is more than one kind of goal
+const describeGoals = (stat: PlayerStat) => {
+  const kinds = [
+    [stat.right_foot_goals, 'destro'],
+    [stat.left_foot_goals, 'sinistro'],
+    [stat.header_goals, 'testa'],
+    [stat.penalties, stat.penalties === 1 ? 'rigore' : 'rigori'],
+  ].filter(([count]) => Number(count) > 0);
+  const total = getTotalGoals(stat);
+  return kinds.length > 1 ? `${total} (${kinds.map(([count, label]) => `${count} ${label}`).join(', ')})` : String(total);
+};
+
+const describeCards = (stat: PlayerStat) => [
+  stat.yellow_cards > 0 && `${stat.yellow_cards} ${stat.yellow_cards === 1 ? 'giallo' : 'gialli'}`,
+  stat.red_cards > 0 && `${stat.red_cards} ${stat.red_cards === 1 ? 'rosso' : 'rossi'}`,
+].filter(Boolean).join(', ');
+
+// "V V N P V · 10 punti, 9 gol fatti e 4 subiti nelle ultime 5" over the club's matches played up to this one
+const describeForm = (match: MatchWithTeams, clubMatches: MatchWithTeams[]) => {
+  const results = clubMatches
+    .filter(item => item.match_date <= match.match_date && new Date(item.match_date) <= new Date())
+    .sort((a, b) => b.match_date.localeCompare(a.match_date))
+    .map(item => ({ ...getOwnClubResult(item), match: item }))
+    .filter(result => result.outcome)
+    .slice(0, FORM_WINDOW)
+    .reverse(); // Oldest first, as the form is read left to right
+  if (results.length === 0) return null;
+
+  const points = results.reduce((sum, result) => sum + getMatchPoints(result.match, result.outcome), 0);
+  const goalsFor = results.reduce((sum, result) => sum + result.goalsFor, 0);
+  const goalsAgainst = results.reduce((sum, result) => sum + result.goalsAgainst, 0);
+  return `${results.map(result => outcomeLetters[result.outcome]).join(' ')} · ${points} punti, ${goalsFor} gol fatti e ${goalsAgainst} subiti nelle ultime ${results.length}`;
+};
+
+export const buildMatchReport = (match: MatchWithTeams, stats: PlayerStat[], clubMatches: MatchWithTeams[]): MatchReport => {
+  const byName = (a: PlayerStat, b: PlayerStat) => statPlayerName(a).localeCompare(statPlayerName(b));
+  const result = getOwnClubResult(match);
+
+  return {
+    date: format(new Date(match.match_date), 'dd/MM/yyyy'),
+    competition: getCompetitionName(match),
+    homeTeam: getTeamName(match.home_team),
+    awayTeam: getTeamName(match.away_team),
+    score: `${match.home_goals} - ${match.away_goals}`,
+    outcome: result ? outcomeLabels[result.outcome] : null,
+    scorers: stats
+      .filter(stat => getTotalGoals(stat) > 0)
+      .sort((a, b) => getTotalGoals(b) - getTotalGoals(a) || byName(a, b))
+      .map(stat => `${statPlayerName(stat)}: ${describeGoals(stat)}`),
+    assists: stats
+      .filter(stat => stat.assists > 0)
+      .sort((a, b) => b.assists - a.assists || byName(a, b))
+      .map(stat => `${statPlayerName(stat)}: ${stat.assists}`),
+    cards: stats
+      .filter(stat => stat.yellow_cards > 0 || stat.red_cards > 0)
+      .sort(byName)
+      .map(stat => `${statPlayerName(stat)}: ${describeCards(stat)}`),
+    notes: match.notes || '',
+    form: describeForm(match, clubMatches),
+  };
+};
+
+export const matchReportFileName = (report: MatchReport) =>
+  toFileSlug(`report-${report.date}-${report.homeTeam}-${report.awayTeam}`);
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BRAND_COLOR: [number, number, number] = [30, 64, 175]; // Tailwind blue-800, as the sidebar title
+
+// jsPDF is only loaded when a report is actually generated
+export const generateMatchReportPdf = async (report: MatchReport) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = 0;
+
+  // Starts a new page when the next block doesn't fit
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Branded header band
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(CLUB_NAME, MARGIN, 17);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text('Report partita', PAGE_WIDTH - MARGIN, 17, { align: 'right' });
+  doc.setTextColor(0, 0, 0);
+  y = 42;
+
+  // Date and competition, then the score
+  doc.setFontSize(11);
+  doc.setTextColor(100, 100, 100);
+  doc.text([report.date, report.competition].filter(Boolean).join(' · '), PAGE_WIDTH / 2, y, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+  y += 14;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(doc.splitTextToSize(`${report.homeTeam}  ${report.score}  ${report.awayTeam}`, CONTENT_WIDTH), PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 10;
+  if (report.outcome) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(12);
+    doc.text(report.outcome, PAGE_WIDTH / 2, y, { align: 'center' });
+    y += 6;
+  }
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.line(MARGIN, y + 2, PAGE_WIDTH - MARGIN, y + 2);
+  y += 14;
+
+  const section = (title: string, lines: string[], emptyText: string) => {
+    ensureSpace(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(title, MARGIN, y);
+    doc.setTextColor(0, 0, 0);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    y += 7;
+    const wrapped: string[] = (lines.length > 0 ? lines : [emptyText]).flatMap(line => doc.splitTextToSize(line, CONTENT_WIDTH));
+    wrapped.forEach((line) => {
+      ensureSpace(6);
+      doc.text(line, MARGIN, y);
+      y += 6;
+    });
+    y += 6;
+  };
+
+  section('Marcatori', report.scorers, 'Nessun gol registrato.');
+  section('Assist', report.assists, 'Nessun assist registrato.');
+  section('Cartellini', report.cards, 'Nessun cartellino.');
+  section('Forma', report.form ? [report.form] : [], 'Nessuna partita giocata.');
+  if (report.notes) {
+    section('Note', report.notes.split(/\r?\n/), '');
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(9);
+    doc.setTextColor(120, 120, 120);
+    doc.text(`${CLUB_NAME} · generato il ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, MARGIN, PAGE_HEIGHT - 10);
+    doc.text(`${page}/${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: 'right' });
+  }
+
+  doc.save(`${matchReportFileName(report)}.pdf`);
+};
@@ -0,0 +1,47 @@
+import { format } from 'date-fns';
+import type { Team } from '@/types/team';
+import type { MatchWithTeams } from '@/types/match';
+
+// Select clause that resolves home and away team through the two foreign keys on matches, and the competition
+export const MATCH_WITH_TEAMS_SELECT =
+  '*, home_team:teams!matches_home_team_id_fkey(*), away_team:teams!matches_away_team_id_fkey(*), competition_info:competitions(*)' as const;
+
+// Name to display for a team, "-" while it is not loaded yet
+export const getTeamName = (team: Team | null | undefined) =>
+  team?.name ?? '-';
+
+// Competition name, falling back to the legacy free-text competition
+export const getCompetitionName = (match: Pick<MatchWithTeams, 'competition' | 'competition_info'>) =>
+  match.competition_info?.name ?? match.competition ?? '';
+
+// Stats of friendlies (and of any competition flagged so) stay out of the official totals
+export const countsForStats = (match: Pick<MatchWithTeams, 'competition_info'>) =>
+  match.competition_info?.counts_for_stats ?? true;
+
+// "12/03/2025 · Leon vs Squadra B (Campionato)", used in match pickers
+export const formatMatchLabel = (match: MatchWithTeams) => {
+  const teams = `${getTeamName(match.home_team)} vs ${getTeamName(match.away_team)}`;
+  const competitionName = getCompetitionName(match);
+  const competition = competitionName ? ` (${competitionName})` : '';
+  return `${format(new Date(match.match_date), 'dd/MM/yyyy')} · ${teams}${competition}`;
+};
+
+export type MatchOutcome = 'win' | 'draw' | 'loss';
+
+export const outcomeLabels: Record<MatchOutcome, string> = {
+  win: 'Vittoria',
+  draw: 'Pareggio',
+  loss: 'Sconfitta',
+};
+
+// Result seen from our club's side, or null when our club did not play the match
+export const getOwnClubResult = (match: MatchWithTeams) => {
+  const isHome = !!match.home_team?.is_own_club;
+  if (!isHome && !match.away_team?.is_own_club) {
+    return null;
+  }
+  const goalsFor = isHome ? match.home_goals : match.away_goals;
+  const goalsAgainst = isHome ? match.away_goals : match.home_goals;
+  const outcome: MatchOutcome = goalsFor > goalsAgainst ? 'win' : goalsFor === goalsAgainst ? 'draw' : 'loss';
+  return { goalsFor, goalsAgainst, outcome, opponent: isHome ? match.away_team : match.home_team };
+};
@@ -0,0 +1,388 @@
+import { onlineManager } from '@tanstack/react-query';
+import { createStore, del, get, set } from 'idb-keyval';
+import { repositories } from '@/lib/repositories';
+import type { Tables } from '@/types/database';
+import type { Match } from '@/types/match';
+import type { MatchEvent } from '@/types/matchEvent';
+
+// Writes made without a connection wait in a durable outbox (IndexedDB) and are sent in order
+// when the connection returns. Before an update or a delete is sent, the server row is compared
+// with the row as it was when edited: if someone changed it in the meantime the queue stops on a
+// conflict, to be resolved by hand. Each user has their own outbox, emptied when they log out.
+
+export type OutboxTable = 'matches' | 'player_stats' | 'match_events';
+
+// batch: several writes of a table sent as a unit, one upsert on the natural key then one delete
+export type OutboxOperation = 'insert' | 'update' | 'delete' | 'batch';
+
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+// Row of each table, as the app reads it
+interface OutboxRows {
+  matches: Match;
+  player_stats: Tables<'player_stats'>;
+  match_events: MatchEvent;
+}
+
+// Some columns of a row of the table
+export type OutboxValues<T extends OutboxTable = OutboxTable> = Partial<OutboxRows[T]>;
+
+export interface OutboxWrite<T extends OutboxTable = OutboxTable> {
+  table: T;
+  operation: OutboxOperation;
+  rowId: string; // Generated on the device for inserts, see newRowId
+  values: OutboxValues<T> | null; // Columns written, null for deletes
+  base: OutboxValues<T> | null; // Edited columns as they were on the server, null for inserts
+  label: string; // What the row is, for the sync status ("Partita 15/09/2024 ...")
+  writes?: OutboxWrite<T>[]; // Row writes of a batch, whose own rowId only identifies it
+}
+
+export interface OutboxEntry<T extends OutboxTable = OutboxTable> extends OutboxWrite<T> {
+  id: string;
+  createdAt: string;
+  status: OutboxStatus;
+  error: string | null; // Why the entry is stuck
+}
+
+export const outboxOperationLabels: Record<OutboxOperation, string> = {
+  insert: 'Nuova',
+  update: 'Modifica',
+  delete: 'Eliminazione',
+  batch: 'Salvataggio in blocco',
+};
+
+// Other unique columns of a table, used when a new row clashes with one entered elsewhere
+const naturalKeys: Partial<Record<OutboxTable, string>> = {
+  player_stats: 'match_id,player_id',
+};
+
+const RETRY_INTERVAL_MS = 30 * 1000; // While online with pending writes, e.g. after a flaky connection
+
+const outboxStore = createStore('statistiche-calcio-outbox', 'outbox');
+const entriesKey = (userId: string) => `entries:${userId}`;
+
+let userId: string | null = null; // Whose outbox is loaded: writes are only sent with their session
+let entries: OutboxEntry[] = [];
+let inFlightId: string | null = null; // Entry being sent: later writes must not be merged into it
+let isReplaying = false;
+const listeners = new Set<() => void>();
+let loaded: Promise<void> = Promise.resolve();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Loads the outbox of the signed-in user, or empties the list when nobody is signed in
+export const setOutboxUser = (nextUserId: string | null) => {
+  if (nextUserId === userId) return loaded;
+  userId = nextUserId;
+  entries = [];
+  notify();
+  loaded = !nextUserId ? Promise.resolve() : get<OutboxEntry[]>(entriesKey(nextUserId), outboxStore)
+    .then((stored) => {
+      if (userId !== nextUserId) return; // Someone else signed in meanwhile
+      entries = stored || [];
+      notify();
+      replayOutbox(); // Writes left from the last visit
+    })
+    .catch(error => console.error('Error loading the offline outbox:', error));
+  return loaded;
+};
+
+// On logout: the writes still waiting are dropped, the next user of the device must not send them
+export const clearOutbox = async (ownerId: string) => {
+  if (ownerId === userId) {
+    entries = [];
+    notify();
+  }
+  try {
+    await del(entriesKey(ownerId), outboxStore);
+  } catch (error) {
+    console.error('Error clearing the offline outbox:', error);
+  }
+};
+
+const setEntries = async (next: OutboxEntry[]) => {
+  entries = next;
+  notify();
+  if (!userId) return;
+  try {
+    await set(entriesKey(userId), entries, outboxStore);
+  } catch (error) {
+    // Private browsing or a full disk: the writes are still kept until the page is closed
+    console.error('Error saving the offline outbox:', error);
+  }
+};
+
+export const getOutboxEntries = () => entries;
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const newRowId = () => crypto.randomUUID();
+
+// The edited columns of a row, as the base of an update or a delete
+export const pickColumns = <R extends object, K extends keyof R>(row: R, columns: K[]) => {
+  const picked: Partial<Pick<R, K>> = {};
+  columns.forEach((column) => {
+    picked[column] = row[column] ?? null;
+  });
+  return picked;
+};
+
+type WriteError = { code?: string; message?: string };
+
+// fetch() failed: supabase-js reports it as an error without a Postgres code
+const isNetworkError = (error: unknown) =>
+  !(error as WriteError).code && /fetch|network|load failed/i.test((error as WriteError).message ?? '');
+
+const errorMessage = (error: unknown) => (error as WriteError).message ?? String(error);
+
+// A second write on a row that is still waiting is folded into the first one,
+// so each row has at most one entry and its base stays the row last seen on the server.
+// Batches are queued as they are, to be sent as a unit.
+const addToOutbox = async (write: OutboxWrite) => {
+  await loaded;
+  const previous = entries.find(entry => entry.table === write.table && entry.rowId === write.rowId && entry.id !== inFlightId &&
+    entry.operation !== 'batch' && write.operation !== 'batch');
+  let next = entries;
+
+  if (previous) {
+    // Columns first seen now are compared too, with the values the first write saw kept for the others
+    const base = previous.operation === 'insert' ? null : { ...write.base, ...previous.base };
+    if (write.operation === 'delete' && previous.operation === 'insert') {
+      next = entries.filter(entry => entry !== previous); // Never reached the server
+    } else if (write.operation === 'delete') {
+      next = entries.map(entry => (entry === previous ? { ...entry, ...write, base } : entry));
+    } else {
+      next = entries.map(entry => (entry === previous ? { ...entry, label: write.label, values: { ...previous.values, ...write.values }, base } : entry));
+    }
+  } else {
+    next = [...entries, { ...write, id: newRowId(), createdAt: new Date().toISOString(), status: 'pending', error: null }];
+  }
+  await setEntries(next);
+};
+
+// Sends one write as it is, without looking at the server row first
+const sendWrite = async (write: OutboxWrite, force = false) => {
+  const { tables } = repositories;
+  if (write.operation === 'batch') {
+    // Every row with its id, so later writes on the rows find them; a row entered elsewhere for the same key is overwritten
+    const writes = write.writes ?? [];
+    const upserts = writes.filter(item => item.operation !== 'delete').map(item => ({ ...item.values, id: item.rowId }));
+    if (upserts.length > 0) {
+      await tables.upsert(write.table, upserts, naturalKeys[write.table] ?? 'id');
+    }
+    return tables.removeMany(write.table, writes.filter(item => item.operation === 'delete').map(item => item.rowId));
+  }
+  if (write.operation === 'insert') {
+    const naturalKey = naturalKeys[write.table];
+    if (force && naturalKey) {
+      // Overwrites the row entered elsewhere for the same key
+      return tables.upsert(write.table, [write.values ?? {}], naturalKey);
+    }
+    return tables.insert(write.table, { ...write.values, id: write.rowId });
+  }
+  if (write.operation === 'update') {
+    if (force) {
+      // Puts the row back if it was deleted in the meantime
+      return tables.upsert(write.table, [{ ...write.values, id: write.rowId }], 'id');
+    }
+    return tables.update(write.table, write.rowId, write.values ?? {});
+  }
+  return tables.remove(write.table, write.rowId);
+};
+
+// Writes straight away when online and nothing is waiting, otherwise queues the writes, in order:
+// once one is queued the ones after it are too. Returns whether any write was queued.
+// Errors other than a lost connection are thrown as usual.
+export const submitWrites = async (writes: OutboxWrite[]): Promise<{ queued: boolean }> => {
+  await loaded;
+  let sent = 0;
+  // Behind the writes already waiting, to keep the order
+  if (onlineManager.isOnline() && entries.length === 0) {
+    try {
+      for (const write of writes) {
+        await sendWrite(write);
+        sent++;
+      }
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+    }
+  }
+  for (const write of writes.slice(sent)) {
+    await addToOutbox(write);
+  }
+  return { queued: sent < writes.length };
+};
+
+export const submitWrite = <T extends OutboxTable>(write: OutboxWrite<T>) => submitWrites([write]);
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>) =>
+  setEntries(entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+const removeEntry = (id: string) => setEntries(entries.filter(entry => entry.id !== id));
+
+// Loose comparison: numeric columns may come back as strings, missing values as null
+const sameValue = (a: unknown, b: unknown) => (a ?? null) === (b ?? null) || String(a) === String(b);
+
+type ReplayResult = 'sent' | 'stopped' | 'offline';
+
+const replayEntry = async (entry: OutboxEntry): Promise<ReplayResult> => {
+  // Has the server row changed since it was edited on this device?
+  if (entry.operation !== 'insert' && entry.base) {
+    let data: OutboxValues | null;
+    try {
+      data = await repositories.tables.get(entry.table, entry.rowId);
+    } catch (error) {
+      if (isNetworkError(error)) return 'offline';
+      await updateEntry(entry.id, { status: 'failed', error: errorMessage(error) });
+      return 'stopped';
+    }
+    if (!data) {
+      if (entry.operation === 'delete') {
+        await removeEntry(entry.id); // Already deleted elsewhere
+        return 'sent';
+      }
+      await updateEntry(entry.id, { status: 'conflict', error: 'La riga è stata eliminata nel frattempo.' });
+      return 'stopped';
+    }
+    const base = entry.base;
+    const changed = Object.keys(base).filter(column => !sameValue(base[column], data[column]));
+    if (changed.length > 0) {
+      await updateEntry(entry.id, { status: 'conflict', error: `Modificata nel frattempo da un altro utente (${changed.join(', ')}).` });
+      return 'stopped';
+    }
+  }
+
+  try {
+    await sendWrite(entry);
+  } catch (error) {
+    if (isNetworkError(error)) return 'offline';
+    if ((error as WriteError).code === '23505' && entry.operation === 'insert') {
+      // The same row may have been sent before the connection dropped: then it is done
+      const existing = await repositories.tables.get(entry.table, entry.rowId).catch(() => null);
+      if (existing) {
+        await removeEntry(entry.id);
+        return 'sent';
+      }
+      await updateEntry(entry.id, { status: 'conflict', error: 'Esiste già una riga con gli stessi dati, inserita da un altro utente.' });
+      return 'stopped';
+    }
+    await updateEntry(entry.id, { status: 'failed', error: errorMessage(error) });
+    return 'stopped';
+  }
+  await removeEntry(entry.id);
+  return 'sent';
+};
+
+// Sends the waiting writes in order, stopping at the first conflict or error
+export const replayOutbox = async () => {
+  await loaded;
+  if (isReplaying || !onlineManager.isOnline()) return;
+  isReplaying = true;
+  const ownerId = userId;
+  try {
+    while (entries.length > 0 && entries[0].status === 'pending' && userId === ownerId) {
+      const entry = entries[0];
+      inFlightId = entry.id;
+      const result = await replayEntry(entry);
+      inFlightId = null;
+      if (result !== 'sent') break;
+    }
+  } finally {
+    inFlightId = null;
+    isReplaying = false;
+  }
+};
+
+// "Usa la mia versione": sends the stuck write over the server row, then carries on with the queue
+export const forceOutboxEntry = async (id: string) => {
+  const entry = entries.find(item => item.id === id);
+  if (!entry) return;
+  try {
+    await sendWrite(entry, true);
+  } catch (error) {
+    await updateEntry(id, { status: 'failed', error: errorMessage(error) });
+    throw error;
+  }
+  await removeEntry(id);
+  await replayOutbox();
+};
+
+// "Riprova": the entry goes back in the queue as it is
+export const retryOutboxEntry = async (id: string) => {
+  await updateEntry(id, { status: 'pending', error: null });
+  await replayOutbox();
+};
+
+// "Scarta": the local change is lost, the server row stays as it is
+export const discardOutboxEntry = async (id: string) => {
+  await removeEntry(id);
+  await replayOutbox();
+};
+
+// Replays when the connection returns, at start up and every little while; returns the cleanup
+export const startOutboxSync = () => {
+  const unsubscribe = onlineManager.subscribe((isOnline) => {
+    if (isOnline) replayOutbox();
+  });
+  const interval = window.setInterval(() => {
+    if (entries.length > 0) replayOutbox();
+  }, RETRY_INTERVAL_MS);
+  replayOutbox();
+  return () => {
+    unsubscribe();
+    window.clearInterval(interval);
+  };
+};
+
+export interface PendingRow<T> {
+  row: T;
+  pending: OutboxEntry | null; // The write still waiting for this row, if any
+}
+
+const isTableEntry = <T extends OutboxTable>(entry: OutboxEntry, table: T): entry is OutboxEntry<T> => entry.table === table;
+
+// Rows as they will be once the outbox is sent: new rows first, then the list with waiting edits applied.
+// buildRow turns the written columns into a displayable row (teams, players and matches resolved),
+// on top of the server row for an update or from scratch for an insert.
+export const withPendingWrites = <T extends { id: string }, Table extends OutboxTable>(
+  rows: T[],
+  outboxEntries: OutboxEntry[],
+  table: Table,
+  buildRow: (values: OutboxValues<Table>, row: T | null) => T,
+): PendingRow<T>[] => {
+  // The writes of a batch count as writes of their rows; a row written again after a batch adds up its writes
+  const byRowId = new Map<string, OutboxEntry<Table>>();
+  outboxEntries
+    .filter((entry): entry is OutboxEntry<Table> => isTableEntry(entry, table))
+    .flatMap(entry => (entry.operation === 'batch' ? (entry.writes ?? []).map(write => ({ ...entry, ...write })) : [entry]))
+    .forEach((entry) => {
+      const previous = byRowId.get(entry.rowId);
+      byRowId.set(entry.rowId, !previous || entry.operation === 'delete' ? entry : {
+        ...entry,
+        operation: previous.operation === 'insert' ? 'insert' : entry.operation,
+        values: { ...previous.values, ...entry.values },
+      });
+    });
+  const inserted = [...byRowId.values()]
+    .filter(entry => entry.operation === 'insert')
+    .reverse() // Newest first, as the lists
+    .map(entry => ({ row: buildRow({ ...entry.values, id: entry.rowId }, null), pending: entry }));
+
+  return [
+    ...inserted,
+    ...rows.map((row) => {
+      const pending = byRowId.get(row.id) ?? null;
+      return {
+        row: pending?.operation === 'update' ? buildRow(pending.values, row) : row,
+        pending,
+      };
+    }),
+  ];
+};
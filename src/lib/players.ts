@@ -0,0 +1,67 @@
+import type { Tables } from '@/types/database';
+import type { MatchWithTeams } from '@/types/match';
+import type { Player, PlayerPosition, PreferredFoot } from '@/types/player';
+import type { PlayerStat } from '@/types/playerStat';
+import type { OutboxValues } from './outbox';
+import { MATCH_WITH_TEAMS_SELECT } from './matches';
+
+// Select for player_stats with the roster player and the match (and its teams) resolved
+export const PLAYER_STAT_SELECT = `*, player:players(id, name, shirt_number), match:matches(${MATCH_WITH_TEAMS_SELECT})` as const;
+
+// Same as PLAYER_STAT_SELECT, but only rows with a match, so they can be filtered on match.match_date
+export const PLAYER_STAT_WITH_MATCH_SELECT = `*, player:players(id, name, shirt_number), match:matches!inner(${MATCH_WITH_TEAMS_SELECT})` as const;
+
+export const positionLabels: Record<PlayerPosition, string> = {
+  goalkeeper: 'Portiere',
+  defender: 'Difensore',
+  midfielder: 'Centrocampista',
+  forward: 'Attaccante',
+};
+
+export const footLabels: Record<PreferredFoot, string> = {
+  right: 'Destro',
+  left: 'Sinistro',
+  both: 'Ambidestro',
+};
+
+// "10 · Mario Rossi", or just the name when the player has no shirt number
+export const formatPlayerName = (player: Pick<Player, 'name' | 'shirt_number'>) =>
+  player.shirt_number != null ? `${player.shirt_number} · ${player.name}` : player.name;
+
+// Penalties are tracked apart from the foot/header split, so they are added back here
+export const getTotalGoals = (stat: Pick<PlayerStat, 'right_foot_goals' | 'left_foot_goals' | 'header_goals' | 'penalties'>) =>
+  stat.right_foot_goals + stat.left_foot_goals + stat.header_goals + stat.penalties;
+
+// Columns the forms leave out, for showing a row that is still waiting to be inserted
+const emptyPlayerStat: Tables<'player_stats'> = {
+  id: '',
+  created_at: '',
+  player_id: null,
+  match_id: null,
+  player_name: null,
+  match_details: null,
+  right_foot_goals: 0,
+  left_foot_goals: 0,
+  header_goals: 0,
+  penalties: 0,
+  assists: 0,
+  yellow_cards: 0,
+  red_cards: 0,
+  notes: null,
+};
+
+// A stat row as it will be once the offline outbox is sent (see withPendingWrites), player and match resolved
+export const buildPendingPlayerStat = (
+  values: OutboxValues<'player_stats'>,
+  row: PlayerStat | null,
+  players: Player[] = [],
+  matches: MatchWithTeams[] = [],
+): PlayerStat => {
+  const stat: Tables<'player_stats'> = { ...(row ?? emptyPlayerStat), ...values };
+  const player = players.find(item => item.id === stat.player_id);
+  return {
+    ...stat,
+    player: player ? { id: player.id, name: player.name, shirt_number: player.shirt_number } : null,
+    match: matches.find(match => match.id === stat.match_id) ?? null,
+  };
+};
@@ -0,0 +1,182 @@
+import type { Competition } from '@/types/competition';
+import type { Tables } from '@/types/database';
+import type { Match } from '@/types/match';
+import type { GoalType } from '@/types/matchEvent';
+import type { Player, PlayerPosition, PreferredFoot } from '@/types/player';
+import type { Season } from '@/types/season';
+import type { Team } from '@/types/team';
+import type { MemoryData } from './memory';
+
+// A small made-up club for the in-memory backend: two seasons, a few opponents, a roster and
+// some matches with their stats, enough for every page to show something on a first start.
+// supabase/seed.sql holds the same club, for a local Supabase backend.
+
+// Fixed ids in uuid format, so a demo backup can also be restored into Supabase
+const demoId = (block: number, n: number) =>
+  `00000000-0000-4000-8000-${String(block).padStart(4, '0')}${String(n).padStart(8, '0')}`;
+
+const seasons: Season[] = [
+  { id: demoId(1, 1), name: '2024/25', start_date: '2024-08-01', end_date: '2025-06-30', is_archived: true },
+  { id: demoId(1, 2), name: '2025/26', start_date: '2025-08-01', end_date: '2026-06-30', is_archived: false },
+];
+
+const teamIds = {
+  leon: demoId(2, 1),
+  brianza: demoId(2, 2),
+  navigli: demoId(2, 3),
+  lambro: demoId(2, 4),
+  martesana: demoId(2, 5),
+  ticino: demoId(2, 6),
+};
+
+const teams: Team[] = [
+  { id: teamIds.leon, name: '14 Leon', short_name: 'LEON', primary_color: '#1e40af', secondary_color: '#ffffff', logo_url: null, is_own_club: true },
+  { id: teamIds.brianza, name: 'Atletico Brianza', short_name: 'BRI', primary_color: '#b91c1c', secondary_color: '#ffffff', logo_url: null, is_own_club: false },
+  { id: teamIds.navigli, name: 'Real Navigli', short_name: 'NAV', primary_color: '#0f766e', secondary_color: null, logo_url: null, is_own_club: false },
+  { id: teamIds.lambro, name: 'Sporting Lambro', short_name: 'LAM', primary_color: '#15803d', secondary_color: '#facc15', logo_url: null, is_own_club: false },
+  { id: teamIds.martesana, name: 'Virtus Martesana', short_name: 'MAR', primary_color: '#000000', secondary_color: '#ffffff', logo_url: null, is_own_club: false },
+  { id: teamIds.ticino, name: 'Polisportiva Ticino', short_name: 'TIC', primary_color: '#7c3aed', secondary_color: null, logo_url: null, is_own_club: false },
+];
+
+const competitionIds = {
+  league2425: demoId(3, 1),
+  league: demoId(3, 2),
+  cup: demoId(3, 3),
+  friendlies: demoId(3, 4),
+};
+
+const standardRules: Pick<Competition, 'points_per_win' | 'points_per_draw' | 'points_per_loss' | 'tie_breakers'> = {
+  points_per_win: 3,
+  points_per_draw: 1,
+  points_per_loss: 0,
+  tie_breakers: ['head_to_head', 'goal_difference', 'goals_for'],
+};
+
+const competitions: Competition[] = [
+  { id: competitionIds.league2425, name: 'Campionato 2024/25', type: 'league', season_id: seasons[0].id, ...standardRules, counts_for_stats: true },
+  { id: competitionIds.league, name: 'Campionato 2025/26', type: 'league', season_id: seasons[1].id, ...standardRules, counts_for_stats: true },
+  { id: competitionIds.cup, name: 'Coppa di Lega', type: 'cup', season_id: seasons[1].id, ...standardRules, counts_for_stats: true },
+  { id: competitionIds.friendlies, name: 'Amichevoli', type: 'friendly', season_id: seasons[1].id, ...standardRules, counts_for_stats: false },
+];
+
+// Shirt number, name, position, preferred foot, birth date
+const roster: [number, string, PlayerPosition, PreferredFoot, string][] = [
+  [1, 'Marco Rossi', 'goalkeeper', 'right', '1992-03-14'],
+  [2, 'Luca Bianchi', 'defender', 'right', '1994-07-02'],
+  [3, 'Andrea Colombo', 'defender', 'left', '1990-11-21'],
+  [4, 'Davide Ferrari', 'defender', 'right', '1996-01-09'],
+  [5, 'Matteo Ricci', 'defender', 'right', '1993-05-30'],
+  [6, 'Simone Romano', 'midfielder', 'right', '1995-09-18'],
+  [7, 'Federico Greco', 'midfielder', 'left', '1997-04-12'],
+  [8, 'Alessandro Conti', 'midfielder', 'both', '1991-12-03'],
+  [9, 'Stefano Marino', 'forward', 'right', '1994-02-25'],
+  [10, 'Paolo Gallo', 'forward', 'left', '1993-08-07'],
+  [11, 'Giorgio Costa', 'forward', 'right', '1998-06-16'],
+  [12, 'Nicola Fontana', 'goalkeeper', 'right', '1999-10-28'],
+];
+
+const playerId = (shirtNumber: number) => demoId(4, shirtNumber);
+
+const players = roster.map(([shirtNumber, name, position, preferredFoot, birthDate]): Player => ({
+  id: playerId(shirtNumber),
+  name,
+  shirt_number: shirtNumber,
+  position,
+  preferred_foot: preferredFoot,
+  birth_date: birthDate,
+  is_active: shirtNumber !== 12, // One player left the club, to show inactive players
+}));
+
+interface DemoMatch {
+  date: string;
+  competition: keyof typeof competitionIds;
+  home: keyof typeof teamIds;
+  away: keyof typeof teamIds;
+  score: [number, number];
+  goals?: [number, GoalType][]; // Our scorers by shirt number
+  assists?: number[];
+  yellowCards?: number[];
+  redCards?: number[];
+  notes?: string;
+}
+
+const demoMatches: DemoMatch[] = [
+  { date: '2024-09-21T15:00:00', competition: 'league2425', home: 'leon', away: 'lambro', score: [2, 0], goals: [[9, 'right_foot'], [10, 'left_foot']], assists: [7, 8] },
+  { date: '2024-11-16T15:00:00', competition: 'league2425', home: 'martesana', away: 'leon', score: [1, 1], goals: [[9, 'header']], assists: [3], yellowCards: [5] },
+  { date: '2025-03-08T15:00:00', competition: 'league2425', home: 'leon', away: 'brianza', score: [3, 2], goals: [[10, 'penalty'], [11, 'right_foot'], [9, 'right_foot']], assists: [8, 10], yellowCards: [4, 6] },
+  { date: '2025-08-30T10:30:00', competition: 'friendlies', home: 'leon', away: 'ticino', score: [4, 1], goals: [[9, 'right_foot'], [9, 'header'], [11, 'right_foot'], [7, 'left_foot']], assists: [10, 8] },
+  { date: '2025-09-13T15:00:00', competition: 'league', home: 'leon', away: 'brianza', score: [2, 1], goals: [[9, 'right_foot'], [10, 'left_foot']], assists: [7], yellowCards: [4] },
+  { date: '2025-09-20T15:00:00', competition: 'league', home: 'navigli', away: 'leon', score: [1, 1], goals: [[8, 'right_foot']], assists: [9], yellowCards: [2, 6] },
+  { date: '2025-09-20T17:00:00', competition: 'league', home: 'brianza', away: 'lambro', score: [1, 1] },
+  { date: '2025-09-27T15:00:00', competition: 'league', home: 'leon', away: 'lambro', score: [3, 0], goals: [[9, 'penalty'], [11, 'header'], [10, 'right_foot']], assists: [3, 7], notes: 'Prima porta inviolata della stagione.' },
+  { date: '2025-09-27T17:00:00', competition: 'league', home: 'navigli', away: 'martesana', score: [2, 1] },
+  { date: '2025-10-04T15:00:00', competition: 'league', home: 'martesana', away: 'leon', score: [2, 0], yellowCards: [5], redCards: [4] },
+  { date: '2025-10-15T20:30:00', competition: 'cup', home: 'leon', away: 'navigli', score: [2, 2], goals: [[10, 'left_foot'], [6, 'right_foot']], assists: [9] },
+  { date: '2025-10-18T15:00:00', competition: 'league', home: 'leon', away: 'ticino', score: [1, 0], goals: [[9, 'right_foot']], assists: [10], yellowCards: [8] },
+  { date: '2025-10-25T15:00:00', competition: 'league', home: 'brianza', away: 'leon', score: [0, 3], goals: [[11, 'right_foot'], [9, 'left_foot'], [10, 'penalty']], assists: [7, 8] },
+];
+
+const matches = demoMatches.map((match, index): Match => ({
+  id: demoId(5, index + 1),
+  match_date: match.date,
+  home_team_id: teamIds[match.home],
+  away_team_id: teamIds[match.away],
+  competition_id: competitionIds[match.competition],
+  competition: null,
+  home_goals: match.score[0],
+  away_goals: match.score[1],
+  notes: match.notes ?? '',
+}));
+
+type StatCounter = 'right_foot_goals' | 'left_foot_goals' | 'header_goals' | 'penalties' | 'assists' | 'yellow_cards' | 'red_cards';
+
+const goalColumns: Record<GoalType, StatCounter> = {
+  right_foot: 'right_foot_goals',
+  left_foot: 'left_foot_goals',
+  header: 'header_goals',
+  penalty: 'penalties',
+};
+
+// One stat row per player involved in each of our matches
+const playerStats = demoMatches.flatMap((match, index) => {
+  const rows = new Map<number, Omit<Tables<'player_stats'>, 'id'>>();
+  const rowFor = (shirtNumber: number) => {
+    if (!rows.has(shirtNumber)) {
+      rows.set(shirtNumber, {
+        created_at: match.date,
+        player_id: playerId(shirtNumber),
+        match_id: matches[index].id,
+        right_foot_goals: 0,
+        left_foot_goals: 0,
+        header_goals: 0,
+        penalties: 0,
+        assists: 0,
+        yellow_cards: 0,
+        red_cards: 0,
+        notes: '',
+        player_name: null,
+        match_details: null,
+      });
+    }
+    return rows.get(shirtNumber)!;
+  };
+  const add = (shirtNumber: number, column: StatCounter) => {
+    rowFor(shirtNumber)[column] += 1;
+  };
+
+  match.goals?.forEach(([shirtNumber, goalType]) => add(shirtNumber, goalColumns[goalType]));
+  match.assists?.forEach(shirtNumber => add(shirtNumber, 'assists'));
+  match.yellowCards?.forEach(shirtNumber => add(shirtNumber, 'yellow_cards'));
+  match.redCards?.forEach(shirtNumber => add(shirtNumber, 'red_cards'));
+  return [...rows.values()];
+}).map((row, index): Tables<'player_stats'> => ({ id: demoId(6, index + 1), ...row }));
+
+export const demoData: MemoryData = {
+  seasons,
+  teams,
+  competitions,
+  players,
+  matches,
+  player_stats: playerStats,
+  match_events: [],
+};
@@ -0,0 +1,10 @@
+import { createMemoryRepositories } from './memory';
+import { createSupabaseRepositories } from './supabase';
+
+export * from './types';
+export { DEMO_DOMAIN, DEMO_PASSWORD } from './memory';
+
+// VITE_DATA_BACKEND=memory runs the app on the in-memory demo data, without a Supabase project
+export const isDemoBackend = import.meta.env.VITE_DATA_BACKEND === 'memory';
+
+export const repositories = isDemoBackend ? createMemoryRepositories() : createSupabaseRepositories();
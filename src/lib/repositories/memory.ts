@@ -0,0 +1,586 @@
+import type { Session } from '@supabase/supabase-js';
+import { countsForStats, getCompetitionName, getOwnClubResult } from '@/lib/matches';
+import { derivePlayerStats, deriveScore } from '@/lib/matchEvents';
+import { sanitizeSearch } from '@/lib/matchList';
+import { defaultStandingsRules } from '@/lib/standings';
+import { dayAfter, findSeasonForDate } from '@/lib/seasons';
+import type { UserRole } from '@/lib/roles';
+import type { Competition } from '@/types/competition';
+import type { Tables } from '@/types/database';
+import type { Match, MatchWithTeams } from '@/types/match';
+import type { MatchEvent } from '@/types/matchEvent';
+import type { Player } from '@/types/player';
+import type { PlayerGoals, PlayerStat, PlayerTotalStats } from '@/types/playerStat';
+import { demoData } from './demoData';
+import { DateRange, Repositories, RepositoryError, TableName } from './types';
+
+// In-memory backend, for demos and tests: the tables live in a plain object saved to localStorage,
+// with the constraints of the database schema the pages rely on (foreign keys, unique keys)
+
+// Rows of every table, as the database returns them
+interface MemoryRows {
+  seasons: Tables<'seasons'>;
+  teams: Tables<'teams'>;
+  competitions: Tables<'competitions'>;
+  players: Tables<'players'>;
+  matches: Tables<'matches'>;
+  player_stats: Tables<'player_stats'>;
+  match_events: Tables<'match_events'>;
+}
+
+export type MemoryData = { [T in TableName]: MemoryRows[T][] };
+
+export interface MemoryOptions {
+  storage?: Storage | null; // Where data and session are kept across reloads, null to keep nothing (tests)
+  seed?: MemoryData; // Data of the first start, the demo club by default
+}
+
+const DATA_KEY = 'statistiche-calcio-demo-data';
+const SESSION_KEY = 'statistiche-calcio-demo-session';
+
+const tableNames: TableName[] = ['seasons', 'teams', 'competitions', 'players', 'matches', 'player_stats', 'match_events'];
+
+// Values of the columns left out of an insert, as the table defaults
+const columnDefaults: { [T in TableName]: Partial<MemoryRows[T]> } = {
+  seasons: { is_archived: false },
+  teams: { is_own_club: false },
+  competitions: {
+    type: 'league',
+    season_id: null,
+    points_per_win: defaultStandingsRules.pointsPerWin,
+    points_per_draw: defaultStandingsRules.pointsPerDraw,
+    points_per_loss: defaultStandingsRules.pointsPerLoss,
+    tie_breakers: defaultStandingsRules.tieBreakers,
+    counts_for_stats: true,
+  },
+  players: { is_active: true },
+  matches: { competition_id: null, home_goals: 0, away_goals: 0 },
+  player_stats: {
+    player_id: null,
+    match_id: null,
+    right_foot_goals: 0,
+    left_foot_goals: 0,
+    header_goals: 0,
+    penalties: 0,
+    assists: 0,
+    yellow_cards: 0,
+    red_cards: 0,
+  },
+  match_events: { added_minute: null, period: null, player_id: null, related_player_id: null, goal_type: null },
+};
+
+const timestampedTables: TableName[] = ['player_stats', 'match_events'];
+
+// Counters of a stat row that the events of a match rewrite
+const statCounters = ['right_foot_goals', 'left_foot_goals', 'header_goals', 'penalties', 'assists', 'yellow_cards', 'red_cards'] as const;
+
+interface ForeignKey {
+  table: TableName;
+  column: string;
+  references: TableName;
+  onDelete: 'restrict' | 'cascade' | 'set null';
+}
+
+const foreignKeys: ForeignKey[] = [
+  { table: 'competitions', column: 'season_id', references: 'seasons', onDelete: 'set null' },
+  { table: 'matches', column: 'home_team_id', references: 'teams', onDelete: 'restrict' },
+  { table: 'matches', column: 'away_team_id', references: 'teams', onDelete: 'restrict' },
+  { table: 'matches', column: 'competition_id', references: 'competitions', onDelete: 'restrict' },
+  { table: 'player_stats', column: 'match_id', references: 'matches', onDelete: 'cascade' },
+  { table: 'player_stats', column: 'player_id', references: 'players', onDelete: 'restrict' },
+  { table: 'match_events', column: 'match_id', references: 'matches', onDelete: 'cascade' },
+  { table: 'match_events', column: 'team_id', references: 'teams', onDelete: 'restrict' },
+  { table: 'match_events', column: 'player_id', references: 'players', onDelete: 'restrict' },
+  { table: 'match_events', column: 'related_player_id', references: 'players', onDelete: 'restrict' },
+];
+
+// Unique columns besides the id. Rows with a null in them never clash, as in Postgres.
+const uniqueKeys: Partial<Record<TableName, string[]>> = {
+  player_stats: ['match_id', 'player_id'],
+};
+
+const fail = (message: string, code: string): never => {
+  throw new RepositoryError(message, code);
+};
+
+// Callers get copies, so they can't change the tables behind the repository's back
+const copy = <T>(value: T): T => structuredClone(value);
+
+// Stored rows respect the check constraints of the schema, so their text columns narrow as in the app types
+const asCompetition = (row: Tables<'competitions'> | null) => row as Competition | null;
+const asPlayer = (row: Tables<'players'>) => row as Player;
+const asMatchEvent = (row: Tables<'match_events'>) => row as MatchEvent;
+
+// Match of an event row, whose changes the match_events trigger syncs
+const eventMatchId = (row: MemoryRows[TableName]) => ('event_type' in row ? row.match_id : null);
+
+// Case and spacing aside, as the SQL of the legacy name matching
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const inRange = (date: string, range?: DateRange | null) => !range || (date >= range.from && date < range.to);
+
+const loadData = (storage: Storage | null, seed: MemoryData): MemoryData => {
+  try {
+    const stored = storage?.getItem(DATA_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<MemoryData>;
+      return Object.fromEntries(tableNames.map(table => [table, parsed[table] ?? []])) as MemoryData;
+    }
+  } catch (error) {
+    console.error('Error loading the demo data, starting over:', error);
+  }
+  return copy(seed);
+};
+
+// Demo accounts, one per role: <role>@demo.it, all with the password below (shown on the login page)
+const demoRoles: UserRole[] = ['admin', 'coach', 'viewer'];
+export const DEMO_DOMAIN = 'demo.it';
+export const DEMO_PASSWORD = 'demo';
+
+const createDemoSession = (email: string, password: string): Session => {
+  const [localPart, domain] = email.trim().toLowerCase().split('@');
+  const role = demoRoles.find(item => item === localPart);
+  if (!role || domain !== DEMO_DOMAIN || password !== DEMO_PASSWORD) {
+    fail('Invalid login credentials', 'invalid_credentials');
+  }
+  const expiresIn = 365 * 24 * 60 * 60;
+  return {
+    access_token: 'demo',
+    refresh_token: 'demo',
+    token_type: 'bearer',
+    expires_in: expiresIn,
+    expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+    user: {
+      id: `demo-${role}`,
+      email,
+      aud: 'authenticated',
+      role: 'authenticated',
+      app_metadata: { role },
+      user_metadata: {},
+      created_at: new Date().toISOString(),
+    },
+  };
+};
+
+export const createMemoryRepositories = ({
+  storage = typeof localStorage === 'undefined' ? null : localStorage,
+  seed = demoData,
+}: MemoryOptions = {}): Repositories => {
+  let data = loadData(storage, seed);
+
+  const save = () => {
+    try {
+      storage?.setItem(DATA_KEY, JSON.stringify(data));
+    } catch (error) {
+      // Full storage: the changes are still kept until the page is closed
+      console.error('Error saving the demo data:', error);
+    }
+  };
+
+  // Applies a change to a copy of the tables, kept only when no constraint failed along the way
+  const write = <T>(change: (draft: MemoryData) => T): T => {
+    const draft = copy(data);
+    const result = change(draft);
+    data = draft;
+    save();
+    return result;
+  };
+
+  const findRow = <T extends TableName>(tables: MemoryData, table: T, id: unknown): MemoryRows[T] | null =>
+    tables[table].find(item => item.id === id) ?? null;
+
+  const checkRow = <T extends TableName>(draft: MemoryData, table: T, values: MemoryRows[T]) => {
+    foreignKeys
+      .filter(key => key.table === table && values[key.column] != null)
+      .forEach((key) => {
+        if (!findRow(draft, key.references, values[key.column])) {
+          fail(`insert or update on table "${table}" violates foreign key constraint on "${key.column}"`, '23503');
+        }
+      });
+    const unique = uniqueKeys[table];
+    if (unique && unique.every(column => values[column] != null)) {
+      const clash = draft[table].some(other => other.id !== values.id && unique.every(column => other[column] === values[column]));
+      if (clash) {
+        fail(`duplicate key value violates unique constraint on "${table}" (${unique.join(', ')})`, '23505');
+      }
+    }
+  };
+
+  // As the archived seasons trigger of the database (reject_archived_season_writes): matches of an
+  // archived season, with their stats and events, are read-only
+  const checkSeasonOpen = (draft: MemoryData, row: MemoryRows[TableName]) => {
+    const match = 'match_date' in row ? row : 'match_id' in row ? findRow(draft, 'matches', row.match_id) : null;
+    const season = match && findSeasonForDate(draft.seasons, match.match_date);
+    if (season?.is_archived) {
+      fail(`La partita appartiene alla stagione archiviata ${season.name}: riaprila per modificarla.`, '23514');
+    }
+  };
+
+  const insertRow = <T extends TableName>(draft: MemoryData, table: T, values: Partial<MemoryRows[T]>) => {
+    const inserted = {
+      ...columnDefaults[table],
+      ...(timestampedTables.includes(table) ? { created_at: new Date().toISOString() } : {}),
+      ...values,
+      id: values.id ?? crypto.randomUUID(),
+    } as MemoryRows[T];
+    if (findRow(draft, table, inserted.id)) {
+      fail(`duplicate key value violates unique constraint "${table}_pkey"`, '23505');
+    }
+    checkRow(draft, table, inserted);
+    checkSeasonOpen(draft, inserted);
+    draft[table].push(inserted);
+    if (table === 'match_events') syncMatchFromEvents(draft, eventMatchId(inserted));
+    return inserted;
+  };
+
+  // An update of a missing row changes nothing, as an UPDATE matching no row
+  const updateRow = <T extends TableName>(draft: MemoryData, table: T, id: string, values: Partial<MemoryRows[T]>) => {
+    const index = draft[table].findIndex(item => item.id === id);
+    if (index === -1) return;
+    const updated: MemoryRows[T] = { ...draft[table][index], ...values, id };
+    const previous = draft[table][index];
+    checkRow(draft, table, updated);
+    checkSeasonOpen(draft, previous);
+    checkSeasonOpen(draft, updated);
+    draft[table][index] = updated;
+    if (table === 'match_events') {
+      syncMatchFromEvents(draft, eventMatchId(previous));
+      if (eventMatchId(updated) !== eventMatchId(previous)) syncMatchFromEvents(draft, eventMatchId(updated));
+    }
+  };
+
+  const deleteRow = <T extends TableName>(draft: MemoryData, table: T, id: string) => {
+    const deleted = findRow(draft, table, id);
+    if (!deleted) return;
+    checkSeasonOpen(draft, deleted);
+    draft[table].splice(draft[table].indexOf(deleted), 1);
+    if (table === 'match_events') syncMatchFromEvents(draft, eventMatchId(deleted));
+    foreignKeys
+      .filter(key => key.references === table)
+      .forEach((key) => {
+        draft[key.table]
+          .filter(item => item[key.column] === id)
+          .forEach((child) => {
+            if (key.onDelete === 'restrict') {
+              fail(`update or delete on table "${table}" violates foreign key constraint on table "${key.table}"`, '23503');
+            } else if (key.onDelete === 'cascade') {
+              deleteRow(draft, key.table, child.id);
+            } else {
+              child[key.column] = null;
+            }
+          });
+      });
+  };
+
+  // As the match_events trigger of the database (sync_match_from_events): the score and the stat
+  // counters of the match are rewritten from its events, notes and rows without a player kept
+  const syncMatchFromEvents = (draft: MemoryData, matchId: unknown) => {
+    const match = findRow(draft, 'matches', matchId);
+    if (!match) return; // Deleted together with its events
+    const events = draft.match_events.filter(event => event.match_id === matchId).map(asMatchEvent);
+    Object.assign(match, deriveScore(events, match));
+
+    const derived = new Map(derivePlayerStats(events).map(({ player_id, ...counters }) => [player_id, counters]));
+    draft.player_stats
+      .filter(stat => stat.match_id === matchId && stat.player_id != null)
+      .forEach((stat) => {
+        Object.assign(stat, statCounters.reduce((zero, column) => ({ ...zero, [column]: 0 }), {}), derived.get(String(stat.player_id)));
+        derived.delete(String(stat.player_id));
+      });
+    derived.forEach((counters, playerId) => insertRow(draft, 'player_stats', { ...counters, match_id: match.id, player_id: playerId }));
+    draft.player_stats = draft.player_stats.filter(stat => stat.match_id !== matchId || stat.player_id == null ||
+      statCounters.some(column => stat[column] !== 0) || !!String(stat.notes ?? '').trim());
+  };
+
+  const upsertRow = <T extends TableName>(draft: MemoryData, table: T, values: Partial<MemoryRows[T]>, onConflict: string) => {
+    const columns = onConflict.split(',');
+    const existing = draft[table].find(item => columns.every(column => values[column] != null && item[column] === values[column]));
+    if (existing) {
+      updateRow(draft, table, existing.id, values);
+    } else {
+      insertRow(draft, table, values);
+    }
+  };
+
+  const resolveMatch = (match: Match): MatchWithTeams => ({
+    ...match,
+    home_team: findRow(data, 'teams', match.home_team_id),
+    away_team: findRow(data, 'teams', match.away_team_id),
+    competition_info: asCompetition(findRow(data, 'competitions', match.competition_id)),
+  });
+
+  const resolveStat = (stat: Tables<'player_stats'>): PlayerStat => {
+    const player = findRow(data, 'players', stat.player_id);
+    const match = findRow(data, 'matches', stat.match_id);
+    return {
+      ...stat,
+      player: player && { id: player.id, name: player.name, shirt_number: player.shirt_number },
+      match: match && resolveMatch(match),
+    };
+  };
+
+  const byMatchDateDesc = (a: Match, b: Match) => b.match_date.localeCompare(a.match_date);
+
+  // Columns the match_list view adds to a match, for filtering, sorting and search
+  const toListRow = (match: MatchWithTeams) => {
+    const isHome = match.home_team?.is_own_club ? true : match.away_team?.is_own_club ? false : null;
+    return {
+      match,
+      home_team_name: match.home_team?.name ?? null,
+      away_team_name: match.away_team?.name ?? null,
+      competition_name: getCompetitionName(match) || null,
+      is_home: isHome,
+      opponent_id: isHome === null ? null : isHome ? match.away_team_id : match.home_team_id,
+      result: getOwnClubResult(match)?.outcome ?? null,
+      search_text: [match.home_team?.name, match.away_team?.name, getCompetitionName(match), match.notes]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase(),
+    };
+  };
+
+  let session: Session | null = null;
+  try {
+    const stored = storage?.getItem(SESSION_KEY);
+    session = stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error restoring the demo session:', error);
+  }
+  const authListeners = new Set<Parameters<Repositories['auth']['onChange']>[0]>();
+
+  return {
+    auth: {
+      getSession: async () => session,
+      onChange: (listener) => {
+        authListeners.add(listener);
+        return () => {
+          authListeners.delete(listener);
+        };
+      },
+      signIn: async (email, password) => {
+        session = createDemoSession(email, password);
+        storage?.setItem(SESSION_KEY, JSON.stringify(session));
+        authListeners.forEach(listener => listener('SIGNED_IN', session));
+      },
+      signOut: async () => {
+        session = null;
+        storage?.removeItem(SESSION_KEY);
+        authListeners.forEach(listener => listener('SIGNED_OUT', null));
+      },
+    },
+
+    seasons: {
+      list: async () => copy(data.seasons).sort((a, b) => b.start_date.localeCompare(a.start_date)),
+      create: async values => copy(write(draft => insertRow(draft, 'seasons', values))),
+      update: async (id, values) => write(draft => updateRow(draft, 'seasons', id, values)),
+      remove: async id => write(draft => deleteRow(draft, 'seasons', id)),
+    },
+
+    teams: {
+      list: async () => copy(data.teams).sort((a, b) => a.name.localeCompare(b.name)),
+      create: async (values) => {
+        write(draft => insertRow(draft, 'teams', values));
+      },
+      update: async (id, values) => write(draft => updateRow(draft, 'teams', id, values)),
+      remove: async id => write(draft => deleteRow(draft, 'teams', id)),
+    },
+
+    competitions: {
+      list: async seasonId => copy(data.competitions)
+        .filter(item => !seasonId || item.season_id === seasonId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(asCompetition),
+      create: async (values) => {
+        write(draft => insertRow(draft, 'competitions', values));
+      },
+      update: async (id, values) => write(draft => updateRow(draft, 'competitions', id, values)),
+      remove: async id => write(draft => deleteRow(draft, 'competitions', id)),
+    },
+
+    players: {
+      // By shirt number with the players without one last, then by name
+      list: async () => copy(data.players).sort((a, b) => {
+        if (a.shirt_number !== b.shirt_number) {
+          if (a.shirt_number == null) return 1;
+          if (b.shirt_number == null) return -1;
+          return a.shirt_number - b.shirt_number;
+        }
+        return a.name.localeCompare(b.name);
+      }).map(asPlayer),
+      get: async id => asPlayer(copy(findRow(data, 'players', id) ?? fail('Calciatore non trovato', 'PGRST116'))),
+      create: async values => asPlayer(copy(write(draft => insertRow(draft, 'players', values)))),
+      update: async (id, values) => write(draft => updateRow(draft, 'players', id, values)),
+      remove: async id => write(draft => deleteRow(draft, 'players', id)),
+    },
+
+    matches: {
+      list: async ({ range, limit } = {}) => {
+        const matches = data.matches
+          .filter(match => inRange(match.match_date, range))
+          .sort(byMatchDateDesc)
+          .map(resolveMatch);
+        return copy(limit ? matches.slice(0, limit) : matches);
+      },
+      get: async id => copy(resolveMatch(findRow(data, 'matches', id) ?? fail('Partita non trovata', 'PGRST116'))),
+      search: async (params, range, page) => {
+        const search = sanitizeSearch(params.q).toLowerCase();
+        const listRows = data.matches
+          .filter(match => inRange(match.match_date, range))
+          .map(match => toListRow(resolveMatch(match)))
+          .filter(item =>
+            (!params.from || item.match.match_date >= params.from) &&
+            (!params.to || item.match.match_date < dayAfter(params.to)) &&
+            (!params.opponent || item.opponent_id === params.opponent) &&
+            (!params.competition || item.match.competition_id === params.competition) &&
+            (!params.result || item.result === params.result) &&
+            (!params.venue || item.is_home === (params.venue === 'home')) &&
+            (!search || item.search_text.includes(search)))
+          .sort((a, b) => {
+            const valueA = params.sort === 'match_date' ? a.match.match_date : a[params.sort];
+            const valueB = params.sort === 'match_date' ? b.match.match_date : b[params.sort];
+            if (valueA !== valueB) {
+              // Nulls last in both directions
+              if (valueA == null) return 1;
+              if (valueB == null) return -1;
+              const order = valueA.localeCompare(valueB);
+              if (order !== 0) return params.dir === 'asc' ? order : -order;
+            }
+            return a.match.id < b.match.id ? -1 : a.match.id > b.match.id ? 1 : 0; // Stable order between pages
+          });
+        const pageRows = page ? listRows.slice(page.offset, page.offset + page.limit) : listRows;
+        return { matches: copy(pageRows.map(item => item.match)), count: listRows.length };
+      },
+      create: async (rows) => {
+        write(draft => rows.forEach(values => insertRow(draft, 'matches', values)));
+      },
+      update: async (id, values) => write(draft => updateRow(draft, 'matches', id, values)),
+      remove: async id => write(draft => deleteRow(draft, 'matches', id)),
+    },
+
+    playerStats: {
+      list: async (range) => {
+        const stats = data.player_stats
+          .map(resolveStat)
+          // Rows not linked to a match have no date, so they are left out of any range
+          .filter(stat => !range || (stat.match && inRange(stat.match.match_date, range)))
+          .sort((a, b) => b.created_at.localeCompare(a.created_at));
+        return copy(stats);
+      },
+      listByMatch: async matchId => copy(data.player_stats.filter(stat => stat.match_id === matchId).map(resolveStat)),
+      listByPlayer: async playerId => copy(data.player_stats.filter(stat => stat.player_id === playerId).map(resolveStat)),
+      listGoals: async (range) => {
+        const goals: PlayerGoals[] = data.player_stats
+          .map(resolveStat)
+          .filter(stat => stat.match && inRange(stat.match.match_date, range))
+          .map(stat => ({
+            right_foot_goals: stat.right_foot_goals,
+            left_foot_goals: stat.left_foot_goals,
+            header_goals: stat.header_goals,
+            penalties: stat.penalties,
+            match: {
+              match_date: stat.match.match_date,
+              competition_id: stat.match.competition_id,
+              competition_info: stat.match.competition_info,
+            },
+          }));
+        return copy(goals);
+      },
+      // As the player_total_stats view: seasons by match date, friendlies left out, legacy rows without
+      // a roster player summed by name
+      listTotals: async (seasonId) => {
+        const seasons = data.seasons;
+        const totals = new Map<string, PlayerTotalStats>();
+        data.player_stats.map(resolveStat).forEach((stat) => {
+          if (stat.match && !countsForStats(stat.match)) return;
+          const statSeasonId = (stat.match && findSeasonForDate(seasons, stat.match.match_date)?.id) ?? null;
+          if (seasonId && statSeasonId !== seasonId) return;
+
+          const key = `${stat.player?.id ?? normalizeName(stat.player_name ?? '')}:${statSeasonId}`;
+          const total = totals.get(key) ?? {
+            player_id: stat.player?.id ?? null,
+            player_name: stat.player?.name ?? stat.player_name?.trim().replace(/\s+/g, ' ') ?? null,
+            season_id: statSeasonId,
+            total_right_foot_goals: 0,
+            total_left_foot_goals: 0,
+            total_header_goals: 0,
+            total_penalties: 0,
+            total_assists: 0,
+            total_yellow_cards: 0,
+            total_red_cards: 0,
+          };
+          total.total_right_foot_goals += stat.right_foot_goals;
+          total.total_left_foot_goals += stat.left_foot_goals;
+          total.total_header_goals += stat.header_goals;
+          total.total_penalties += stat.penalties;
+          total.total_assists += stat.assists;
+          total.total_yellow_cards += stat.yellow_cards;
+          total.total_red_cards += stat.red_cards;
+          totals.set(key, total);
+        });
+        return [...totals.values()];
+      },
+      listUnlinked: async () => data.player_stats
+        .filter(stat => stat.match_id == null && stat.match_details)
+        .map(stat => ({ id: stat.id, match_details: stat.match_details })),
+      listUnlinkedPlayers: async () => data.player_stats
+        .filter(stat => stat.player_id == null && stat.player_name)
+        .map(stat => ({ id: stat.id, player_name: stat.player_name })),
+      listKeys: async () => data.player_stats
+        .filter(stat => stat.match_id != null && stat.player_id != null)
+        .map(stat => ({ match_id: stat.match_id, player_id: stat.player_id })),
+      create: async (rows) => {
+        write(draft => rows.forEach(values => insertRow(draft, 'player_stats', values)));
+      },
+      update: async (id, values) => write(draft => updateRow(draft, 'player_stats', id, values)),
+      linkToMatch: async (matchDetails, matchId) => write((draft) => {
+        draft.player_stats
+          .filter(stat => stat.match_id == null && stat.match_details === matchDetails)
+          .forEach(stat => updateRow(draft, 'player_stats', stat.id, { match_id: matchId }));
+      }),
+      linkToPlayer: async (playerName, playerId) => write((draft) => {
+        draft.player_stats
+          .filter(stat => stat.player_id == null && stat.player_name === playerName)
+          .forEach(stat => updateRow(draft, 'player_stats', stat.id, { player_id: playerId }));
+      }),
+      // As link_player_stats_by_name: rows that would clash on (match, player) are left alone
+      linkByPlayerName: async () => write((draft) => {
+        const playersByName = new Map<string, Tables<'players'>[]>();
+        draft.players.forEach((player) => {
+          const key = normalizeName(player.name);
+          playersByName.set(key, [...(playersByName.get(key) ?? []), player]);
+        });
+        const unlinked = draft.player_stats.filter(stat => stat.player_id == null && stat.player_name);
+        let linked = 0;
+        unlinked.forEach((stat) => {
+          const key = normalizeName(stat.player_name);
+          const matching = playersByName.get(key);
+          if (matching?.length !== 1) return;
+          const clashes = draft.player_stats.some(other => other.id !== stat.id && other.match_id != null && other.match_id === stat.match_id &&
+            (other.player_id === matching[0].id || (other.player_id == null && normalizeName(other.player_name ?? '') === key)));
+          if (clashes) return;
+          updateRow(draft, 'player_stats', stat.id, { player_id: matching[0].id });
+          linked++;
+        });
+        return linked;
+      }),
+      remove: async id => write(draft => deleteRow(draft, 'player_stats', id)),
+    },
+
+    matchEvents: {
+      listByMatch: async matchId => copy(data.match_events.filter(event => event.match_id === matchId)).map(asMatchEvent),
+      listMatchIds: async () => data.match_events.map(event => event.match_id),
+    },
+
+    tables: {
+      selectAll: async table => copy(data[table]),
+      get: async (table, id) => copy(findRow(data, table, id)),
+      insert: async (table, values) => {
+        write(draft => insertRow(draft, table, values));
+      },
+      update: async (table, id, values) => write(draft => updateRow(draft, table, id, values)),
+      upsert: async (table, rows, onConflict) => write(draft => rows.forEach(values => upsertRow(draft, table, values, onConflict))),
+      remove: async (table, id) => write(draft => deleteRow(draft, table, id)),
+      removeMany: async (table, ids) => write(draft => ids.forEach(id => deleteRow(draft, table, id))),
+    },
+  };
+};
@@ -0,0 +1,336 @@
+import { getSupabase } from '@/lib/supabaseClient';
+import { MATCH_WITH_TEAMS_SELECT } from '@/lib/matches';
+import { dayAfter } from '@/lib/seasons';
+import { sanitizeSearch } from '@/lib/matchList';
+import { PLAYER_STAT_SELECT, PLAYER_STAT_WITH_MATCH_SELECT } from '@/lib/players';
+import type { Competition } from '@/types/competition';
+import type { MatchWithTeams } from '@/types/match';
+import type { MatchEvent } from '@/types/matchEvent';
+import type { Player } from '@/types/player';
+import type { PlayerGoals, PlayerStat } from '@/types/playerStat';
+import type { Repositories, TableRow } from './types';
+
+// Supabase backend: the queries the pages used to run themselves, errors thrown as returned (PostgrestError).
+// Rows are typed by the generated Database types, resolved columns included from the select strings.
+// overrideTypes<>() narrows the text columns the check constraints limit to a few values (player
+// position, event type...), merged into the inferred rows. The merge can't narrow the items of an array
+// (competition tie_breakers), so rows holding a competition take its app type whole ({ merge: false }).
+
+// Narrowed columns, merged into the inferred rows
+type PlayerColumns = Pick<Player, 'position' | 'preferred_foot'>;
+type MatchEventColumns = Pick<MatchEvent, 'event_type' | 'goal_type'>;
+
+// Rows per request when reading every row of a query: the API cuts longer answers (max-rows, 1000 by default)
+const PAGE_SIZE = 1000;
+// Ids per delete, to keep the "id=in.(...)" filter well below the URL length limit
+const DELETE_CHUNK_SIZE = 100;
+
+// Throws the error of a query, or returns its rows
+const rows = <T>({ data, error }: { data: T[] | null; error: unknown }) => {
+  if (error) {
+    throw error;
+  }
+  return data || [];
+};
+
+const row = <T>({ data, error }: { data: T | null; error: unknown }) => {
+  if (error) {
+    throw error;
+  }
+  return data as T;
+};
+
+// Every row of a query, page by page (see PAGE_SIZE). The query's order must end on a unique column,
+// or rows can be repeated or skipped between pages. A short page ends the rows
+const allRows = async <T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) => {
+  const all: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const data = rows(await page(offset, offset + PAGE_SIZE - 1));
+    all.push(...data);
+    if (data.length < PAGE_SIZE) {
+      return all;
+    }
+  }
+};
+
+const check = ({ error }: { error: unknown }) => {
+  if (error) {
+    throw error;
+  }
+};
+
+export const createSupabaseRepositories = (): Repositories => {
+  const supabase = getSupabase();
+
+  return {
+    auth: {
+      getSession: async () => {
+        const { data, error } = await supabase.auth.getSession();
+        if (error) {
+          console.error('Error restoring session:', error);
+        }
+        return data.session;
+      },
+      onChange: (listener) => {
+        const { data: { subscription } } = supabase.auth.onAuthStateChange(listener);
+        return () => subscription.unsubscribe();
+      },
+      signIn: async (email, password) => {
+        check(await supabase.auth.signInWithPassword({ email, password }));
+      },
+      signOut: async () => {
+        check(await supabase.auth.signOut());
+      },
+    },
+
+    seasons: {
+      list: async () => rows(await supabase.from('seasons').select('*').order('start_date', { ascending: false })),
+      create: async values => row(await supabase.from('seasons').insert([values]).select().single()),
+      update: async (id, values) => check(await supabase.from('seasons').update(values).eq('id', id)),
+      remove: async id => check(await supabase.from('seasons').delete().eq('id', id)),
+    },
+
+    teams: {
+      list: async () => rows(await supabase.from('teams').select('*').order('name', { ascending: true })),
+      create: async values => check(await supabase.from('teams').insert([values])),
+      update: async (id, values) => check(await supabase.from('teams').update(values).eq('id', id)),
+      remove: async id => check(await supabase.from('teams').delete().eq('id', id)),
+    },
+
+    competitions: {
+      list: async (seasonId) => {
+        let query = supabase.from('competitions').select('*').order('name', { ascending: true });
+        if (seasonId) {
+          query = query.eq('season_id', seasonId);
+        }
+        return rows(await query.overrideTypes<Competition[], { merge: false }>());
+      },
+      create: async values => check(await supabase.from('competitions').insert([values])),
+      update: async (id, values) => check(await supabase.from('competitions').update(values).eq('id', id)),
+      remove: async id => check(await supabase.from('competitions').delete().eq('id', id)),
+    },
+
+    players: {
+      list: async () => rows(await supabase
+        .from('players')
+        .select('*')
+        .order('shirt_number', { ascending: true, nullsFirst: false })
+        .order('name', { ascending: true })
+        .overrideTypes<PlayerColumns[]>()),
+      get: async id => row(await supabase.from('players').select('*').eq('id', id).single().overrideTypes<PlayerColumns>()),
+      create: async values => row(await supabase.from('players').insert([values]).select().single().overrideTypes<PlayerColumns>()),
+      update: async (id, values) => check(await supabase.from('players').update(values).eq('id', id)),
+      remove: async id => check(await supabase.from('players').delete().eq('id', id)),
+    },
+
+    matches: {
+      list: async ({ range, limit } = {}) => {
+        const select = (from: number, to: number) => {
+          let query = supabase
+            .from('matches')
+            .select(MATCH_WITH_TEAMS_SELECT); // Resolve team names through the teams table
+          if (range) {
+            query = query.gte('match_date', range.from).lt('match_date', range.to);
+          }
+          return query
+            .order('match_date', { ascending: false })
+            .order('id')
+            .range(from, to)
+            .overrideTypes<MatchWithTeams[], { merge: false }>();
+        };
+        return limit ? rows(await select(0, limit - 1)) : allRows(select);
+      },
+      get: async id => row(await supabase.from('matches').select(MATCH_WITH_TEAMS_SELECT).eq('id', id).single().overrideTypes<MatchWithTeams, { merge: false }>()),
+      // The match_list view adds team and competition names (for sorting and search)
+      // and the result seen from our club's side
+      search: async (params, range, page) => {
+        const select = (from: number, to: number) => {
+          let query = supabase
+            .from('match_list')
+            .select(MATCH_WITH_TEAMS_SELECT, { count: 'exact' });
+
+          if (range) {
+            query = query.gte('match_date', range.from).lt('match_date', range.to);
+          }
+          if (params.from) {
+            query = query.gte('match_date', params.from);
+          }
+          if (params.to) {
+            query = query.lt('match_date', dayAfter(params.to));
+          }
+          if (params.opponent) {
+            query = query.eq('opponent_id', params.opponent);
+          }
+          if (params.competition) {
+            query = query.eq('competition_id', params.competition);
+          }
+          if (params.result) {
+            query = query.eq('result', params.result);
+          }
+          if (params.venue) {
+            query = query.eq('is_home', params.venue === 'home');
+          }
+          const search = sanitizeSearch(params.q);
+          if (search) {
+            query = query.ilike('search_text', `%${search}%`);
+          }
+
+          return query
+            .order(params.sort, { ascending: params.dir === 'asc', nullsFirst: false })
+            .order('id') // Stable order between pages when the sort column has ties
+            .range(from, to)
+            .overrideTypes<MatchWithTeams[], { merge: false }>();
+        };
+
+        if (!page) {
+          const matches = await allRows(select);
+          return { matches, count: matches.length };
+        }
+        const { data, count, error } = await select(page.offset, page.offset + page.limit - 1);
+        if (error) {
+          throw error;
+        }
+        return { matches: data || [], count: count ?? 0 };
+      },
+      create: async values => check(await supabase.from('matches').insert(values)),
+      update: async (id, values) => check(await supabase.from('matches').update(values).eq('id', id)),
+      remove: async id => check(await supabase.from('matches').delete().eq('id', id)),
+    },
+
+    playerStats: {
+      list: async (range) => allRows((from, to) => {
+        let query = supabase
+          .from('player_stats')
+          .select(range ? PLAYER_STAT_WITH_MATCH_SELECT : PLAYER_STAT_SELECT);
+        // Rows not linked to a match have no date, so they are left out of any range
+        if (range) {
+          query = query.gte('match.match_date', range.from).lt('match.match_date', range.to);
+        }
+        return query
+          .order('created_at', { ascending: false })
+          .order('id')
+          .range(from, to)
+          .overrideTypes<PlayerStat[], { merge: false }>();
+      }),
+      listByMatch: async matchId => rows(await supabase
+        .from('player_stats')
+        .select(PLAYER_STAT_SELECT)
+        .eq('match_id', matchId)
+        .overrideTypes<PlayerStat[], { merge: false }>()),
+      listByPlayer: async playerId => rows(await supabase
+        .from('player_stats')
+        .select(PLAYER_STAT_SELECT)
+        .eq('player_id', playerId)
+        .overrideTypes<PlayerStat[], { merge: false }>()),
+      listGoals: async (range) => allRows((from, to) => {
+        let query = supabase
+          .from('player_stats')
+          .select('right_foot_goals, left_foot_goals, header_goals, penalties, match:matches!inner(match_date, competition_id, competition_info:competitions(*))');
+        if (range) {
+          query = query.gte('match.match_date', range.from).lt('match.match_date', range.to);
+        }
+        return query.order('id').range(from, to).overrideTypes<PlayerGoals[], { merge: false }>();
+      }),
+      listTotals: async (seasonId) => {
+        let query = supabase.from('player_total_stats').select('*');
+        if (seasonId) {
+          query = query.eq('season_id', seasonId);
+        }
+        // Sums in a view come back as strings with some drivers
+        return rows(await query).map(item => ({
+          player_id: item.player_id,
+          player_name: item.player_name,
+          season_id: item.season_id,
+          total_right_foot_goals: Number(item.total_right_foot_goals || 0),
+          total_left_foot_goals: Number(item.total_left_foot_goals || 0),
+          total_header_goals: Number(item.total_header_goals || 0),
+          total_penalties: Number(item.total_penalties || 0),
+          total_assists: Number(item.total_assists || 0),
+          total_yellow_cards: Number(item.total_yellow_cards || 0),
+          total_red_cards: Number(item.total_red_cards || 0),
+        }));
+      },
+      listUnlinked: async () => rows(await supabase
+        .from('player_stats')
+        .select('id, match_details')
+        .is('match_id', null)
+        .not('match_details', 'is', null)
+        .neq('match_details', '')),
+      listUnlinkedPlayers: async () => rows(await supabase
+        .from('player_stats')
+        .select('id, player_name')
+        .is('player_id', null)
+        .not('player_name', 'is', null)
+        .neq('player_name', '')),
+      listKeys: async () => allRows((from, to) => supabase
+        .from('player_stats')
+        .select('match_id, player_id')
+        .not('match_id', 'is', null)
+        .not('player_id', 'is', null)
+        .order('id')
+        .range(from, to)),
+      create: async values => check(await supabase.from('player_stats').insert(values)),
+      update: async (id, values) => check(await supabase.from('player_stats').update(values).eq('id', id)),
+      linkToMatch: async (matchDetails, matchId) => check(await supabase
+        .from('player_stats')
+        .update({ match_id: matchId })
+        .is('match_id', null)
+        .eq('match_details', matchDetails)),
+      linkToPlayer: async (playerName, playerId) => check(await supabase
+        .from('player_stats')
+        .update({ player_id: playerId })
+        .is('player_id', null)
+        .eq('player_name', playerName)),
+      // Same matching as the legacy import (supabase/migrations), run in the database
+      linkByPlayerName: async () => row(await supabase.rpc('link_player_stats_by_name')),
+      remove: async id => check(await supabase.from('player_stats').delete().eq('id', id)),
+    },
+
+    matchEvents: {
+      listByMatch: async matchId => rows(await supabase.from('match_events').select('*').eq('match_id', matchId).overrideTypes<MatchEventColumns[]>()),
+      listMatchIds: async () => (await allRows((from, to) => supabase
+        .from('match_events')
+        .select('match_id')
+        .order('id')
+        .range(from, to))).map(item => item.match_id),
+    },
+
+    tables: {
+      // Page by page in id order. A short page ends the table; the count catches a server returning
+      // fewer rows than asked, or rows added or deleted while reading
+      selectAll: async (table) => {
+        const all: TableRow[] = [];
+        let total: number | null = null;
+        for (let offset = 0; ; offset += PAGE_SIZE) {
+          const { data, count, error } = await supabase
+            .from(table)
+            .select('*', { count: 'exact' })
+            .order('id')
+            .range(offset, offset + PAGE_SIZE - 1);
+          if (error) {
+            throw error;
+          }
+          total ??= count;
+          all.push(...data);
+          if (data.length < PAGE_SIZE) {
+            break;
+          }
+        }
+        if (total !== null && all.length !== total) {
+          throw new Error(`lette ${all.length} righe su ${total} della tabella ${table}, riprova.`);
+        }
+        return all;
+      },
+      get: async (table, id) => row(await supabase.from(table).select('*').eq('id', id).maybeSingle()),
+      insert: async (table, value) => check(await supabase.from(table).insert(value)),
+      update: async (table, id, values) => check(await supabase.from(table).update(values).eq('id', id)),
+      upsert: async (table, values, onConflict) => check(await supabase.from(table).upsert(values, { onConflict })),
+      remove: async (table, id) => check(await supabase.from(table).delete().eq('id', id)),
+      removeMany: async (table, ids) => {
+        for (let index = 0; index < ids.length; index += DELETE_CHUNK_SIZE) {
+          check(await supabase.from(table).delete().in('id', ids.slice(index, index + DELETE_CHUNK_SIZE)));
+        }
+      },
+    },
+  };
+};
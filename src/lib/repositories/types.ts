@@ -0,0 +1,147 @@
+import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
+import type { MatchListParams } from '@/lib/matchList';
+import type { Competition } from '@/types/competition';
+import type { Match, MatchWithTeams } from '@/types/match';
+import type { TablesInsert } from '@/types/database';
+import type { GoalType, MatchEvent } from '@/types/matchEvent';
+import type { Player } from '@/types/player';
+import type { PlayerGoals, PlayerStat, PlayerTotalStats } from '@/types/playerStat';
+import type { Season } from '@/types/season';
+import type { Team } from '@/types/team';
+
+// Data access of the app, one repository per entity. Pages and hooks only talk to these interfaces,
+// implemented on Supabase (lib/repositories/supabase) and in memory for demos and tests (lib/repositories/memory).
+
+export type TableName = 'seasons' | 'teams' | 'competitions' | 'players' | 'matches' | 'player_stats' | 'match_events';
+
+export type TableRow = { id: string } & Record<string, unknown>;
+
+// Both backends report failures with the Postgres error code the pages look at
+// ('23503' row still referenced, '23505' duplicate)
+export class RepositoryError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = code;
+  }
+}
+
+// Postgres code of an error thrown by a repository, whichever backend threw it
+export const getErrorCode = (error: unknown) => (error as { code?: string } | null)?.code ?? null;
+
+// Bounds on match_date, `to` excluded (see getSeasonRange)
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+// Columns written by the forms: ids and joined rows are left to the repository
+export type SeasonValues = Omit<Season, 'id'>;
+export type TeamValues = Omit<Team, 'id'>;
+export type CompetitionValues = Omit<Competition, 'id'>;
+export type PlayerValues = Omit<Player, 'id'>;
+export type MatchValues = Omit<Match, 'id' | 'competition'> & { id?: string }; // An id only when generated on the device
+// Stats and events leave the columns with a default out, as the live match and the bulk entry do
+export type PlayerStatValues = Pick<TablesInsert<'player_stats'>, 'player_id' | 'match_id' | 'right_foot_goals' | 'left_foot_goals' | 'header_goals' | 'penalties' | 'assists' | 'yellow_cards' | 'red_cards' | 'notes'>;
+export type MatchEventValues = Omit<TablesInsert<'match_events'>, 'id' | 'created_at' | 'event_type' | 'goal_type'>
+  & Pick<MatchEvent, 'event_type'> & { goal_type?: GoalType | null };
+
+export interface SeasonRepository {
+  list(): Promise<Season[]>; // Most recent first
+  create(values: SeasonValues): Promise<Season>;
+  update(id: string, values: Partial<SeasonValues>): Promise<void>;
+  remove(id: string): Promise<void>; // Its competitions, matches and stats are kept
+}
+
+export interface TeamRepository {
+  list(): Promise<Team[]>; // By name
+  create(values: TeamValues): Promise<void>;
+  update(id: string, values: Partial<TeamValues>): Promise<void>;
+  remove(id: string): Promise<void>; // '23503' while used by a match
+}
+
+export interface CompetitionRepository {
+  list(seasonId?: string | null): Promise<Competition[]>; // By name, of every season without seasonId
+  create(values: CompetitionValues): Promise<void>;
+  update(id: string, values: Partial<CompetitionValues>): Promise<void>;
+  remove(id: string): Promise<void>; // '23503' while used by a match
+}
+
+export interface PlayerRepository {
+  list(): Promise<Player[]>; // By shirt number, then name
+  get(id: string): Promise<Player>;
+  create(values: PlayerValues): Promise<Player>;
+  update(id: string, values: Partial<PlayerValues>): Promise<void>;
+  remove(id: string): Promise<void>; // '23503' while the player has stats
+}
+
+export interface MatchListPage {
+  matches: MatchWithTeams[];
+  count: number; // Matches passing the filters, on every page
+}
+
+export interface MatchRepository {
+  list(options?: { range?: DateRange | null; limit?: number }): Promise<MatchWithTeams[]>; // Most recent first
+  get(id: string): Promise<MatchWithTeams>;
+  // Filtered and sorted list (see lib/matchList), one page or every match when page is left out
+  search(params: MatchListParams, range: DateRange | null, page?: { offset: number; limit: number }): Promise<MatchListPage>;
+  create(rows: MatchValues[]): Promise<void>;
+  update(id: string, values: Partial<MatchValues>): Promise<void>;
+  remove(id: string): Promise<void>; // Its stats and events go with it
+}
+
+export interface PlayerStatRepository {
+  list(range?: DateRange | null): Promise<PlayerStat[]>; // Last entered first. With a range, only rows of a match in it
+  listByMatch(matchId: string): Promise<PlayerStat[]>;
+  listByPlayer(playerId: string): Promise<PlayerStat[]>;
+  listGoals(range?: DateRange | null): Promise<PlayerGoals[]>; // Rows with a match only
+  listTotals(seasonId?: string | null): Promise<PlayerTotalStats[]>; // One row per player and season
+  listUnlinked(): Promise<{ id: string; match_details: string }[]>; // Legacy rows with only the free-text match
+  listUnlinkedPlayers(): Promise<{ id: string; player_name: string }[]>; // Legacy rows with only the free-text player name
+  listKeys(): Promise<{ match_id: string; player_id: string }[]>; // Match and player of the rows having both
+  create(rows: PlayerStatValues[]): Promise<void>;
+  update(id: string, values: Partial<PlayerStatValues>): Promise<void>;
+  linkToMatch(matchDetails: string, matchId: string): Promise<void>; // Every unlinked row with that free text
+  linkToPlayer(playerName: string, playerId: string): Promise<void>; // Every row without a player with that free-text name
+  linkByPlayerName(): Promise<number>; // Rows whose free-text name is the name of exactly one player, returns how many
+  remove(id: string): Promise<void>;
+}
+
+// Events are written through the offline outbox (tables below)
+export interface MatchEventRepository {
+  listByMatch(matchId: string): Promise<MatchEvent[]>; // In no particular order, see sortEvents
+  listMatchIds(): Promise<string[]>; // One per event, matches with several events repeat
+}
+
+// Plain rows of any table, for backups and the offline outbox.
+// Every write of a match event also rewrites the score and the stat counters of its match, in the same transaction.
+export interface TableRepository {
+  selectAll(table: TableName): Promise<TableRow[]>; // Every row, or an error: never a partial table
+  get(table: TableName, id: string): Promise<TableRow | null>;
+  insert(table: TableName, row: TableRow): Promise<void>;
+  update(table: TableName, id: string, values: Record<string, unknown>): Promise<void>;
+  upsert(table: TableName, rows: Record<string, unknown>[], onConflict: string): Promise<void>; // onConflict: "id" or "match_id,player_id"
+  remove(table: TableName, id: string): Promise<void>;
+  removeMany(table: TableName, ids: string[]): Promise<void>;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<Session | null>; // The session saved on the device, refreshed when expired
+  onChange(listener: (event: AuthChangeEvent, session: Session | null) => void): () => void; // Returns the unsubscribe
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export interface Repositories {
+  auth: AuthRepository;
+  seasons: SeasonRepository;
+  teams: TeamRepository;
+  competitions: CompetitionRepository;
+  players: PlayerRepository;
+  matches: MatchRepository;
+  playerStats: PlayerStatRepository;
+  matchEvents: MatchEventRepository;
+  tables: TableRepository;
+}
@@ -0,0 +1,35 @@
+import type { User } from '@supabase/supabase-js';
+
+// Roles a user can have. They are stored in the user's app_metadata (only editable with the service key)
+export type UserRole = 'admin' | 'coach' | 'viewer';
+
+// Actions that are granted per role
+export type Permission =
+  | 'read' // View matches, stats and dashboards
+  | 'write' // Add and edit matches and stats
+  | 'delete' // Delete matches and stats
+  | 'manage'; // Club administration (users, settings, bulk operations)
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: ['read', 'write', 'delete', 'manage'],
+  coach: ['read', 'write', 'delete'],
+  viewer: ['read'],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: 'Amministratore',
+  coach: 'Allenatore',
+  viewer: 'Visualizzatore',
+};
+
+const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && value in rolePermissions;
+
+// Users without an explicit role are read-only
+export const getUserRole = (user: User | null): UserRole => {
+  const role = user?.app_metadata?.role;
+  return isUserRole(role) ? role : 'viewer';
+};
+
+export const hasPermission = (role: UserRole, permission: Permission) =>
+  rolePermissions[role].includes(permission);
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// Form schemas shared by the pages that enter the same records
+
+// Non-negative whole number (goals, cards...). Empty inputs are coerced to 0.
+const count = (message: string) =>
+  z.coerce.number({ invalid_type_error: 'Inserisci un numero.' })
+    .int({ message: 'Inserisci un numero intero.' })
+    .min(0, { message });
+
+// Counters of a stat row default to 0
+const statCount = (message: string) => count(message).default(0);
+
+// A match between two teams of the teams table
+export const matchFormSchema = z.object({
+  match_date: z.date({
+    required_error: 'La data della partita è richiesta.',
+    invalid_type_error: 'La data della partita non è valida.',
+  }),
+  home_team_id: z.string().min(1, { message: 'La squadra di casa è richiesta.' }), // teams.id
+  away_team_id: z.string().min(1, { message: 'La squadra ospite è richiesta.' }), // teams.id
+  competition_id: z.string().optional(), // competitions.id, empty for none
+  home_goals: count('I gol non possono essere negativi.'),
+  away_goals: count('I gol non possono essere negativi.'),
+  notes: z.string().optional(),
+});
+
+export type MatchFormValues = z.infer<typeof matchFormSchema>;
+
+// One player's stats in one match
+export const playerStatsFormSchema = z.object({
+  player_id: z.string().min(1, { message: 'Il calciatore è richiesto.' }), // players.id
+  match_id: z.string().min(1, { message: 'La partita è richiesta.' }), // matches.id
+  right_foot_goals: statCount('I gol non possono essere negativi.'),
+  left_foot_goals: statCount('I gol non possono essere negativi.'),
+  header_goals: statCount('I gol non possono essere negativi.'),
+  penalties: statCount('I rigori non possono essere negativi.'),
+  assists: statCount('Gli assist non possono essere negativi.'),
+  yellow_cards: statCount('I cartellini non possono essere negativi.'),
+  red_cards: statCount('I cartellini non possono essere negativi.'),
+  notes: z.string().optional(),
+});
+
+export type PlayerStatsFormValues = z.infer<typeof playerStatsFormSchema>;
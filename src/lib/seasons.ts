@@ -0,0 +1,29 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { Season } from '@/types/season';
+
+// match_date is a timestamp, so a day is included by filtering up to (excluding) the day after
+export const dayAfter = (day: string) => format(addDays(parseISO(day), 1), 'yyyy-MM-dd');
+
+// Bounds to filter match_date on: from the first day of the season, up to the day after its last day
+export const getSeasonRange = (season: Pick<Season, 'start_date' | 'end_date'>) => ({
+  from: season.start_date,
+  to: dayAfter(season.end_date),
+});
+
+export const isDateInSeason = (season: Pick<Season, 'start_date' | 'end_date'>, date: string | Date) => {
+  const day = format(typeof date === 'string' ? new Date(date) : date, 'yyyy-MM-dd');
+  return day >= season.start_date && day <= season.end_date;
+};
+
+export const findSeasonForDate = (seasons: Season[], date: string | Date) =>
+  seasons.find(season => isDateInSeason(season, date)) ?? null;
+
+// The season in progress today or, between seasons, the most recent one
+export const getCurrentSeason = (seasons: Season[]) =>
+  findSeasonForDate(seasons, new Date()) ??
+  [...seasons].sort((a, b) => b.start_date.localeCompare(a.start_date))[0] ??
+  null;
+
+// Two seasons overlap when each one starts before the other ends
+export const seasonsOverlap = (a: Pick<Season, 'start_date' | 'end_date'>, b: Pick<Season, 'start_date' | 'end_date'>) =>
+  a.start_date <= b.end_date && b.start_date <= a.end_date;
@@ -0,0 +1,105 @@
+import type { MatchWithTeams } from '@/types/match';
+import type { Team } from '@/types/team';
+
+export type TieBreaker = 'head_to_head' | 'goal_difference' | 'goals_for';
+
+export const tieBreakerLabels: Record<TieBreaker, string> = {
+  head_to_head: 'Scontri diretti',
+  goal_difference: 'Differenza reti',
+  goals_for: 'Gol fatti',
+};
+
+export interface StandingsRules {
+  pointsPerWin: number;
+  pointsPerDraw: number;
+  pointsPerLoss: number;
+  tieBreakers: TieBreaker[]; // Applied in order when teams have the same points
+}
+
+export const defaultStandingsRules: StandingsRules = {
+  pointsPerWin: 3,
+  pointsPerDraw: 1,
+  pointsPerLoss: 0,
+  tieBreakers: ['head_to_head', 'goal_difference', 'goals_for'],
+};
+
+export interface StandingsRow {
+  teamId: string;
+  team: Team | null;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+type MatchResult = Pick<MatchWithTeams, 'home_team_id' | 'away_team_id' | 'home_goals' | 'away_goals' | 'home_team' | 'away_team'>;
+
+// Table built from the given matches only
+const buildTable = (matches: MatchResult[], rules: StandingsRules) => {
+  const rows = new Map<string, StandingsRow>();
+  const rowFor = (teamId: string, team: Team | null) => {
+    if (!rows.has(teamId)) {
+      rows.set(teamId, { teamId, team, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, goalDifference: 0, points: 0 });
+    }
+    return rows.get(teamId);
+  };
+  const addResult = (row: StandingsRow, goalsFor: number, goalsAgainst: number) => {
+    row.played++;
+    row.goalsFor += goalsFor;
+    row.goalsAgainst += goalsAgainst;
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    if (goalsFor > goalsAgainst) {
+      row.won++;
+      row.points += rules.pointsPerWin;
+    } else if (goalsFor === goalsAgainst) {
+      row.drawn++;
+      row.points += rules.pointsPerDraw;
+    } else {
+      row.lost++;
+      row.points += rules.pointsPerLoss;
+    }
+  };
+
+  matches.forEach((match) => {
+    addResult(rowFor(match.home_team_id, match.home_team), match.home_goals, match.away_goals);
+    addResult(rowFor(match.away_team_id, match.away_team), match.away_goals, match.home_goals);
+  });
+  return rows;
+};
+
+// League table for a set of matches, sorted by points and then by the configured tie-breakers
+export const computeStandings = (matches: MatchResult[], rules: StandingsRules): StandingsRow[] => {
+  const rows = Array.from(buildTable(matches, rules).values());
+
+  // Head-to-head: a mini table among the teams on the same points
+  const headToHeadPoints = new Map<string, number>();
+  if (rules.tieBreakers.includes('head_to_head')) {
+    const teamsByPoints = new Map<number, string[]>();
+    rows.forEach(row => teamsByPoints.set(row.points, [...(teamsByPoints.get(row.points) || []), row.teamId]));
+    teamsByPoints.forEach((teamIds) => {
+      if (teamIds.length < 2) return;
+      const tied = new Set(teamIds);
+      const directMatches = matches.filter(match => tied.has(match.home_team_id) && tied.has(match.away_team_id));
+      buildTable(directMatches, rules).forEach((row, teamId) => headToHeadPoints.set(teamId, row.points));
+    });
+  }
+
+  const compareBy: Record<TieBreaker, (a: StandingsRow, b: StandingsRow) => number> = {
+    head_to_head: (a, b) => (headToHeadPoints.get(b.teamId) || 0) - (headToHeadPoints.get(a.teamId) || 0),
+    goal_difference: (a, b) => b.goalDifference - a.goalDifference,
+    goals_for: (a, b) => b.goalsFor - a.goalsFor,
+  };
+
+  return rows.sort((a, b) => {
+    if (a.points !== b.points) return b.points - a.points;
+    for (const tieBreaker of rules.tieBreakers) {
+      const result = compareBy[tieBreaker](a, b);
+      if (result !== 0) return result;
+    }
+    return (a.team?.name ?? a.teamId).localeCompare(b.team?.name ?? b.teamId);
+  });
+};
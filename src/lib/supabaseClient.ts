@@ -1,13 +1,27 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+let client: SupabaseClient<Database> | null = null;
 
-// Ensure environment variables are loaded
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('Supabase URL and Anon Key are required.');
-  // The Supabase client constructor will throw an error if these are missing,
-  // which is the error the user was seeing.
-}
+// Created on first use, so the in-memory backend runs without any Supabase configuration.
+// Typed with the schema (types/database.ts, see `pnpm gen:types`), so queries are checked against the real columns.
+export const getSupabase = () => {
+  if (!client) {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+    // Ensure environment variables are loaded
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Supabase URL and Anon Key are required (VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY). Set VITE_DATA_BACKEND=memory to run without Supabase.');
+    }
+
+    client = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        persistSession: true, // Keep the session in localStorage across reloads
+        autoRefreshToken: true, // Refresh the access token before it expires
+        detectSessionInUrl: true, // Pick up sessions from password recovery / magic links
+      },
+    });
+  }
+  return client;
+};
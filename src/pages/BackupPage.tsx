@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { DownloadIcon, ArchiveRestoreIcon } from 'lucide-react';
+import { showSuccess, showError } from '@/utils/toast';
+import {
+  Backup,
+  backupTableLabels,
+  backupTables,
+  createBackup,
+  diffBackup,
+  fetchBackupTables,
+  parseBackup,
+  RestoreMode,
+  restoreBackup,
+} from '@/lib/backup';
+import { downloadBlob, exportFileName } from '@/lib/export';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+// Full copy of the club data: download it, or load one back by merging or replacing
+const BackupPage = () => {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  // What is in the database now, to compare the chosen file with
+  const { data: currentTables, isLoading: isLoadingCurrent, error: currentError } = useQuery({
+    queryKey: ['backup', 'current'],
+    queryFn: fetchBackupTables,
+    enabled: !!backup,
+  });
+
+  const diff = backup && currentTables ? diffBackup(backup, currentTables) : [];
+
+  const downloadMutation = useMutation({
+    mutationFn: createBackup,
+    onSuccess: (data) => {
+      downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${exportFileName('backup')}.json`);
+      const rowCount = backupTables.reduce((sum, table) => sum + data.tables[table].length, 0);
+      showSuccess(`Backup scaricato: ${rowCount} righe.`);
+    },
+    onError: (error: Error) => {
+      console.error('Error creating backup:', error);
+      showError(`Errore durante la creazione del backup: ${error.message}`);
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: ({ data, restoreMode }: { data: Backup; restoreMode: RestoreMode }) => restoreBackup(data, restoreMode),
+    onSuccess: () => {
+      queryClient.invalidateQueries(); // Every table may have changed
+      showSuccess('Backup ripristinato con successo!');
+      setBackup(null);
+      setFileName('');
+    },
+    onError: (error: Error) => {
+      console.error('Error restoring backup:', error);
+      queryClient.invalidateQueries(); // Part of the data may already be restored
+      showError(`Errore durante il ripristino: ${error.message}`);
+    },
+  });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again still triggers a change
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    setFileName(file.name);
+    setBackup(result.backup);
+    setFileErrors(result.errors);
+    queryClient.invalidateQueries({ queryKey: ['backup', 'current'] }); // Compare with fresh data
+  };
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Backup e Ripristino</h1>
+
+      {/* Download */}
+      <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Scarica Backup</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Un file JSON con stagioni, squadre, competizioni, rosa, partite, statistiche ed eventi di tutte le stagioni.
+          </p>
+          <Button onClick={() => downloadMutation.mutate()} disabled={downloadMutation.isPending}>
+            <DownloadIcon className="mr-2 h-4 w-4" /> {downloadMutation.isPending ? 'Preparazione...' : 'Scarica backup'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Restore */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Ripristina Backup</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-1">
+            <Label htmlFor="backup-file">File di backup</Label>
+            <Input id="backup-file" type="file" accept=".json,application/json" className="w-[280px]" onChange={handleFile} />
+          </div>
+
+          {fileErrors.length > 0 && (
+            <div className="text-sm text-red-500">
+              <p className="font-medium">{fileName} non può essere ripristinato:</p>
+              <ul className="list-disc pl-5">
+                {fileErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {backup && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {fileName}: backup del {format(new Date(backup.created_at), 'dd/MM/yyyy HH:mm')}, formato {backup.version}.
+              </p>
+
+              {/* Differences with the current data */}
+              {isLoadingCurrent ? (
+                <p>Confronto con i dati attuali...</p>
+              ) : currentError ? (
+                <p className="text-red-500">Errore nel caricamento dei dati attuali: {currentError.message}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tabella</TableHead>
+                      <TableHead>Nuove</TableHead>
+                      <TableHead>Modificate</TableHead>
+                      <TableHead>Invariate</TableHead>
+                      <TableHead>Solo nel database</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.map(row => (
+                      <TableRow key={row.table}>
+                        <TableCell className="font-medium">{backupTableLabels[row.table]}</TableCell>
+                        <TableCell>{row.added}</TableCell>
+                        <TableCell>{row.changed}</TableCell>
+                        <TableCell>{row.unchanged}</TableCell>
+                        <TableCell className={mode === 'replace' && row.missing > 0 ? 'text-red-500' : undefined}>{row.missing}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <RadioGroup value={mode} onValueChange={value => setMode(value as RestoreMode)} className="space-y-2">
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+                  <Label htmlFor="restore-merge" className="font-normal">
+                    <span className="font-medium">Unisci</span>: aggiunge le righe nuove e aggiorna quelle modificate. Le righe solo nel database restano.
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+                  <Label htmlFor="restore-replace" className="font-normal">
+                    <span className="font-medium">Sostituisci</span>: cancella tutti i dati attuali e carica solo quelli del backup.
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant={mode === 'replace' ? 'destructive' : 'default'} disabled={!currentTables || restoreMutation.isPending}>
+                    <ArchiveRestoreIcon className="mr-2 h-4 w-4" /> {restoreMutation.isPending ? 'Ripristino...' : 'Ripristina'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {mode === 'replace'
+                        ? 'Tutti i dati attuali verranno cancellati e sostituiti con quelli del backup. Questa azione non può essere annullata.'
+                        : 'Le righe del backup sovrascriveranno quelle attuali con lo stesso id. Questa azione non può essere annullata.'}
+                      {' '}Se qualcosa va storto a metà, i dati restano ripristinati in parte: scarica prima un backup dei dati attuali.
+                      {' '}Le stagioni archiviate vengono riaperte durante il ripristino e archiviate di nuovo alla fine, anche se il ripristino si interrompe.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Annulla</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => restoreMutation.mutate({ data: backup, restoreMode: mode })}>Ripristina</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BackupPage;
@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Trash2Icon, EditIcon } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CompetitionValues, getErrorCode, repositories } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useSeason } from '@/hooks/use-season';
+import { useCompetitions } from '@/hooks/use-competitions';
+import { competitionTypeLabels } from '@/lib/competitions';
+import { defaultStandingsRules, tieBreakerLabels } from '@/lib/standings';
+import TieBreakerEditor from '@/components/TieBreakerEditor';
+import type { Competition } from '@/types/competition';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+
+const points = z.coerce.number().int({ message: 'Inserisci un numero intero.' });
+
+// Define the schema for the form using Zod
+const competitionFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Il nome della competizione è richiesto.' }),
+  type: z.enum(['league', 'cup', 'friendly', 'tournament']),
+  season_id: z.string().min(1, { message: 'La stagione è richiesta.' }), // seasons.id
+  points_per_win: points,
+  points_per_draw: points,
+  points_per_loss: points,
+  tie_breakers: z.array(z.enum(['head_to_head', 'goal_difference', 'goals_for'])),
+  counts_for_stats: z.boolean().default(true),
+});
+
+type CompetitionFormValues = z.infer<typeof competitionFormSchema>;
+
+const emptyCompetitionForm = (seasonId: string): CompetitionFormValues => ({
+  name: '',
+  type: 'league',
+  season_id: seasonId,
+  points_per_win: defaultStandingsRules.pointsPerWin,
+  points_per_draw: defaultStandingsRules.pointsPerDraw,
+  points_per_loss: defaultStandingsRules.pointsPerLoss,
+  tie_breakers: defaultStandingsRules.tieBreakers,
+  counts_for_stats: true,
+});
+
+
+const CompetitionsPage = () => {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const { seasons, season } = useSeason();
+  // Competitions of an archived season are read-only like the rest of its data
+  const canWrite = can('write') && !season?.is_archived;
+  const canDelete = can('delete') && !season?.is_archived;
+  const [editingCompetitionId, setEditingCompetitionId] = useState<string | null>(null); // State to track which competition is being edited
+
+  const form = useForm<CompetitionFormValues>({
+    resolver: zodResolver(competitionFormSchema),
+    defaultValues: emptyCompetitionForm(season?.id ?? ''),
+  });
+
+  const { data: competitions, isLoading: isLoadingCompetitions, error: competitionsError } = useCompetitions();
+  const openSeasons = seasons.filter(item => !item.is_archived);
+
+  // Effect to populate form when editingCompetitionId changes
+  useEffect(() => {
+    const competitionToEdit = editingCompetitionId && competitions?.find(competition => competition.id === editingCompetitionId);
+    if (competitionToEdit) {
+      form.reset({
+        name: competitionToEdit.name,
+        type: competitionToEdit.type,
+        season_id: competitionToEdit.season_id || '',
+        points_per_win: competitionToEdit.points_per_win,
+        points_per_draw: competitionToEdit.points_per_draw,
+        points_per_loss: competitionToEdit.points_per_loss,
+        tie_breakers: competitionToEdit.tie_breakers,
+        counts_for_stats: competitionToEdit.counts_for_stats,
+      });
+    } else {
+      form.reset(emptyCompetitionForm(season?.id ?? ''));
+    }
+  }, [editingCompetitionId, competitions, season, form]);
+
+  // Competitions are shown with matches, standings and stats
+  const invalidateCompetitionQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['competitions'] });
+    queryClient.invalidateQueries({ queryKey: ['matches'] });
+    queryClient.invalidateQueries({ queryKey: ['latestMatches'] });
+    queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+    queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] }); // Depends on counts_for_stats
+  };
+
+  // Mutation for adding a new competition
+  const addCompetitionMutation = useMutation({
+    mutationFn: async (newCompetition: CompetitionFormValues) => {
+      await repositories.competitions.create(newCompetition as CompetitionValues);
+    },
+    onSuccess: () => {
+      invalidateCompetitionQueries();
+      showSuccess('Competizione aggiunta con successo!');
+      form.reset(emptyCompetitionForm(season?.id ?? ''));
+    },
+    onError: (error: Error) => {
+      console.error('Error inserting competition:', error);
+      showError(`Errore durante l'inserimento della competizione: ${error.message}`);
+    },
+  });
+
+  // Mutation for updating an existing competition
+  const updateCompetitionMutation = useMutation({
+    mutationFn: async (updatedCompetition: CompetitionFormValues) => {
+      if (!editingCompetitionId) throw new Error("No competition ID provided for update.");
+      await repositories.competitions.update(editingCompetitionId, updatedCompetition);
+    },
+    onSuccess: () => {
+      invalidateCompetitionQueries();
+      showSuccess('Competizione modificata con successo!');
+      setEditingCompetitionId(null); // Exit editing mode
+    },
+    onError: (error: Error) => {
+      console.error('Error updating competition:', error);
+      showError(`Errore durante la modifica della competizione: ${error.message}`);
+    },
+  });
+
+  // Mutation for deleting a competition
+  const deleteCompetitionMutation = useMutation({
+    mutationFn: async (competitionId: string) => {
+      try {
+        await repositories.competitions.remove(competitionId);
+      } catch (error) {
+        // 23503 = foreign key violation: the competition is still used by some matches
+        if (getErrorCode(error) === '23503') {
+          throw new Error('la competizione è usata in una o più partite.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateCompetitionQueries();
+      showSuccess('Competizione eliminata con successo!');
+      if (editingCompetitionId) {
+        setEditingCompetitionId(null);
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting competition:', error);
+      showError(`Errore durante l'eliminazione della competizione: ${error.message}`);
+    },
+  });
+
+
+  const onSubmit = (values: CompetitionFormValues) => {
+    if (editingCompetitionId) {
+      updateCompetitionMutation.mutate(values);
+    } else {
+      addCompetitionMutation.mutate(values);
+    }
+  };
+
+  const handleEditCompetition = (competition: Competition) => {
+    setEditingCompetitionId(competition.id);
+    // The useEffect hook will handle populating the form
+  };
+
+  const handleCancelEdit = () => {
+    setEditingCompetitionId(null);
+  };
+
+
+  if (isLoadingCompetitions) {
+    return <div className="container mx-auto py-8">Caricamento competizioni...</div>;
+  }
+
+  if (competitionsError) {
+    console.error('Error fetching competitions:', competitionsError);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento delle competizioni: {competitionsError.message}</div>;
+  }
+
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Gestione Competizioni</h1>
+
+      {/* Form Card - only for users who can add and edit */}
+      {canWrite && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>{editingCompetitionId ? 'Modifica Competizione' : 'Aggiungi Nuova Competizione'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Nome */}
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Es. Campionato Under 14" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex flex-wrap gap-4">
+                  {/* Tipo */}
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tipo</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            // Friendlies usually stay out of the official stats
+                            form.setValue('counts_for_stats', value !== 'friendly');
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-[240px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(competitionTypeLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Stagione */}
+                  <FormField
+                    control={form.control}
+                    name="season_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Stagione</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="w-[240px]">
+                              <SelectValue placeholder="Seleziona una stagione" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {openSeasons.map(item => (
+                              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Punti */}
+                <div className="flex flex-wrap gap-4">
+                  {([
+                    ['points_per_win', 'Punti per vittoria'],
+                    ['points_per_draw', 'Punti per pareggio'],
+                    ['points_per_loss', 'Punti per sconfitta'],
+                  ] as const).map(([name, label]) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{label}</FormLabel>
+                          <FormControl>
+                            <Input type="number" className="w-[120px]" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+
+                {/* Criteri di parità */}
+                <FormField
+                  control={form.control}
+                  name="tie_breakers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Criteri in caso di parità di punti</FormLabel>
+                      <TieBreakerEditor value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Statistiche ufficiali */}
+                <FormField
+                  control={form.control}
+                  name="counts_for_stats"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center space-x-2">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel>Conta per le statistiche ufficiali</FormLabel>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={addCompetitionMutation.isPending || updateCompetitionMutation.isPending}>
+                    {editingCompetitionId ? (updateCompetitionMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addCompetitionMutation.isPending ? 'Aggiunta...' : 'Aggiungi Competizione')}
+                  </Button>
+                  {editingCompetitionId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Annulla Modifica
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List of competitions */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Elenco Competizioni{season && ` · ${season.name}`}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {competitions && competitions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Punti (V/N/P)</TableHead>
+                  <TableHead>Criteri di parità</TableHead>
+                  {(canWrite || canDelete) && <TableHead className="text-right">Azioni</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {competitions.map((competition) => (
+                  <TableRow key={competition.id}>
+                    <TableCell className="font-medium">
+                      {competition.name}
+                      {!competition.counts_for_stats && <Badge variant="secondary" className="ml-2">Non ufficiale</Badge>}
+                    </TableCell>
+                    <TableCell>{competitionTypeLabels[competition.type]}</TableCell>
+                    <TableCell>{`${competition.points_per_win}/${competition.points_per_draw}/${competition.points_per_loss}`}</TableCell>
+                    <TableCell>{competition.tie_breakers.map(tieBreaker => tieBreakerLabels[tieBreaker]).join(', ') || '-'}</TableCell>
+                    {(canWrite || canDelete) && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          {canWrite && (
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditCompetition(competition)}>
+                              <EditIcon className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="icon" className="h-8 w-8">
+                                  <Trash2Icon className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Questa azione non può essere annullata. Verrà eliminata definitivamente la competizione selezionata.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deleteCompetitionMutation.mutate(competition.id)}>Elimina</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Nessuna competizione trovata.{canWrite && ' Aggiungi una competizione qui sopra.'}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CompetitionsPage;
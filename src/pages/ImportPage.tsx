@@ -0,0 +1,323 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { UploadIcon } from 'lucide-react';
+import { PlayerStatValues, repositories } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { useSeason } from '@/hooks/use-season';
+import { useTeams } from '@/hooks/use-teams';
+import { usePlayers } from '@/hooks/use-players';
+import { useMatches } from '@/hooks/use-matches';
+import { useMatchIdsWithEvents } from '@/hooks/use-match-events';
+import { CsvData, parseCsv } from '@/lib/csv';
+import {
+  ColumnMapping,
+  guessMapping,
+  ImportContext,
+  importFields,
+  ImportRow,
+  ImportRowStatus,
+  ImportTarget,
+  importTargetLabels,
+  missingRequiredFields,
+  statKey,
+  validateMatchRows,
+  validatePlayerStatRows,
+} from '@/lib/csvImport';
+import type { MatchFormValues, PlayerStatsFormValues } from '@/lib/schemas';
+import type { Competition } from '@/types/competition';
+
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const NOT_IMPORTED = 'none'; // Select items can't have an empty value
+
+const statusLabels: Record<ImportRowStatus, string> = {
+  valid: 'Da importare',
+  invalid: 'Errore',
+  duplicate: 'Duplicato',
+};
+
+const statusVariants: Record<ImportRowStatus, 'default' | 'destructive' | 'secondary'> = {
+  valid: 'default',
+  invalid: 'destructive',
+  duplicate: 'secondary',
+};
+
+// Import wizard for spreadsheet history: pick the file, map its columns, check the preview, import in one batch
+const ImportPage = () => {
+  const queryClient = useQueryClient();
+  const { seasons } = useSeason();
+  const [target, setTarget] = useState<ImportTarget>('matches');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<CsvData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [onlyProblems, setOnlyProblems] = useState(false);
+
+  const { data: teams, isLoading: isLoadingTeams } = useTeams();
+  const { data: players, isLoading: isLoadingPlayers } = usePlayers();
+  const { data: matches, isLoading: isLoadingMatches } = useMatches('all'); // History spans every season
+  const { data: matchIdsWithEvents } = useMatchIdsWithEvents();
+
+  // Competitions of every season, their names are resolved against the date of each row
+  const { data: competitions, isLoading: isLoadingCompetitions } = useQuery<Competition[]>({
+    queryKey: ['competitions', 'all'],
+    queryFn: () => repositories.competitions.list(),
+  });
+
+  // Player and match of every saved stat row, to spot duplicates
+  const { data: playerStatKeys, isLoading: isLoadingStatKeys } = useQuery<{ match_id: string; player_id: string }[], Error, Set<string>>({
+    queryKey: ['playerStats', 'keys'],
+    queryFn: () => repositories.playerStats.listKeys(),
+    select: keys => new Set(keys.map(key => statKey(key.match_id, key.player_id))), // The cache keeps the plain list, as it is saved to IndexedDB
+  });
+
+  const fields = importFields[target];
+  const missingFields = missingRequiredFields(fields, mapping);
+
+  const context = useMemo<ImportContext>(() => ({
+    teams: teams || [],
+    competitions: competitions || [],
+    seasons,
+    players: players || [],
+    matches: matches || [],
+    matchIdsWithEvents: matchIdsWithEvents || new Set(),
+    playerStatKeys: playerStatKeys || new Set(),
+  }), [teams, competitions, seasons, players, matches, matchIdsWithEvents, playerStatKeys]);
+
+  // Every row checked again whenever the mapping changes
+  const preview = useMemo<ImportRow<MatchFormValues | PlayerStatsFormValues>[]>(() => {
+    if (!csv || missingFields.length > 0) return [];
+    return target === 'matches'
+      ? validateMatchRows(csv.rows, mapping, context)
+      : validatePlayerStatRows(csv.rows, mapping, context);
+  }, [csv, mapping, target, context, missingFields.length]);
+
+  const counts = preview.reduce(
+    (sum, row) => ({ ...sum, [row.status]: sum[row.status] + 1 }),
+    { valid: 0, invalid: 0, duplicate: 0 } as Record<ImportRowStatus, number>,
+  );
+  const visibleRows = onlyProblems ? preview.filter(row => row.status !== 'valid') : preview;
+
+  const reset = () => {
+    setFileName('');
+    setCsv(null);
+    setMapping({});
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again still triggers a change
+    if (!file) return;
+    try {
+      const data = parseCsv(await file.text());
+      if (data.headers.length === 0 || data.rows.length === 0) {
+        showError('Il file non contiene righe da importare.');
+        return;
+      }
+      setFileName(file.name);
+      setCsv(data);
+      setMapping(guessMapping(fields, data.headers));
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      showError('Impossibile leggere il file.');
+    }
+  };
+
+  const handleTargetChange = (value: ImportTarget) => {
+    setTarget(value);
+    // The same file can hold either kind of row, so only the mapping starts over
+    setMapping(csv ? guessMapping(importFields[value], csv.headers) : {});
+  };
+
+  // Valid rows go in a single insert: either all of them are saved or none is
+  const importMutation = useMutation({
+    mutationFn: async (rows: ImportRow<MatchFormValues | PlayerStatsFormValues>[]) => {
+      const values = rows.map(row => row.values);
+      if (target === 'matches') {
+        await repositories.matches.create((values as MatchFormValues[]).map(match => ({
+          match_date: match.match_date.toISOString(),
+          home_team_id: match.home_team_id,
+          away_team_id: match.away_team_id,
+          competition_id: match.competition_id || null,
+          home_goals: match.home_goals,
+          away_goals: match.away_goals,
+          notes: match.notes,
+        })));
+      } else {
+        await repositories.playerStats.create(values as PlayerStatValues[]);
+      }
+      return rows.length;
+    },
+    onSuccess: (importedCount) => {
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+      queryClient.invalidateQueries({ queryKey: ['latestMatches'] });
+      queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+      queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+      showSuccess(`${importedCount} righe importate con successo!`);
+      reset();
+    },
+    onError: (error: Error) => {
+      console.error('Error importing CSV rows:', error);
+      showError(`Errore durante l'importazione: ${error.message}`);
+    },
+  });
+
+  if (isLoadingTeams || isLoadingPlayers || isLoadingMatches || isLoadingCompetitions || isLoadingStatKeys) {
+    return <div className="container mx-auto py-8">Caricamento dati...</div>;
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Importa da CSV</h1>
+
+      {/* Step 1: what to import and from which file */}
+      <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>1. File</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>Dati da importare</Label>
+            <Select value={target} onValueChange={value => handleTargetChange(value as ImportTarget)}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(importTargetLabels) as ImportTarget[]).map(item => (
+                  <SelectItem key={item} value={item}>{importTargetLabels[item]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="import-file">File CSV</Label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" className="w-[280px]" onChange={handleFile} />
+          </div>
+          {csv && (
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {csv.rows.length} righe, {csv.headers.length} colonne
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Step 2: which column feeds which field */}
+      {csv && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>2. Colonne</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Squadre, competizioni e calciatori vengono cercati per nome: devono già esistere nelle rispettive pagine.
+            </p>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {fields.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label>{field.label}{field.required && ' *'}</Label>
+                <Select
+                  value={mapping[field.key] != null ? String(mapping[field.key]) : NOT_IMPORTED}
+                  onValueChange={value => setMapping(current => ({ ...current, [field.key]: value === NOT_IMPORTED ? null : Number(value) }))}
+                >
+                  <SelectTrigger className={cn(field.required && mapping[field.key] == null && 'border-red-500')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_IMPORTED}>Non importare</SelectItem>
+                    {csv.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header || `Colonna ${index + 1}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Step 3: every row checked before anything is written */}
+      {csv && (
+        <Card className="bg-blue-50 dark:bg-blue-900">
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+            <div className="space-y-2">
+              <CardTitle>3. Anteprima</CardTitle>
+              {missingFields.length === 0 && (
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant={statusVariants.valid}>{counts.valid} da importare</Badge>
+                  <Badge variant={statusVariants.invalid}>{counts.invalid} con errori</Badge>
+                  <Badge variant={statusVariants.duplicate}>{counts.duplicate} duplicati</Badge>
+                </div>
+              )}
+            </div>
+            {missingFields.length === 0 && (
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch id="only-problems" checked={onlyProblems} onCheckedChange={setOnlyProblems} />
+                  <Label htmlFor="only-problems">Solo righe da controllare</Label>
+                </div>
+                <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>Annulla</Button>
+                <Button
+                  onClick={() => importMutation.mutate(preview.filter(row => row.status === 'valid'))}
+                  disabled={counts.valid === 0 || importMutation.isPending}
+                >
+                  <UploadIcon className="mr-2 h-4 w-4" />
+                  {importMutation.isPending ? 'Importazione...' : `Importa ${counts.valid} righe`}
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {missingFields.length > 0 ? (
+              <p>Scegli la colonna per: {missingFields.map(field => field.label).join(', ')}.</p>
+            ) : (
+              <>
+                {(counts.invalid > 0 || counts.duplicate > 0) && (
+                  <p className="mb-4 text-sm text-muted-foreground">
+                    Le righe con errori e i duplicati non vengono importati. Correggi il file e caricalo di nuovo per includerli.
+                  </p>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[70px]">Riga</TableHead>
+                      <TableHead className="w-[130px]">Stato</TableHead>
+                      <TableHead>Dati</TableHead>
+                      <TableHead>Problemi</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map(row => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell><Badge variant={statusVariants[row.status]}>{statusLabels[row.status]}</Badge></TableCell>
+                        <TableCell>{row.label}</TableCell>
+                        <TableCell className={cn(row.status === 'invalid' && 'text-red-500')}>
+                          {row.errors.map(error => <div key={error}>{error}</div>)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {visibleRows.length === 0 && <p className="mt-4">Nessuna riga da controllare.</p>}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ImportPage;
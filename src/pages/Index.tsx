@@ -1,78 +1,54 @@
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabaseClient';
+import { repositories } from '@/lib/repositories';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { getCompetitionName, getTeamName } from '@/lib/matches';
+import { ExportColumn, exportFileName } from '@/lib/export';
+import { getSeasonRange } from '@/lib/seasons';
+import { useSeason } from '@/hooks/use-season';
+import TeamName from '@/components/TeamName';
+import DashboardCharts from '@/components/DashboardCharts';
+import ExportMenu from '@/components/ExportMenu';
+import type { MatchWithTeams } from '@/types/match';
+import type { PlayerTotalStats } from '@/types/playerStat';
 
-// Define types for fetched data
-interface Match {
-  id: string;
-  match_date: string; // Supabase returns timestamp as string
-  home_team_id: string;
-  away_team_id: string;
-  competition?: string;
-  home_goals: number;
-  away_goals: number;
-}
+// Export columns, matching the two tables as shown
+const latestMatchesExportColumns: ExportColumn<MatchWithTeams>[] = [
+  { header: 'Data', value: match => new Date(match.match_date) },
+  { header: 'Partita', value: match => `${getTeamName(match.home_team)} vs ${getTeamName(match.away_team)}`, width: 40 },
+  { header: 'Risultato', value: match => `${match.home_goals} - ${match.away_goals}` },
+  { header: 'Competizione', value: match => getCompetitionName(match), width: 20 },
+];
 
-// Updated interface to match the columns returned by the player_total_stats view
-interface PlayerTotalStats {
-  player_name: string;
-  total_right_foot_goals: number;
-  total_left_foot_goals: number;
-  total_header_goals: number;
-  total_penalties: number; // Added total penalties
-  total_assists: number;
-  total_yellow_cards: number;
-  total_red_cards: number;
-}
+const totalStatsExportColumns: ExportColumn<PlayerTotalStats>[] = [
+  { header: 'Calciatore', value: stat => stat.player_name, width: 24 },
+  { header: 'Assist', value: stat => stat.total_assists },
+  { header: 'Gol D', value: stat => stat.total_right_foot_goals },
+  { header: 'Gol S', value: stat => stat.total_left_foot_goals },
+  { header: 'Gol T', value: stat => stat.total_header_goals },
+  { header: 'Rigori', value: stat => stat.total_penalties },
+  { header: 'Gialli', value: stat => stat.total_yellow_cards },
+  { header: 'Rossi', value: stat => stat.total_red_cards },
+];
 
 
 const Dashboard = () => {
-  // Fetch latest matches
-  const { data: latestMatches, isLoading: isLoadingMatches, error: matchesError } = useQuery<Match[]>({
-    queryKey: ['latestMatches'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('matches')
-        .select('*')
-        .order('match_date', { ascending: false })
-        .limit(5); // Get the last 5 matches
+  const { season, seasonKey } = useSeason();
 
-      if (error) {
-        throw error;
-      }
-      return data || [];
-    },
+  // Fetch latest matches of the selected season
+  const { data: latestMatches, isLoading: isLoadingMatches, error: matchesError } = useQuery<MatchWithTeams[]>({
+    queryKey: ['latestMatches', seasonKey],
+    queryFn: () => repositories.matches.list({ range: season ? getSeasonRange(season) : null, limit: 5 }), // Get the last 5 matches
   });
 
-  // Fetch total player stats - Querying the new player_total_stats view
+  // Fetch total player stats from the player_total_stats view, one row per player and season
   const { data: totalPlayerStats, isLoading: isLoadingStats, error: statsError } = useQuery<PlayerTotalStats[]>({
-    queryKey: ['totalPlayerStats'],
-    queryFn: async () => {
-      // Querying the player_total_stats view created in Supabase
-      const { data, error } = await supabase
-        .from('player_total_stats') // Querying the view
-        .select('*'); // Selecting all columns from the view
-
-      if (error) {
-        throw error;
-      }
-      // Data from the view should already be aggregated and have the correct column names
-      // We still need to ensure numbers are treated as numbers, though Supabase often handles this for views
-      const formattedData = data?.map(item => ({
-        player_name: item.player_name,
-        total_right_foot_goals: Number(item.total_right_foot_goals || 0),
-        total_left_foot_goals: Number(item.total_left_foot_goals || 0),
-        total_header_goals: Number(item.total_header_goals || 0),
-        total_penalties: Number(item.total_penalties || 0), // Ensure penalties is a number
-        total_assists: Number(item.total_assists || 0),
-        total_yellow_cards: Number(item.total_yellow_cards || 0),
-        total_red_cards: Number(item.total_red_cards || 0),
-      })) || [];
-      return formattedData;
-    },
+    queryKey: ['totalPlayerStats', seasonKey],
+    queryFn: () => repositories.playerStats.listTotals(season?.id),
   });
 
 
@@ -82,8 +58,15 @@ const Dashboard = () => {
 
       {/* Latest Matches Section */}
       <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Ultime Partite</CardTitle>
+          <ExportMenu
+            fileName={exportFileName('ultime-partite', season?.name)}
+            sheetName="Ultime Partite"
+            columns={latestMatchesExportColumns}
+            getRows={() => latestMatches || []}
+            disabled={!latestMatches?.length}
+          />
         </CardHeader>
         <CardContent>
           {isLoadingMatches ? (
@@ -104,9 +87,11 @@ const Dashboard = () => {
                 {latestMatches.map((match) => (
                   <TableRow key={match.id}>
                     <TableCell className="font-medium">{format(new Date(match.match_date), 'PPP')}</TableCell>
-                    <TableCell>{`${match.home_team_id} vs ${match.away_team_id}`}</TableCell>
+                    <TableCell>
+                      <TeamName team={match.home_team} /> vs <TeamName team={match.away_team} />
+                    </TableCell>
                     <TableCell>{`${match.home_goals} - ${match.away_goals}`}</TableCell>
-                    <TableCell>{match.competition || '-'}</TableCell>
+                    <TableCell>{getCompetitionName(match) || '-'}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -117,10 +102,20 @@ const Dashboard = () => {
         </CardContent>
       </Card>
 
+      {/* Charts Section */}
+      <DashboardCharts />
+
       {/* Total Player Stats Section */}
       <Card className="bg-blue-50 dark:bg-blue-900"> {/* Added background class here */}
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Riepilogo Statistiche Calciatori</CardTitle>
+          <ExportMenu
+            fileName={exportFileName('riepilogo-statistiche', season?.name)}
+            sheetName="Riepilogo Statistiche"
+            columns={totalStatsExportColumns}
+            getRows={() => totalPlayerStats || []}
+            disabled={!totalPlayerStats?.length}
+          />
         </CardHeader>
         <CardContent>
           {isLoadingStats ? (
@@ -143,8 +138,17 @@ const Dashboard = () => {
               </TableHeader>
               <TableBody>
                 {totalPlayerStats.map((stat) => (
-                  <TableRow key={stat.player_name}>
-                    <TableCell className="font-medium">{stat.player_name}</TableCell>
+                  <TableRow key={`${stat.player_id ?? stat.player_name}:${stat.season_id}`}>
+                    <TableCell className="font-medium">
+                      {stat.player_id ? (
+                        <Link to={`/players/${stat.player_id}`} className="hover:underline">{stat.player_name}</Link>
+                      ) : (
+                        // Legacy stats not linked to a roster player yet (see PlayerLinkingPage)
+                        <span className="flex items-center gap-2">
+                          {stat.player_name || 'Senza nome'} <Badge variant="outline">Da collegare</Badge>
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell>{stat.total_assists}</TableCell> {/* Moved Assist cell */}
                     {/* Accessing data using the column names from the view */}
                     <TableCell>{stat.total_right_foot_goals}</TableCell>
@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, ArrowRightLeftIcon, HandshakeIcon, SquareIcon, TrophyIcon } from 'lucide-react';
+import { showError, showSuccess } from '@/utils/toast';
+import { useMatch } from '@/hooks/use-match';
+import { useSeason } from '@/hooks/use-season';
+import { useMatchEvents } from '@/hooks/use-match-events';
+import { useMatchPlayerStats } from '@/hooks/use-match-player-stats';
+import { usePlayers } from '@/hooks/use-players';
+import { useStopwatch } from '@/hooks/use-stopwatch';
+import { useAddMatchEvent, useDeleteMatchEvent, useUpdateMatchEvent, NewMatchEvent } from '@/hooks/use-match-event-mutations';
+import { countStatsReplacedByEvents, deriveScore, eventTypeLabels, formatEventMinute, goalTypeLabels } from '@/lib/matchEvents';
+import Stopwatch from '@/components/Stopwatch';
+import TeamName from '@/components/TeamName';
+import MatchTimeline from '@/components/MatchTimeline';
+import ReplaceStatsDialog from '@/components/ReplaceStatsDialog';
+import type { GoalType, MatchEventType } from '@/types/matchEvent';
+import type { Player } from '@/types/player';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Action started by a tap, completed in the dialog. Minute and period are taken when the button is tapped.
+interface PendingAction {
+  type: MatchEventType | 'assist';
+  minute: number;
+  addedMinute: number | null;
+  period: string | null;
+  step: 'player' | 'goal_type' | 'related_player';
+  playerId?: string;
+  goalType?: GoalType;
+}
+
+const dialogTitles: Record<PendingAction['step'], Record<string, string>> = {
+  player: { goal: 'Chi ha segnato?', assist: 'Chi ha fatto l\'assist?', yellow_card: 'Chi è stato ammonito?', red_card: 'Chi è stato espulso?', substitution: 'Chi esce?' },
+  goal_type: { goal: 'Come ha segnato?' },
+  related_player: { goal: 'Chi ha fatto l\'assist?', substitution: 'Chi entra?' },
+};
+
+interface PlayerGridProps {
+  players: Player[];
+  excludeId?: string;
+  onSelect: (playerId: string) => void;
+}
+
+// Big buttons with shirt number and name, easy to hit at the pitch edge
+const PlayerGrid: React.FC<PlayerGridProps> = ({ players, excludeId, onSelect }) => (
+  <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+    {players.filter(player => player.id !== excludeId).map(player => (
+      <Button key={player.id} variant="outline" className="flex h-16 flex-col" onClick={() => onSelect(player.id)}>
+        <span className="text-xl font-bold">{player.shirt_number ?? '-'}</span>
+        <span className="w-full truncate text-xs">{player.name}</span>
+      </Button>
+    ))}
+  </div>
+);
+
+const LiveMatchPage = () => {
+  const { matchId } = useParams<{ matchId: string }>();
+  const stopwatch = useStopwatch(`live-match-${matchId}`); // One clock per match
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  // First event of a match with hand-entered stats, waiting for the user to confirm the replacement
+  const [eventToConfirm, setEventToConfirm] = useState<NewMatchEvent | null>(null);
+  const [isReplaceConfirmed, setIsReplaceConfirmed] = useState(false);
+  const { isFrozen } = useSeason();
+
+  const { data: match, isLoading: isLoadingMatch, error: matchError } = useMatch(matchId);
+  const { data: events, isLoading: isLoadingEvents } = useMatchEvents(matchId);
+  const { data: players, isLoading: isLoadingPlayers } = usePlayers();
+  const { data: matchStats, isLoading: isLoadingStats } = useMatchPlayerStats(matchId);
+  const addEventMutation = useAddMatchEvent(matchId);
+  const updateEventMutation = useUpdateMatchEvent();
+  const deleteEventMutation = useDeleteMatchEvent();
+
+  if (isLoadingMatch || isLoadingEvents || isLoadingPlayers || isLoadingStats) {
+    return <div className="container mx-auto py-8">Caricamento partita...</div>;
+  }
+
+  if (matchError) {
+    console.error('Error fetching match:', matchError);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento della partita: {matchError.message}</div>;
+  }
+
+  if (isFrozen(match.match_date)) {
+    return <div className="container mx-auto py-8">La partita appartiene a una stagione archiviata e non può essere modificata.</div>;
+  }
+
+  // Our team in this match, whose players are in the roster
+  const ownTeam = [match.home_team, match.away_team].find(team => team?.is_own_club) ?? null;
+  const opponentTeamId = ownTeam?.id === match.home_team_id ? match.away_team_id : match.home_team_id;
+  const activePlayers = (players || []).filter(player => player.is_active);
+
+  const replacedStatCount = countStatsReplacedByEvents(matchStats || [], events || []);
+  // Worked out here too, so events still waiting in the offline outbox already count
+  const score = events?.length ? deriveScore(events, match) : match;
+
+  const saveEvent = (event: NewMatchEvent) => {
+    addEventMutation.mutate(event, {
+      onSuccess: () => showSuccess(`${eventTypeLabels[event.event_type]} al ${formatEventMinute(event)}`),
+    });
+  };
+
+  const recordEvent = (newEvent: Omit<NewMatchEvent, 'player_id' | 'related_player_id' | 'goal_type'> & Partial<NewMatchEvent>) => {
+    const event = { player_id: null, related_player_id: null, goal_type: null, ...newEvent };
+    setPending(null);
+    if (replacedStatCount > 0 && !isReplaceConfirmed) {
+      setEventToConfirm(event);
+      return;
+    }
+    saveEvent(event);
+  };
+
+  const confirmReplace = () => {
+    setIsReplaceConfirmed(true); // Asked once: the next taps come before the events are reloaded
+    saveEvent(eventToConfirm);
+    setEventToConfirm(null);
+  };
+
+  // Tap on one of the big buttons
+  const startAction = (type: PendingAction['type'], teamId?: string) => {
+    const minute = stopwatch.currentMinute;
+    const addedMinute = stopwatch.addedMinute;
+    const period = stopwatch.currentLabel;
+    if (teamId && teamId !== ownTeam?.id) {
+      // Opponent events are recorded straight away, their players aren't in the roster
+      recordEvent({ event_type: type as MatchEventType, team_id: teamId, minute, added_minute: addedMinute, period });
+      return;
+    }
+    setPending({ type, minute, addedMinute, period, step: 'player' });
+  };
+
+  const handlePlayerSelected = (playerId: string) => {
+    if (!pending) return;
+    switch (pending.step) {
+      case 'player':
+        if (pending.type === 'goal') {
+          setPending({ ...pending, playerId, step: 'goal_type' });
+        } else if (pending.type === 'substitution') {
+          setPending({ ...pending, playerId, step: 'related_player' });
+        } else if (pending.type === 'assist') {
+          addAssistToLastGoal(playerId);
+        } else {
+          recordEvent({ event_type: pending.type, team_id: ownTeam.id, player_id: playerId, minute: pending.minute, added_minute: pending.addedMinute, period: pending.period });
+        }
+        break;
+      case 'related_player':
+        recordEvent({
+          event_type: pending.type as MatchEventType,
+          team_id: ownTeam.id,
+          player_id: pending.playerId,
+          related_player_id: playerId,
+          goal_type: pending.goalType ?? null,
+          minute: pending.minute,
+          added_minute: pending.addedMinute,
+          period: pending.period,
+        });
+        break;
+    }
+  };
+
+  const finishGoalWithoutAssist = () => {
+    recordEvent({ event_type: 'goal', team_id: ownTeam.id, player_id: pending.playerId, goal_type: pending.goalType, minute: pending.minute, added_minute: pending.addedMinute, period: pending.period });
+  };
+
+  // The assist button completes our latest goal that has no assist yet
+  const addAssistToLastGoal = (playerId: string) => {
+    const lastGoal = [...(events || [])].reverse().find(event =>
+      event.event_type === 'goal' && event.team_id === ownTeam.id && !event.related_player_id);
+    setPending(null);
+    if (!lastGoal) {
+      showError('Nessun gol senza assist a cui collegarlo.');
+      return;
+    }
+    if (lastGoal.player_id === playerId) {
+      showError('Chi fa l\'assist deve essere diverso da chi segna.');
+      return;
+    }
+    updateEventMutation.mutate({ event: lastGoal, changes: { related_player_id: playerId } }, {
+      onSuccess: () => showSuccess(`Assist aggiunto al gol del ${formatEventMinute(lastGoal)}`),
+    });
+  };
+
+  const isSaving = addEventMutation.isPending || updateEventMutation.isPending;
+  const bigButton = 'h-20 text-lg';
+
+  return (
+    <div className="container mx-auto py-8">
+      <Button asChild variant="ghost" className="mb-4">
+        <Link to={`/matches/${match.id}`}><ArrowLeftIcon className="mr-2 h-4 w-4" /> Dettaglio partita</Link>
+      </Button>
+
+      {/* Score, kept up to date from the events */}
+      <div className="mb-6 flex flex-wrap items-center justify-center gap-6 text-2xl font-bold">
+        <TeamName team={match.home_team} />
+        <span className="font-mono text-4xl">{score.home_goals} - {score.away_goals}</span>
+        <TeamName team={match.away_team} />
+      </div>
+
+      <div className="mb-6">
+        <Stopwatch stopwatch={stopwatch} />
+      </div>
+
+      {!ownTeam && (
+        <p className="mb-4 text-center text-muted-foreground">
+          Nessuna delle due squadre è indicata come la nostra: si possono registrare solo i gol.
+        </p>
+      )}
+
+      {/* One-tap buttons */}
+      <div className="mb-8 grid grid-cols-2 gap-3 md:grid-cols-3">
+        {[match.home_team, match.away_team].map((team, index) => {
+          const teamId = index === 0 ? match.home_team_id : match.away_team_id;
+          return (
+            <Button key={teamId} className={bigButton} disabled={isSaving} onClick={() => startAction('goal', teamId)}>
+              <TrophyIcon className="mr-2 h-6 w-6" /> Gol {team?.short_name || team?.name || teamId}
+            </Button>
+          );
+        })}
+        <Button className={bigButton} variant="secondary" disabled={!ownTeam || isSaving} onClick={() => startAction('assist')}>
+          <HandshakeIcon className="mr-2 h-6 w-6" /> Assist
+        </Button>
+        <Button className={bigButton} variant="secondary" disabled={!ownTeam || isSaving} onClick={() => startAction('yellow_card')}>
+          <SquareIcon className="mr-2 h-6 w-6 fill-yellow-400 text-yellow-500" /> Giallo
+        </Button>
+        <Button className={bigButton} variant="secondary" disabled={!ownTeam || isSaving} onClick={() => startAction('red_card')}>
+          <SquareIcon className="mr-2 h-6 w-6 fill-red-500 text-red-600" /> Rosso
+        </Button>
+        <Button className={bigButton} variant="secondary" disabled={!ownTeam || isSaving} onClick={() => startAction('substitution')}>
+          <ArrowRightLeftIcon className="mr-2 h-6 w-6" /> Sostituzione
+        </Button>
+      </div>
+
+      {/* Timeline, with delete to undo mistakes */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Cronologia</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MatchTimeline
+            match={match}
+            events={[...(events || [])].reverse()}
+            players={players || []}
+            onDelete={(event) => deleteEventMutation.mutate(event)}
+            isDeleting={deleteEventMutation.isPending}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Completes the tapped action */}
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-xl">
+          {pending && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{dialogTitles[pending.step][pending.type]}</DialogTitle>
+                <DialogDescription>
+                  {formatEventMinute({ minute: pending.minute, added_minute: pending.addedMinute })}{pending.period && ` · ${pending.period}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              {pending.step === 'goal_type' ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.entries(goalTypeLabels).map(([goalType, label]) => (
+                    <Button key={goalType} variant="outline" className="h-16 text-lg" onClick={() => setPending({ ...pending, goalType: goalType as GoalType, step: 'related_player' })}>
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <PlayerGrid
+                  players={activePlayers}
+                  excludeId={pending.step === 'related_player' ? pending.playerId : undefined}
+                  onSelect={handlePlayerSelected}
+                />
+              )}
+
+              {/* Extra choices that don't involve one of our players */}
+              {pending.step === 'player' && pending.type === 'goal' && (
+                <Button variant="secondary" onClick={() => recordEvent({ event_type: 'own_goal', team_id: ownTeam.id, minute: pending.minute, added_minute: pending.addedMinute, period: pending.period })}>
+                  Autogol avversario
+                </Button>
+              )}
+              {pending.step === 'player' && (pending.type === 'yellow_card' || pending.type === 'red_card') && (
+                <Button variant="secondary" onClick={() => recordEvent({ event_type: pending.type as MatchEventType, team_id: opponentTeamId, minute: pending.minute, added_minute: pending.addedMinute, period: pending.period })}>
+                  Giocatore avversario
+                </Button>
+              )}
+              {pending.step === 'related_player' && pending.type === 'goal' && (
+                <Button variant="secondary" onClick={finishGoalWithoutAssist}>
+                  Nessun assist
+                </Button>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ReplaceStatsDialog
+        statCount={replacedStatCount}
+        open={!!eventToConfirm}
+        onConfirm={confirmReplace}
+        onCancel={() => setEventToConfirm(null)}
+      />
+    </div>
+  );
+};
+
+export default LiveMatchPage;
@@ -1,14 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
 import { showSuccess, showError } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { DEMO_DOMAIN, DEMO_PASSWORD, isDemoBackend } from '@/lib/repositories';
 
 import { Button } from '@/components/ui/button';
 import {
   Card,
   CardContent,
+  CardDescription,
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
@@ -24,7 +27,7 @@ import { Input } from '@/components/ui/input';
 
 // Define the schema for the form using Zod
 const loginFormSchema = z.object({
-  id: z.string().min(1, { message: 'L\'ID è richiesto.' }),
+  email: z.string().min(1, { message: 'L\'email è richiesta.' }).email({ message: 'Inserisci un\'email valida.' }),
   password: z.string().min(1, { message: 'La password è richiesta.' }),
 });
 
@@ -32,58 +35,65 @@ type LoginFormValues = z.infer<typeof loginFormSchema>;
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { session, isLoading, signIn } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Page the user tried to open before being redirected here by ProtectedRoute
+  const redirectTo = (location.state as { from?: Location } | null)?.from?.pathname || '/';
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginFormSchema),
     defaultValues: {
-      id: '',
+      email: '',
       password: '',
     },
   });
 
-  const onSubmit = (values: LoginFormValues) => {
-    // Get ID and password from environment variables
-    const correctId = import.meta.env.VITE_APP_SINGLE_USER_ID;
-    const correctPassword = import.meta.env.VITE_APP_SINGLE_PASSWORD;
-
-    // Check if environment variables are set
-    if (!correctId || !correctPassword) {
-      console.error("VITE_APP_SINGLE_USER_ID or VITE_APP_SINGLE_PASSWORD not set in environment variables.");
-      showError("Errore di configurazione: ID o Password non impostati.");
-      return;
-    }
-
-    // Check if entered ID and password match the environment variables
-    if (values.id === correctId && values.password === correctPassword) {
-      // Simulate successful login
-      localStorage.setItem('isLoggedIn', 'true');
+  const onSubmit = async (values: LoginFormValues) => {
+    setIsSubmitting(true);
+    try {
+      await signIn(values.email, values.password);
       showSuccess('Accesso effettuato con successo!');
-      navigate('/'); // Redirect to the dashboard or home page
-    } else {
-      showError('ID o password errati.');
-      // Optionally reset the form or specific fields on failure
-      form.reset({ id: values.id, password: '' }); // Keep ID, clear password
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      console.error('Error signing in:', error);
+      showError('Email o password errati.');
+      form.reset({ email: values.email, password: '' }); // Keep email, clear password
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
+  // Already logged in: skip the form
+  if (!isLoading && session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-white to-blue-100 dark:from-gray-900 dark:to-blue-900">
       <Card className="w-full max-w-sm">
         <CardHeader>
           <CardTitle className="text-2xl text-center">Accedi</CardTitle>
+          {/* Demo data: one account per role (see createDemoSession) */}
+          {isDemoBackend && (
+            <CardDescription className="text-center">
+              Modalità demo: accedi come admin@{DEMO_DOMAIN}, coach@{DEMO_DOMAIN} o viewer@{DEMO_DOMAIN} con la password "{DEMO_PASSWORD}".
+            </CardDescription>
+          )}
         </CardHeader>
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              {/* ID Field */}
+              {/* Email Field */}
               <FormField
                 control={form.control}
-                name="id"
+                name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>ID</FormLabel>
+                    <FormLabel>Email</FormLabel>
                     <FormControl>
-                      <Input placeholder="Inserisci il tuo ID" {...field} />
+                      <Input type="email" autoComplete="email" placeholder="Inserisci la tua email" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -98,15 +108,15 @@ const LoginPage: React.FC = () => {
                   <FormItem>
                     <FormLabel>Password</FormLabel>
                     <FormControl>
-                      <Input type="password" placeholder="Inserisci la password" {...field} />
+                      <Input type="password" autoComplete="current-password" placeholder="Inserisci la password" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
-              <Button type="submit" className="w-full">
-                Accedi
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? 'Accesso in corso...' : 'Accedi'}
               </Button>
             </form>
           </Form>
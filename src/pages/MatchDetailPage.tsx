@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { ArrowLeftIcon, RadioIcon } from 'lucide-react';
+import { showSuccess } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useSeason } from '@/hooks/use-season';
+import { useMatch } from '@/hooks/use-match';
+import { useMatchEvents } from '@/hooks/use-match-events';
+import { useMatchPlayerStats } from '@/hooks/use-match-player-stats';
+import { usePlayers } from '@/hooks/use-players';
+import { useAddMatchEvent, useDeleteMatchEvent, NewMatchEvent } from '@/hooks/use-match-event-mutations';
+import { countStatsReplacedByEvents, deriveScore, eventTypeLabels, goalTypeLabels, relatedPlayerLabels } from '@/lib/matchEvents';
+import { formatPlayerName } from '@/lib/players';
+import { getCompetitionName } from '@/lib/matches';
+import Combobox from '@/components/Combobox';
+import TeamName from '@/components/TeamName';
+import MatchTimeline from '@/components/MatchTimeline';
+import MatchReportButton from '@/components/MatchReportButton';
+import ReplaceStatsDialog from '@/components/ReplaceStatsDialog';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+
+// Define the schema for the event form using Zod
+const matchEventFormSchema = z.object({
+  minute: z.coerce.number().int().min(0, { message: 'Minuto non valido.' }).max(150, { message: 'Minuto non valido.' }),
+  added_minute: z.coerce.number().int().min(0, { message: 'Recupero non valido.' }).max(30, { message: 'Recupero non valido.' }).default(0),
+  event_type: z.enum(['goal', 'own_goal', 'yellow_card', 'red_card', 'substitution']),
+  team_id: z.string().min(1, { message: 'La squadra è richiesta.' }),
+  player_id: z.string().optional(),
+  related_player_id: z.string().optional(),
+  goal_type: z.enum(['right_foot', 'left_foot', 'header', 'penalty']).optional(),
+}).refine(values => !values.related_player_id || values.related_player_id !== values.player_id, {
+  message: 'Seleziona un calciatore diverso.',
+  path: ['related_player_id'],
+});
+
+type MatchEventFormValues = z.infer<typeof matchEventFormSchema>;
+
+const MatchDetailPage = () => {
+  const { matchId } = useParams<{ matchId: string }>();
+  const { can } = useAuth();
+  const { isFrozen } = useSeason();
+
+  const { data: match, isLoading: isLoadingMatch, error: matchError } = useMatch(matchId);
+  const { data: events, isLoading: isLoadingEvents, error: eventsError } = useMatchEvents(matchId);
+  const { data: players, isLoading: isLoadingPlayers } = usePlayers();
+  const { data: matchStats } = useMatchPlayerStats(matchId);
+  const addEventMutation = useAddMatchEvent(matchId);
+  const deleteEventMutation = useDeleteMatchEvent();
+
+  const form = useForm<MatchEventFormValues>({
+    resolver: zodResolver(matchEventFormSchema),
+    defaultValues: {
+      minute: 0,
+      added_minute: 0,
+      event_type: 'goal',
+      team_id: '',
+      player_id: '',
+      related_player_id: '',
+      goal_type: 'right_foot',
+    },
+  });
+
+  // First event of a match with hand-entered stats, waiting for the user to confirm the replacement
+  const [eventToConfirm, setEventToConfirm] = useState<{ event: NewMatchEvent; values: MatchEventFormValues } | null>(null);
+
+  const eventType = form.watch('event_type');
+  const teamId = form.watch('team_id');
+
+  if (isLoadingMatch || isLoadingEvents || isLoadingPlayers) {
+    return <div className="container mx-auto py-8">Caricamento partita...</div>;
+  }
+
+  if (matchError || eventsError) {
+    const error = matchError || eventsError;
+    console.error('Error fetching match details:', error);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento della partita: {error.message}</div>;
+  }
+
+  // Matches of archived seasons are read-only
+  const canWrite = can('write') && !isFrozen(match.match_date);
+
+  // An own goal is credited to one team but scored by a player of the other one
+  const otherTeam = teamId === match.home_team_id ? match.away_team : match.home_team;
+  const creditedTeam = teamId === match.home_team_id ? match.home_team : match.away_team;
+  const playerTeam = eventType === 'own_goal' ? otherTeam : creditedTeam;
+  // Only our own players are in the roster
+  const showPlayerPickers = !!teamId && !!playerTeam?.is_own_club;
+  const relatedLabel = relatedPlayerLabels[eventType];
+
+  const playerOptions = (players || [])
+    .filter(player => player.is_active)
+    .map(player => ({ value: player.id, label: formatPlayerName(player) }));
+
+  const replacedStatCount = countStatsReplacedByEvents(matchStats || [], events || []);
+  // Worked out here too, so events still waiting in the offline outbox already count
+  const score = events?.length ? deriveScore(events, match) : match;
+
+  const saveEvent = (event: NewMatchEvent, values: MatchEventFormValues) => {
+    addEventMutation.mutate(event, {
+      onSuccess: () => {
+        showSuccess('Evento aggiunto!');
+        // Keep minute and team for quick entry of consecutive events
+        form.reset({ ...values, player_id: '', related_player_id: '' });
+      },
+    });
+  };
+
+  const onSubmit = (values: MatchEventFormValues) => {
+    const event: NewMatchEvent = {
+      minute: values.minute,
+      added_minute: values.added_minute || null,
+      period: null,
+      event_type: values.event_type,
+      team_id: values.team_id,
+      player_id: showPlayerPickers && values.player_id ? values.player_id : null,
+      related_player_id: showPlayerPickers && relatedLabel && values.related_player_id ? values.related_player_id : null,
+      goal_type: values.event_type === 'goal' ? values.goal_type || 'right_foot' : null,
+    };
+    if (replacedStatCount > 0) {
+      setEventToConfirm({ event, values });
+      return;
+    }
+    saveEvent(event, values);
+  };
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-4 flex justify-between">
+        <Button asChild variant="ghost">
+          <Link to="/matches"><ArrowLeftIcon className="mr-2 h-4 w-4" /> Partite</Link>
+        </Button>
+        <div className="flex gap-2">
+          <MatchReportButton match={match} />
+          {canWrite && (
+            <Button asChild>
+              <Link to={`/matches/${match.id}/live`}><RadioIcon className="mr-2 h-4 w-4" /> Modalità Live</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Match header with the score derived from the events */}
+      <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle className="text-base font-normal text-muted-foreground">
+            {format(new Date(match.match_date), 'PPP')}{getCompetitionName(match) && ` · ${getCompetitionName(match)}`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center justify-center gap-6 text-2xl font-bold">
+            <TeamName team={match.home_team} />
+            <span className="font-mono text-4xl">{score.home_goals} - {score.away_goals}</span>
+            <TeamName team={match.away_team} />
+          </div>
+          {match.notes && <p className="mt-4 text-center text-muted-foreground">{match.notes}</p>}
+        </CardContent>
+      </Card>
+
+      {/* Add event form */}
+      {canWrite && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>Aggiungi Evento</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="flex flex-wrap gap-4">
+                  {/* Minuto */}
+                  <FormField
+                    control={form.control}
+                    name="minute"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minuto</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} className="w-[100px]" {...field} onChange={event => field.onChange(+event.target.value)} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Recupero */}
+                  <FormField
+                    control={form.control}
+                    name="added_minute"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Recupero (+)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} className="w-[100px]" {...field} onChange={event => field.onChange(+event.target.value)} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Tipo evento */}
+                  <FormField
+                    control={form.control}
+                    name="event_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Evento</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="w-[200px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(eventTypeLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Squadra */}
+                  <FormField
+                    control={form.control}
+                    name="team_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{eventType === 'own_goal' ? 'Gol a favore di' : 'Squadra'}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="w-[220px]">
+                              <SelectValue placeholder="Seleziona la squadra" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={match.home_team_id}>{match.home_team?.name ?? match.home_team_id}</SelectItem>
+                            <SelectItem value={match.away_team_id}>{match.away_team?.name ?? match.away_team_id}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Tipo di gol */}
+                  {eventType === 'goal' && (
+                    <FormField
+                      control={form.control}
+                      name="goal_type"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tipo di Gol</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger className="w-[160px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.entries(goalTypeLabels).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                {/* Calciatori, only for our own team */}
+                {showPlayerPickers && (
+                  <div className="flex flex-wrap gap-4">
+                    <FormField
+                      control={form.control}
+                      name="player_id"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-col">
+                          <FormLabel>{eventType === 'substitution' ? 'Esce' : 'Calciatore'}</FormLabel>
+                          <FormControl>
+                            <Combobox
+                              className="w-[260px]"
+                              options={playerOptions}
+                              value={field.value}
+                              onChange={field.onChange}
+                              placeholder="Seleziona un calciatore"
+                              searchPlaceholder="Cerca per nome o numero..."
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {relatedLabel && (
+                      <FormField
+                        control={form.control}
+                        name="related_player_id"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-col">
+                            <FormLabel>{relatedLabel}</FormLabel>
+                            <FormControl>
+                              <Combobox
+                                className="w-[260px]"
+                                options={playerOptions}
+                                value={field.value}
+                                onChange={field.onChange}
+                                placeholder="Nessuno"
+                                searchPlaceholder="Cerca per nome o numero..."
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                <Button type="submit" disabled={addEventMutation.isPending}>
+                  {addEventMutation.isPending ? 'Aggiunta...' : 'Aggiungi Evento'}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Timeline */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Cronologia</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MatchTimeline
+            match={match}
+            events={events || []}
+            players={players || []}
+            onDelete={canWrite ? (event) => deleteEventMutation.mutate(event) : undefined}
+            isDeleting={deleteEventMutation.isPending}
+          />
+        </CardContent>
+      </Card>
+
+      <ReplaceStatsDialog
+        statCount={replacedStatCount}
+        open={!!eventToConfirm}
+        onConfirm={() => saveEvent(eventToConfirm.event, eventToConfirm.values)}
+        onCancel={() => setEventToConfirm(null)}
+      />
+    </div>
+  );
+};
+
+export default MatchDetailPage;
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftIcon, CheckIcon } from 'lucide-react';
+import { repositories } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { useMatches } from '@/hooks/use-matches';
+import { formatMatchLabel } from '@/lib/matches';
+import { suggestMatches, MatchSuggestion } from '@/lib/fuzzyMatch';
+import Combobox from '@/components/Combobox';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Suggestions scoring at least this much are considered reliable
+const GOOD_MATCH_SCORE = 0.75;
+
+// Stat rows sharing the same free-text description, linked together
+interface UnlinkedGroup {
+  matchDetails: string;
+  rowCount: number;
+  suggestions: MatchSuggestion[];
+}
+
+const MatchLinkingPage = () => {
+  const queryClient = useQueryClient();
+  // Match chosen by the user for each description, overriding the best suggestion
+  const [selectedMatchIds, setSelectedMatchIds] = useState<Record<string, string>>({});
+
+  // Stat rows that only have the old free-text match description
+  const { data: unlinkedStats, isLoading: isLoadingStats, error: statsError } = useQuery<{ id: string; match_details: string }[]>({
+    queryKey: ['playerStats', 'unlinked'],
+    queryFn: () => repositories.playerStats.listUnlinked(),
+  });
+
+  const { data: matches, isLoading: isLoadingMatches, error: matchesError } = useMatches('all'); // Legacy rows can belong to any season
+
+  const groups = useMemo<UnlinkedGroup[]>(() => {
+    if (!unlinkedStats || !matches) return [];
+    const counts = new Map<string, number>();
+    unlinkedStats.forEach(stat => counts.set(stat.match_details, (counts.get(stat.match_details) || 0) + 1));
+    return Array.from(counts.entries())
+      .map(([matchDetails, rowCount]) => ({ matchDetails, rowCount, suggestions: suggestMatches(matchDetails, matches) }))
+      .sort((a, b) => a.matchDetails.localeCompare(b.matchDetails));
+  }, [unlinkedStats, matches]);
+
+  // Link every unlinked row with this description to the chosen match
+  const linkMutation = useMutation({
+    mutationFn: async ({ matchDetails, matchId }: { matchDetails: string; matchId: string }) => {
+      await repositories.playerStats.linkToMatch(matchDetails, matchId);
+    },
+    onSuccess: (_data, { matchDetails }) => {
+      queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+      queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+      showSuccess(`"${matchDetails}" collegata alla partita.`);
+    },
+    onError: (error: Error) => {
+      console.error('Error linking player stats to match:', error);
+      showError(`Errore durante il collegamento: ${error.message}`);
+    },
+  });
+
+  if (isLoadingStats || isLoadingMatches) {
+    return <div className="container mx-auto py-8">Caricamento dati...</div>;
+  }
+
+  if (statsError || matchesError) {
+    const error = statsError || matchesError;
+    console.error('Error fetching data for match linking:', error);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento dei dati: {error.message}</div>;
+  }
+
+  const matchOptions = (matches || []).map(match => ({ value: match.id, label: formatMatchLabel(match) }));
+
+  return (
+    <div className="container mx-auto py-8">
+      <Button asChild variant="ghost" className="mb-4">
+        <Link to="/player-stats"><ArrowLeftIcon className="mr-2 h-4 w-4" /> Statistiche Calciatore</Link>
+      </Button>
+      <h1 className="text-3xl font-bold mb-6">Collega Statistiche alle Partite</h1>
+
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Descrizioni da collegare</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {groups.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Descrizione</TableHead>
+                  <TableHead>Righe</TableHead>
+                  <TableHead>Partita</TableHead>
+                  <TableHead>Affidabilità</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => {
+                  const bestSuggestion = group.suggestions[0];
+                  const selectedMatchId = selectedMatchIds[group.matchDetails] ?? bestSuggestion?.match.id ?? '';
+                  const selectedSuggestion = group.suggestions.find(suggestion => suggestion.match.id === selectedMatchId);
+                  const isManualChoice = selectedMatchId !== '' && selectedMatchId !== bestSuggestion?.match.id;
+                  return (
+                    <TableRow key={group.matchDetails}>
+                      <TableCell className="font-medium">{group.matchDetails}</TableCell>
+                      <TableCell>{group.rowCount}</TableCell>
+                      <TableCell className="min-w-[320px]">
+                        <Combobox
+                          options={matchOptions}
+                          value={selectedMatchId}
+                          onChange={(matchId) => setSelectedMatchIds(prev => ({ ...prev, [group.matchDetails]: matchId }))}
+                          placeholder="Nessun suggerimento, scegli una partita"
+                          searchPlaceholder="Cerca partita..."
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {isManualChoice ? (
+                          <Badge variant="outline">Scelta manuale</Badge>
+                        ) : selectedSuggestion ? (
+                          <Badge variant={selectedSuggestion.score >= GOOD_MATCH_SCORE ? 'default' : 'secondary'}>
+                            {Math.round(selectedSuggestion.score * 100)}%
+                          </Badge>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          disabled={!selectedMatchId || linkMutation.isPending}
+                          onClick={() => linkMutation.mutate({ matchDetails: group.matchDetails, matchId: selectedMatchId })}
+                        >
+                          <CheckIcon className="mr-2 h-4 w-4" /> Conferma
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Tutte le statistiche sono collegate a una partita.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MatchLinkingPage;
@@ -1,12 +1,31 @@
-import React, { useState, useEffect } from 'react'; // Import useState and useEffect
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'; // Import useState and useEffect
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { format } from 'date-fns';
-import { CalendarIcon, Trash2Icon, EditIcon } from 'lucide-react'; // Import Trash2Icon and EditIcon
-import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabaseClient';
+import { CalendarIcon, Trash2Icon, EditIcon, ListIcon, ArrowDownIcon, ArrowUpIcon, ArrowUpDownIcon } from 'lucide-react'; // Import Trash2Icon and EditIcon
+import { Link, useSearchParams } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { showSuccess, showError } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useSeason } from '@/hooks/use-season';
+import { useTeams } from '@/hooks/use-teams';
+import { fetchAllMatchListRows, useMatchList } from '@/hooks/use-match-list';
+import { useMatchIdsWithEvents } from '@/hooks/use-match-events';
+import { useCompetitions } from '@/hooks/use-competitions';
+import { useOutbox } from '@/hooks/use-outbox';
+import { newRowId, OutboxValues, pickColumns, submitWrite, withPendingWrites } from '@/lib/outbox';
+import { getCompetitionName, getOwnClubResult, getTeamName, outcomeLabels } from '@/lib/matches';
+import { competitionTypeLabels } from '@/lib/competitions';
+import { isDateInSeason } from '@/lib/seasons';
+import { matchFormSchema, MatchFormValues } from '@/lib/schemas';
+import { hasMatchListFilters, MATCH_LIST_PAGE_SIZE, MatchListParams, MatchListSort, parseMatchListParams, toMatchListSearchParams } from '@/lib/matchList';
+import MatchListFilters from '@/components/MatchListFilters';
+import ExportMenu from '@/components/ExportMenu';
+import { ExportColumn, exportFileName } from '@/lib/export';
+import Combobox from '@/components/Combobox';
+import TeamName, { TeamColors } from '@/components/TeamName';
+import PendingBadge from '@/components/PendingBadge';
+import type { Match, MatchWithTeams } from '@/types/match';
 
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -20,6 +39,13 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Popover,
   PopoverContent,
@@ -41,36 +67,78 @@ import {
 } from "@/components/ui/alert-dialog";
 
 
-// Define the schema for the form using Zod
-const matchFormSchema = z.object({
-  match_date: z.date({
-    required_error: 'La data della partita è richiesta.',
-  }),
-  home_team_id: z.string().min(1, { message: 'La squadra di casa è richiesta.' }),
-  away_team_id: z.string().min(1, { message: 'La squadra ospite è richiesta.' }),
-  competition: z.string().optional(),
-  home_goals: z.coerce.number().min(0, { message: 'I gol non possono essere negativi.' }),
-  away_goals: z.coerce.number().min(0, { message: 'I gol non possono essere negativi.' }),
-  notes: z.string().optional(),
+const NO_COMPETITION = 'none'; // Select items can't have an empty value
+
+// Columns of the exported matches list
+const matchExportColumns: ExportColumn<MatchWithTeams>[] = [
+  { header: 'Data', value: match => new Date(match.match_date) },
+  { header: 'Squadra Casa', value: match => getTeamName(match.home_team), width: 24 },
+  { header: 'Squadra Ospite', value: match => getTeamName(match.away_team), width: 24 },
+  { header: 'Gol casa', value: match => match.home_goals },
+  { header: 'Gol ospite', value: match => match.away_goals },
+  {
+    header: 'Esito', // From our club's side, empty when our club didn't play
+    value: (match) => {
+      const result = getOwnClubResult(match);
+      return result ? outcomeLabels[result.outcome] : '';
+    },
+  },
+  { header: 'Competizione', value: match => getCompetitionName(match), width: 20 },
+  { header: 'Note', value: match => match.notes, width: 40 },
+];
+
+// Columns written by the form
+const toMatchValues = (values: MatchFormValues): OutboxValues<'matches'> => ({
+  match_date: values.match_date.toISOString(),
+  home_team_id: values.home_team_id,
+  away_team_id: values.away_team_id,
+  competition_id: values.competition_id || null,
+  home_goals: values.home_goals,
+  away_goals: values.away_goals,
+  notes: values.notes,
 });
 
-type MatchFormValues = z.infer<typeof matchFormSchema>;
-
-// Define type for Match data fetched from DB
-interface Match {
-  id: string;
-  match_date: string; // Supabase returns timestamp as string
-  home_team_id: string;
-  away_team_id: string;
-  competition?: string;
-  home_goals: number;
-  away_goals: number;
-  notes?: string;
-}
+// Compared with the server row before an offline edit or delete is sent
+const matchColumns: (keyof Match)[] = ['match_date', 'home_team_id', 'away_team_id', 'competition_id', 'home_goals', 'away_goals', 'notes'];
+
+// Columns the form leaves out, for showing a match that is still waiting to be inserted
+const emptyMatch: Match = {
+  id: '',
+  match_date: '',
+  home_team_id: '',
+  away_team_id: '',
+  competition_id: null,
+  competition: null,
+  home_goals: 0,
+  away_goals: 0,
+  notes: null,
+};
 
+// Clickable column header showing the current sort direction
+const SortableHead: React.FC<{
+  sort: MatchListSort;
+  params: MatchListParams;
+  onSort: (sort: MatchListSort) => void;
+  children: React.ReactNode;
+}> = ({ sort, params, onSort, children }) => {
+  const SortIcon = params.sort !== sort ? ArrowUpDownIcon : params.dir === 'asc' ? ArrowUpIcon : ArrowDownIcon;
+  return (
+    <TableHead>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => onSort(sort)}>
+        {children}
+        <SortIcon className={cn('h-3 w-3', params.sort !== sort && 'opacity-40')} />
+      </button>
+    </TableHead>
+  );
+};
 
 const MatchesPage = () => {
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const { season, seasons, isFrozen } = useSeason();
+  // Viewers only get the read-only list, and archived seasons are read-only for everyone
+  const canWrite = can('write') && !season?.is_archived;
+  const canDelete = can('delete') && !season?.is_archived;
   const [editingMatchId, setEditingMatchId] = useState<string | null>(null); // State to track which match is being edited
 
   const form = useForm<MatchFormValues>({
@@ -78,7 +146,7 @@ const MatchesPage = () => {
     defaultValues: {
       home_goals: 0,
       away_goals: 0,
-      competition: '',
+      competition_id: '',
       notes: '',
       home_team_id: '',
       away_team_id: '',
@@ -86,26 +154,85 @@ const MatchesPage = () => {
     },
   });
 
-  // Fetch matches for the list
-  const { data: matches, isLoading: isLoadingMatches, error: matchesError } = useQuery<Match[]>({
-    queryKey: ['matches'],
-    queryFn: async () => {
-      const { data, error } = await supabase.from('matches').select('*').order('match_date', { ascending: false });
-      if (error) {
-        throw error;
-      }
-      return data || [];
-    },
-  });
+  // Filters, sorting and page live in the URL
+  const [searchParams, setSearchParams] = useSearchParams();
+  const listParams = useMemo(() => parseMatchListParams(searchParams), [searchParams]);
+  const updateListParams = useCallback((changes: Partial<MatchListParams>) => {
+    // Any change other than the page starts again from the first page
+    setSearchParams(toMatchListSearchParams({ ...listParams, page: 1, ...changes }), { replace: true });
+  }, [listParams, setSearchParams]);
+
+  // Fetch the current page of matches, with home and away team resolved
+  const { data: matchList, isLoading: isLoadingMatches, isFetching: isFetchingMatches, error: matchesError } = useMatchList(listParams);
+  const pageCount = Math.max(1, Math.ceil((matchList?.count ?? 0) / MATCH_LIST_PAGE_SIZE));
+
+  // A bookmarked page can be past the end once matches are deleted or the season changes
+  useEffect(() => {
+    if (matchList && listParams.page > pageCount) {
+      updateListParams({ page: pageCount });
+    }
+  }, [matchList, listParams.page, pageCount, updateListParams]);
+
+  const toggleSort = (sort: MatchListSort) => {
+    const dir = listParams.sort === sort && listParams.dir === 'asc' ? 'desc' : 'asc';
+    updateListParams({ sort, dir, page: listParams.page });
+  };
+
+  // Matches whose score comes from the event timeline
+  const { data: matchIdsWithEvents } = useMatchIdsWithEvents();
+  const isScoreFromEvents = !!editingMatchId && !!matchIdsWithEvents?.has(editingMatchId);
+
+  // Competitions of the season for the competition picker
+  const { data: competitions } = useCompetitions();
+
+  // Teams for the home/away pickers
+  const { data: teams, isLoading: isLoadingTeams } = useTeams();
+  const teamOptions = (teams || []).map(team => ({
+    value: team.id,
+    label: team.name,
+    keywords: team.short_name ? [team.short_name] : [],
+    icon: <TeamColors team={team} />,
+  }));
+
+  // The page as it will be once the offline outbox is sent: new matches on the first page, waiting edits applied
+  const { entries: outboxEntries } = useOutbox();
+  const pendingMatches = useMemo(() => {
+    const buildMatch = (values: OutboxValues<'matches'>, row: MatchWithTeams | null): MatchWithTeams => {
+      const match: Match = { ...(row ?? emptyMatch), ...values };
+      return {
+        ...match,
+        home_team: teams?.find(team => team.id === match.home_team_id) ?? null,
+        away_team: teams?.find(team => team.id === match.away_team_id) ?? null,
+        competition_info: competitions?.find(competition => competition.id === match.competition_id) ?? null,
+      };
+    };
+    const rows = withPendingWrites(matchList?.matches || [], outboxEntries, 'matches', buildMatch);
+    return listParams.page === 1 ? rows : rows.filter(item => item.pending?.operation !== 'insert');
+  }, [matchList, outboxEntries, teams, competitions, listParams.page]);
+  const matches = useMemo(() => pendingMatches.map(item => item.row), [pendingMatches]);
+
+  // "15/09/2024 Casa - Ospite", to tell the waiting writes apart
+  const describeMatch = (values: { match_date?: Date | string; home_team_id?: string; away_team_id?: string }) => {
+    const teamName = (teamId: string) => getTeamName(teams?.find(team => team.id === teamId));
+    return `Partita ${format(new Date(values.match_date), 'dd/MM/yyyy')} ${teamName(values.home_team_id)} - ${teamName(values.away_team_id)}`;
+  };
+
+  // Read by the effect below without being one of its dependencies: the list changes with every outbox
+  // change (e.g. the queue draining on reconnect), which must not wipe a form being typed in
+  const matchesRef = useRef(matches);
+  matchesRef.current = matches;
 
   // Effect to populate form when editingMatchId changes
   useEffect(() => {
-    if (editingMatchId && matches) {
-      const matchToEdit = matches.find(match => match.id === editingMatchId);
+    if (editingMatchId) {
+      const matchToEdit = matchesRef.current.find(match => match.id === editingMatchId);
       if (matchToEdit) {
         // Reset form with data from the match being edited
         form.reset({
-          ...matchToEdit,
+          home_team_id: matchToEdit.home_team_id,
+          away_team_id: matchToEdit.away_team_id,
+          competition_id: matchToEdit.competition_id || '',
+          notes: matchToEdit.notes || '',
           match_date: new Date(matchToEdit.match_date), // Convert string date back to Date object
           home_goals: matchToEdit.home_goals, // Ensure numbers are numbers
           away_goals: matchToEdit.away_goals, // Ensure numbers are numbers
@@ -116,42 +243,34 @@ const MatchesPage = () => {
       form.reset({
         home_goals: 0,
         away_goals: 0,
-        competition: '',
+        competition_id: '',
         notes: '',
         home_team_id: '',
         away_team_id: '',
         match_date: undefined,
       });
     }
-  }, [editingMatchId, matches, form]);
+  }, [editingMatchId, form]);
 
 
   // Mutation for adding a new match
   const addMatchMutation = useMutation({
-    mutationFn: async (newMatch: MatchFormValues) => {
-      const { data, error } = await supabase.from('matches').insert([
-        {
-          match_date: newMatch.match_date.toISOString(),
-          home_team_id: newMatch.home_team_id,
-          away_team_id: newMatch.away_team_id,
-          competition: newMatch.competition,
-          home_goals: newMatch.home_goals,
-          away_goals: newMatch.away_goals,
-          notes: newMatch.notes,
-        },
-      ]).select();
-      if (error) {
-        throw error;
-      }
-      return data;
-    },
-    onSuccess: () => {
+    // Offline the match waits in the outbox, see SyncStatus
+    mutationFn: (newMatch: MatchFormValues) => submitWrite({
+      table: 'matches',
+      operation: 'insert',
+      rowId: newRowId(),
+      values: toMatchValues(newMatch),
+      base: null,
+      label: describeMatch(newMatch),
+    }),
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ['matches'] });
-      showSuccess('Partita aggiunta con successo!');
+      showSuccess(queued ? 'Partita salvata sul dispositivo: verrà inviata appena torna la connessione.' : 'Partita aggiunta con successo!');
       form.reset({ // Reset form but keep team names for quick entry
         home_goals: 0,
         away_goals: 0,
-        competition: '',
+        competition_id: '',
         notes: '',
         match_date: undefined,
         home_team_id: form.getValues('home_team_id'),
@@ -167,29 +286,27 @@ const MatchesPage = () => {
   // Mutation for updating an existing match
   const updateMatchMutation = useMutation({
     mutationFn: async (updatedMatch: MatchFormValues) => {
-      if (!editingMatchId) throw new Error("No match ID provided for update.");
-      const { data, error } = await supabase.from('matches').update({
-        match_date: updatedMatch.match_date.toISOString(),
-        home_team_id: updatedMatch.home_team_id,
-        away_team_id: updatedMatch.away_team_id,
-        competition: updatedMatch.competition,
-        home_goals: updatedMatch.home_goals,
-        away_goals: updatedMatch.away_goals,
-        notes: updatedMatch.notes,
-      }).eq('id', editingMatchId).select();
-      if (error) {
-        throw error;
-      }
-      return data;
+      const matchToEdit = matches.find(match => match.id === editingMatchId);
+      if (!matchToEdit) throw new Error("No match ID provided for update.");
+      const values = toMatchValues(updatedMatch);
+      return submitWrite({
+        table: 'matches',
+        operation: 'update',
+        rowId: matchToEdit.id,
+        values,
+        base: pickColumns(matchToEdit, matchColumns), // To spot changes made elsewhere meanwhile
+        label: describeMatch(updatedMatch),
+      });
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ['matches'] });
-      showSuccess('Partita modificata con successo!');
+      queryClient.invalidateQueries({ queryKey: ['playerStats'] }); // Stat rows show the linked match
+      showSuccess(queued ? 'Modifica salvata sul dispositivo: verrà inviata appena torna la connessione.' : 'Partita modificata con successo!');
       setEditingMatchId(null); // Exit editing mode
       form.reset({ // Reset form to default empty state after editing
         home_goals: 0,
         away_goals: 0,
-        competition: '',
+        competition_id: '',
         notes: '',
         home_team_id: '',
         away_team_id: '',
@@ -205,15 +322,19 @@ const MatchesPage = () => {
 
   // Mutation for deleting a match
   const deleteMatchMutation = useMutation({
-    mutationFn: async (matchId: string) => {
-      const { error } = await supabase.from('matches').delete().eq('id', matchId);
-      if (error) {
-        throw error;
-      }
-    },
-    onSuccess: () => {
+    mutationFn: (match: MatchWithTeams) => submitWrite({
+      table: 'matches',
+      operation: 'delete',
+      rowId: match.id,
+      values: null,
+      base: pickColumns(match, matchColumns),
+      label: describeMatch(match),
+    }),
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ['matches'] }); // Invalidate cache to refetch matches
-      showSuccess('Partita eliminata con successo!');
+      queryClient.invalidateQueries({ queryKey: ['playerStats'] }); // Stats of the match are deleted with it
+      queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+      showSuccess(queued ? 'Eliminazione salvata sul dispositivo: verrà inviata appena torna la connessione.' : 'Partita eliminata con successo!');
       if (editingMatchId) { // If the deleted match was being edited, exit editing mode
         setEditingMatchId(null);
       }
@@ -228,7 +349,7 @@ const MatchesPage = () => {
   const onSubmit = async (values: MatchFormValues) => {
     console.log('Form submitted with values:', values);
 
-    if (values.home_team_id.trim().toLowerCase() === values.away_team_id.trim().toLowerCase()) {
+    if (values.home_team_id === values.away_team_id) {
       form.setError('away_team_id', {
         type: 'manual',
         message: 'La squadra ospite deve essere diversa dalla squadra di casa.',
@@ -237,6 +358,20 @@ const MatchesPage = () => {
       return;
     }
 
+    // The date could move the match into an archived season
+    if (isFrozen(values.match_date)) {
+      form.setError('match_date', { type: 'manual', message: 'La data appartiene a una stagione archiviata.' });
+      return;
+    }
+
+    // A competition belongs to one season, so the match has to be played within it
+    const competition = competitions?.find(item => item.id === values.competition_id);
+    const competitionSeason = competition && seasons.find(item => item.id === competition.season_id);
+    if (competitionSeason && !isDateInSeason(competitionSeason, values.match_date)) {
+      form.setError('match_date', { type: 'manual', message: `La data è fuori dalla stagione ${competitionSeason.name} della competizione.` });
+      return;
+    }
+
     if (editingMatchId) {
       updateMatchMutation.mutate(values);
     } else {
@@ -244,11 +379,11 @@ const MatchesPage = () => {
     }
   };
 
-  const handleDeleteMatch = (matchId: string) => {
-    deleteMatchMutation.mutate(matchId);
+  const handleDeleteMatch = (match: MatchWithTeams) => {
+    deleteMatchMutation.mutate(match);
   };
 
-  const handleEditMatch = (match: Match) => {
+  const handleEditMatch = (match: MatchWithTeams) => {
     setEditingMatchId(match.id);
     // The useEffect hook will handle populating the form
   };
@@ -259,7 +394,7 @@ const MatchesPage = () => {
   };
 
 
-  if (isLoadingMatches) {
+  if (isLoadingMatches || isLoadingTeams) {
     return <div className="container mx-auto py-8">Caricamento partite...</div>;
   }
 
@@ -273,219 +408,292 @@ const MatchesPage = () => {
     <div className="container mx-auto py-8">
       <h1 className="text-3xl font-bold mb-6">Gestione Partite</h1>
 
-      {/* Form Card */}
-      <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
-        <CardHeader>
-          <CardTitle>{editingMatchId ? 'Modifica Partita' : 'Aggiungi Nuova Partita'}</CardTitle> {/* Dynamic title */}
-        </CardHeader>
-        <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              {/* Data Partita */}
-              <FormField
-                control={form.control}
-                name="match_date"
-                render={({ field }) => (
-                  <FormItem className="flex flex-col">
-                    <FormLabel>Data Partita</FormLabel>
-                    <Popover>
-                      <PopoverTrigger asChild>
+      {/* Form Card - only for users who can add and edit */}
+      {canWrite && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>{editingMatchId ? 'Modifica Partita' : 'Aggiungi Nuova Partita'}</CardTitle> {/* Dynamic title */}
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Data Partita */}
+                <FormField
+                  control={form.control}
+                  name="match_date"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Data Partita</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant={'outline'}
+                              className={cn(
+                                'w-[240px] pl-3 text-left font-normal',
+                                !field.value && 'text-muted-foreground',
+                              )}
+                            >
+                              {field.value ? (
+                                format(field.value, 'PPP')
+                              ) : (
+                                <span>Seleziona una data</span>
+                              )}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={field.onChange}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Squadra Casa - picked from the teams table */}
+                <FormField
+                  control={form.control}
+                  name="home_team_id"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Squadra Casa</FormLabel>
+                      <FormControl>
+                        <Combobox
+                          className="w-[280px]"
+                          options={teamOptions}
+                          value={field.value}
+                          onChange={field.onChange}
+                          placeholder="Seleziona la squadra di casa"
+                          searchPlaceholder="Cerca squadra..."
+                          emptyText="Nessuna squadra trovata. Aggiungila nella pagina Squadre."
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Squadra Ospite - picked from the teams table */}
+                <FormField
+                  control={form.control}
+                  name="away_team_id"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Squadra Ospite</FormLabel>
+                      <FormControl>
+                        <Combobox
+                          className="w-[280px]"
+                          options={teamOptions}
+                          value={field.value}
+                          onChange={field.onChange}
+                          placeholder="Seleziona la squadra ospite"
+                          searchPlaceholder="Cerca squadra..."
+                          emptyText="Nessuna squadra trovata. Aggiungila nella pagina Squadre."
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Competizione */}
+                <FormField
+                  control={form.control}
+                  name="competition_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Competizione</FormLabel>
+                      <Select value={field.value || NO_COMPETITION} onValueChange={value => field.onChange(value === NO_COMPETITION ? '' : value)}>
                         <FormControl>
-                          <Button
-                            variant={'outline'}
-                            className={cn(
-                              'w-[240px] pl-3 text-left font-normal',
-                              !field.value && 'text-muted-foreground',
-                            )}
-                          >
-                            {field.value ? (
-                              format(field.value, 'PPP')
-                            ) : (
-                              <span>Seleziona una data</span>
-                            )}
-                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                          </Button>
+                          <SelectTrigger className="w-[280px]">
+                            <SelectValue />
+                          </SelectTrigger>
                         </FormControl>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={field.value}
-                          onSelect={field.onChange}
-                          initialFocus
-                        />
-                      </PopoverContent>
-                    </Popover>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Squadra Casa - Changed to Input */}
-              <FormField
-                control={form.control}
-                name="home_team_id"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Squadra Casa</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Nome squadra di casa" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Squadra Ospite - Changed to Input */}
-              <FormField
-                control={form.control}
-                name="away_team_id"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Squadra Ospite</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Nome squadra ospite" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+                        <SelectContent>
+                          <SelectItem value={NO_COMPETITION}>Nessuna</SelectItem>
+                          {(competitions || []).map(competition => (
+                            <SelectItem key={competition.id} value={competition.id}>
+                              {competition.name} ({competitionTypeLabels[competition.type]})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Gol Casa */}
+                <FormField
+                  control={form.control}
+                  name="home_goals"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gol Casa</FormLabel>
+                      <FormControl>
+                        <Input type="number" disabled={isScoreFromEvents} {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Gol Ospite */}
+                <FormField
+                  control={form.control}
+                  name="away_goals"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gol Ospite</FormLabel>
+                      <FormControl>
+                        <Input type="number" disabled={isScoreFromEvents} {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {isScoreFromEvents && (
+                  <p className="text-sm text-muted-foreground">Il risultato è calcolato dalla cronologia degli eventi della partita.</p>
                 )}
-              />
-
-              {/* Competizione */}
-              <FormField
-                control={form.control}
-                name="competition"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Competizione</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Es. Campionato, Coppa" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Gol Casa */}
-              <FormField
-                control={form.control}
-                name="home_goals"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gol Casa</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Gol Ospite */}
-              <FormField
-                control={form.control}
-                name="away_goals"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gol Ospite</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Note */}
-              <FormField
-                control={form.control}
-                name="notes"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Note</FormLabel>
-                    <FormControl>
-                      <Textarea placeholder="Note sulla partita" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <div className="flex space-x-2"> {/* Button container */}
-                <Button type="submit" disabled={addMatchMutation.isPending || updateMatchMutation.isPending}>
-                  {editingMatchId ? (updateMatchMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addMatchMutation.isPending ? 'Aggiunta...' : 'Aggiungi Partita')} {/* Dynamic button text */}
-                </Button>
-                {editingMatchId && ( // Show Cancel button only when editing
-                  <Button type="button" variant="outline" onClick={handleCancelEdit}>
-                    Annulla Modifica
+
+                {/* Note */}
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Note</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Note sulla partita" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex space-x-2"> {/* Button container */}
+                  <Button type="submit" disabled={addMatchMutation.isPending || updateMatchMutation.isPending}>
+                    {editingMatchId ? (updateMatchMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addMatchMutation.isPending ? 'Aggiunta...' : 'Aggiungi Partita')} {/* Dynamic button text */}
                   </Button>
-                )}
-              </div>
-            </form>
-          </Form>
-        </CardContent>
-      </Card>
+                  {editingMatchId && ( // Show Cancel button only when editing
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Annulla Modifica
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
 
       {/* List of matches */}
       <Card className="bg-blue-50 dark:bg-blue-900">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Elenco Partite</CardTitle>
+          {/* Every page of the filtered list, in the order shown */}
+          <ExportMenu
+            fileName={exportFileName('partite', season?.name)}
+            sheetName="Partite"
+            columns={matchExportColumns}
+            getRows={() => fetchAllMatchListRows(season, listParams)}
+            disabled={!matchList?.count}
+          />
         </CardHeader>
         <CardContent>
+          <MatchListFilters params={listParams} onChange={updateListParams} />
           {matches && matches.length > 0 ? (
-            <Table>
+            <Table className={cn(isFetchingMatches && 'opacity-60')}>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Data</TableHead>
-                  <TableHead>Squadra Casa</TableHead>
-                  <TableHead>Squadra Ospite</TableHead>
+                  <SortableHead sort="match_date" params={listParams} onSort={toggleSort}>Data</SortableHead>
+                  <SortableHead sort="home_team_name" params={listParams} onSort={toggleSort}>Squadra Casa</SortableHead>
+                  <SortableHead sort="away_team_name" params={listParams} onSort={toggleSort}>Squadra Ospite</SortableHead>
                   <TableHead>Risultato</TableHead>
-                  <TableHead>Competizione</TableHead>
+                  <SortableHead sort="competition_name" params={listParams} onSort={toggleSort}>Competizione</SortableHead>
                   <TableHead>Note</TableHead>
                   <TableHead className="text-right">Azioni</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {matches.map((match) => (
-                  <TableRow key={match.id}>
-                    <TableCell className="font-medium">{format(new Date(match.match_date), 'PPP')}</TableCell>
-                    <TableCell>{match.home_team_id}</TableCell>
-                    <TableCell>{match.away_team_id}</TableCell>
+                {pendingMatches.map(({ row: match, pending }) => (
+                  <TableRow key={match.id} className={cn(pending?.operation === 'delete' && 'line-through opacity-60')}>
+                    <TableCell className="font-medium">
+                      {format(new Date(match.match_date), 'PPP')}
+                      {pending && <PendingBadge entry={pending} />}
+                    </TableCell>
+                    <TableCell><TeamName team={match.home_team} /></TableCell>
+                    <TableCell><TeamName team={match.away_team} /></TableCell>
                     <TableCell>{`${match.home_goals} - ${match.away_goals}`}</TableCell>
-                    <TableCell>{match.competition || '-'}</TableCell>
+                    <TableCell>{getCompetitionName(match) || '-'}</TableCell>
                     <TableCell>{match.notes || '-'}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-2"> {/* Container for action buttons */}
-                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditMatch(match)}> {/* Edit Button */}
-                          <EditIcon className="h-4 w-4" />
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="destructive" size="icon" className="h-8 w-8">
-                              <Trash2Icon className="h-4 w-4" />
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Questa azione non può essere annullata. Verrà eliminata definitivamente la partita selezionata.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Annulla</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => handleDeleteMatch(match.id)}>Elimina</AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                        {/* A match still in the outbox isn't on the server yet */}
+                        {pending?.operation !== 'insert' && (
+                          <Button asChild variant="outline" size="icon" className="h-8 w-8" title="Cronologia">
+                            <Link to={`/matches/${match.id}`}><ListIcon className="h-4 w-4" /></Link>
+                          </Button>
+                        )}
+                        {canWrite && pending?.operation !== 'delete' && (
+                          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditMatch(match)}> {/* Edit Button */}
+                            <EditIcon className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDelete && pending?.operation !== 'delete' && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="icon" className="h-8 w-8">
+                                <Trash2Icon className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Questa azione non può essere annullata. Verrà eliminata definitivamente la partita selezionata.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDeleteMatch(match)}>Elimina</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
+          ) : hasMatchListFilters(listParams) ? (
+            <p>Nessuna partita corrisponde ai filtri.</p>
           ) : (
-            <p>Nessuna partita trovata. Aggiungi una partita qui sopra.</p>
+            <p>Nessuna partita trovata.{canWrite && ' Aggiungi una partita qui sopra.'}</p>
+          )}
+
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <div className="mt-4 flex items-center justify-end gap-4">
+              <span className="text-sm text-muted-foreground">
+                Pagina {listParams.page} di {pageCount} · {matchList?.count} partite
+              </span>
+              <Button variant="outline" size="sm" disabled={listParams.page <= 1} onClick={() => updateListParams({ page: listParams.page - 1 })}>
+                Precedente
+              </Button>
+              <Button variant="outline" size="sm" disabled={listParams.page >= pageCount} onClick={() => updateListParams({ page: listParams.page + 1 })}>
+                Successiva
+              </Button>
+            </div>
           )}
         </CardContent>
       </Card>
@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftIcon, CheckIcon, UserPlusIcon, WandIcon } from 'lucide-react';
+import { getErrorCode, repositories } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { usePlayers } from '@/hooks/use-players';
+import { formatPlayerName } from '@/lib/players';
+import { suggestPlayers, PlayerSuggestion } from '@/lib/fuzzyMatch';
+import Combobox from '@/components/Combobox';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Suggestions scoring at least this much are considered reliable
+const GOOD_MATCH_SCORE = 0.75;
+
+// Stat rows sharing the same free-text player name, linked together
+interface UnlinkedGroup {
+  playerName: string;
+  rowCount: number;
+  suggestions: PlayerSuggestion[];
+}
+
+// A player can have one row per match: linking fails when the name has a row for a match the player already has
+const linkErrorMessage = (error: Error) =>
+  getErrorCode(error) === '23505'
+    ? 'il calciatore ha già una statistica per una delle partite di questo nome.'
+    : error.message;
+
+const PlayerLinkingPage = () => {
+  const queryClient = useQueryClient();
+  // Player chosen by the user for each name, overriding the best suggestion
+  const [selectedPlayerIds, setSelectedPlayerIds] = useState<Record<string, string>>({});
+
+  // Stat rows that only have the old free-text player name
+  const { data: unlinkedStats, isLoading: isLoadingStats, error: statsError } = useQuery<{ id: string; player_name: string }[]>({
+    queryKey: ['playerStats', 'unlinkedPlayers'],
+    queryFn: () => repositories.playerStats.listUnlinkedPlayers(),
+  });
+
+  const { data: players, isLoading: isLoadingPlayers, error: playersError } = usePlayers();
+
+  const groups = useMemo<UnlinkedGroup[]>(() => {
+    if (!unlinkedStats || !players) return [];
+    const counts = new Map<string, number>();
+    unlinkedStats.forEach(stat => counts.set(stat.player_name, (counts.get(stat.player_name) || 0) + 1));
+    return Array.from(counts.entries())
+      .map(([playerName, rowCount]) => ({ playerName, rowCount, suggestions: suggestPlayers(playerName, players) }))
+      .sort((a, b) => a.playerName.localeCompare(b.playerName));
+  }, [unlinkedStats, players]);
+
+  const invalidateStats = () => {
+    queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+    queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+  };
+
+  // Link every unlinked row with this name to the chosen player
+  const linkMutation = useMutation({
+    mutationFn: async ({ playerName, playerId }: { playerName: string; playerId: string }) => {
+      await repositories.playerStats.linkToPlayer(playerName, playerId);
+    },
+    onSuccess: (_data, { playerName }) => {
+      invalidateStats();
+      showSuccess(`"${playerName}" collegato al calciatore.`);
+    },
+    onError: (error: Error) => {
+      console.error('Error linking player stats to player:', error);
+      showError(`Errore durante il collegamento: ${linkErrorMessage(error)}`);
+    },
+  });
+
+  // A name of someone not in the roster yet: added as a player, then linked
+  const createAndLinkMutation = useMutation({
+    mutationFn: async (playerName: string) => {
+      const player = await repositories.players.create({
+        name: playerName.trim().replace(/\s+/g, ' '),
+        shirt_number: null,
+        position: null,
+        preferred_foot: null,
+        birth_date: null,
+        is_active: true,
+      });
+      await repositories.playerStats.linkToPlayer(playerName, player.id);
+    },
+    onSuccess: (_data, playerName) => {
+      queryClient.invalidateQueries({ queryKey: ['players'] });
+      invalidateStats();
+      showSuccess(`"${playerName}" aggiunto alla rosa e collegato.`);
+    },
+    onError: (error: Error) => {
+      console.error('Error creating player from legacy name:', error);
+      showError(`Errore durante la creazione del calciatore: ${linkErrorMessage(error)}`);
+    },
+  });
+
+  // Names written exactly as a roster player's, e.g. after entering the roster
+  const linkByNameMutation = useMutation({
+    mutationFn: () => repositories.playerStats.linkByPlayerName(),
+    onSuccess: (linked) => {
+      invalidateStats();
+      showSuccess(linked > 0 ? `${linked} statistiche collegate.` : 'Nessun nome corrisponde esattamente a un calciatore.');
+    },
+    onError: (error: Error) => {
+      console.error('Error linking player stats by name:', error);
+      showError(`Errore durante il collegamento: ${error.message}`);
+    },
+  });
+
+  if (isLoadingStats || isLoadingPlayers) {
+    return <div className="container mx-auto py-8">Caricamento dati...</div>;
+  }
+
+  if (statsError || playersError) {
+    const error = statsError || playersError;
+    console.error('Error fetching data for player linking:', error);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento dei dati: {error.message}</div>;
+  }
+
+  const playerOptions = (players || []).map(player => ({ value: player.id, label: formatPlayerName(player) }));
+  const isBusy = linkMutation.isPending || createAndLinkMutation.isPending || linkByNameMutation.isPending;
+
+  return (
+    <div className="container mx-auto py-8">
+      <Button asChild variant="ghost" className="mb-4">
+        <Link to="/player-stats"><ArrowLeftIcon className="mr-2 h-4 w-4" /> Statistiche Calciatore</Link>
+      </Button>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Collega Statistiche ai Calciatori</h1>
+        {groups.length > 0 && (
+          <Button variant="outline" disabled={isBusy} onClick={() => linkByNameMutation.mutate()}>
+            <WandIcon className="mr-2 h-4 w-4" /> Collega i nomi identici
+          </Button>
+        )}
+      </div>
+
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Nomi da collegare</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {groups.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Righe</TableHead>
+                  <TableHead>Calciatore</TableHead>
+                  <TableHead>Affidabilità</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => {
+                  const bestSuggestion = group.suggestions[0];
+                  const selectedPlayerId = selectedPlayerIds[group.playerName] ?? bestSuggestion?.player.id ?? '';
+                  const selectedSuggestion = group.suggestions.find(suggestion => suggestion.player.id === selectedPlayerId);
+                  const isManualChoice = selectedPlayerId !== '' && selectedPlayerId !== bestSuggestion?.player.id;
+                  return (
+                    <TableRow key={group.playerName}>
+                      <TableCell className="font-medium">{group.playerName}</TableCell>
+                      <TableCell>{group.rowCount}</TableCell>
+                      <TableCell className="min-w-[260px]">
+                        <Combobox
+                          options={playerOptions}
+                          value={selectedPlayerId}
+                          onChange={(playerId) => setSelectedPlayerIds(prev => ({ ...prev, [group.playerName]: playerId }))}
+                          placeholder="Nessun suggerimento, scegli un calciatore"
+                          searchPlaceholder="Cerca calciatore..."
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {isManualChoice ? (
+                          <Badge variant="outline">Scelta manuale</Badge>
+                        ) : selectedSuggestion ? (
+                          <Badge variant={selectedSuggestion.score >= GOOD_MATCH_SCORE ? 'default' : 'secondary'}>
+                            {Math.round(selectedSuggestion.score * 100)}%
+                          </Badge>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isBusy}
+                            onClick={() => createAndLinkMutation.mutate(group.playerName)}
+                          >
+                            <UserPlusIcon className="mr-2 h-4 w-4" /> Nuovo calciatore
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={!selectedPlayerId || isBusy}
+                            onClick={() => linkMutation.mutate({ playerName: group.playerName, playerId: selectedPlayerId })}
+                          >
+                            <CheckIcon className="mr-2 h-4 w-4" /> Conferma
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Tutte le statistiche sono collegate a un calciatore.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PlayerLinkingPage;
@@ -0,0 +1,291 @@
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeftIcon } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { usePlayer, usePlayerStatHistory } from '@/hooks/use-player';
+import { footLabels, getTotalGoals, positionLabels } from '@/lib/players';
+import { findSeasonForDate } from '@/lib/seasons';
+import { countsForStats } from '@/lib/matches';
+import { useSeason } from '@/hooks/use-season';
+import TeamName from '@/components/TeamName';
+import GoalTypeChart from '@/components/GoalTypeChart';
+import type { PlayerStat } from '@/types/playerStat';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+const trendChartConfig = {
+  goals: { label: 'Gol', color: '#2563eb' },
+  assists: { label: 'Assist', color: '#16a34a' },
+} satisfies ChartConfig;
+
+type StatTotals = Pick<PlayerStat, 'right_foot_goals' | 'left_foot_goals' | 'header_goals' | 'penalties' | 'assists' | 'yellow_cards' | 'red_cards'> & {
+  appearances: number;
+};
+
+const emptyTotals = (): StatTotals => ({
+  appearances: 0,
+  right_foot_goals: 0,
+  left_foot_goals: 0,
+  header_goals: 0,
+  penalties: 0,
+  assists: 0,
+  yellow_cards: 0,
+  red_cards: 0,
+});
+
+const addToTotals = (totals: StatTotals, stat: PlayerStat) => {
+  totals.appearances++;
+  totals.right_foot_goals += stat.right_foot_goals;
+  totals.left_foot_goals += stat.left_foot_goals;
+  totals.header_goals += stat.header_goals;
+  totals.penalties += stat.penalties;
+  totals.assists += stat.assists;
+  totals.yellow_cards += stat.yellow_cards;
+  totals.red_cards += stat.red_cards;
+};
+
+const TotalsCells = ({ totals }: { totals: StatTotals }) => (
+  <>
+    <TableCell>{totals.appearances}</TableCell>
+    <TableCell className="font-bold">{getTotalGoals(totals)}</TableCell>
+    <TableCell>{totals.assists}</TableCell>
+    <TableCell>{totals.right_foot_goals}</TableCell>
+    <TableCell>{totals.left_foot_goals}</TableCell>
+    <TableCell>{totals.header_goals}</TableCell>
+    <TableCell>{totals.penalties}</TableCell>
+    <TableCell>{totals.yellow_cards}</TableCell>
+    <TableCell>{totals.red_cards}</TableCell>
+  </>
+);
+
+const PlayerProfilePage = () => {
+  const { playerId } = useParams<{ playerId: string }>();
+  const { data: player, isLoading: isLoadingPlayer, error: playerError } = usePlayer(playerId);
+  const { data: stats, isLoading: isLoadingStats, error: statsError } = usePlayerStatHistory(playerId);
+  const { seasons } = useSeason(); // The profile spans every season, not only the selected one
+
+  // Stat rows that count for the official totals (friendlies don't)
+  const officialStats = useMemo(() => (stats || []).filter(stat => !stat.match || countsForStats(stat.match)), [stats]);
+
+  // Totals per season (rows without a linked match, or outside any season, go under "-")
+  const seasonTotals = useMemo(() => {
+    const bySeason = new Map<string, StatTotals>();
+    const overall = emptyTotals();
+    officialStats.forEach((stat) => {
+      const season = (stat.match && findSeasonForDate(seasons, stat.match.match_date)?.name) || '-';
+      if (!bySeason.has(season)) bySeason.set(season, emptyTotals());
+      addToTotals(bySeason.get(season), stat);
+      addToTotals(overall, stat);
+    });
+    return { seasons: Array.from(bySeason.entries()).reverse(), overall };
+  }, [officialStats, seasons]);
+
+  // Cumulative goals and assists, one point per match played
+  const trendData = useMemo(() => {
+    let goals = 0;
+    let assists = 0;
+    return officialStats.filter(stat => stat.match).map((stat) => {
+      goals += getTotalGoals(stat);
+      assists += stat.assists;
+      return { date: format(new Date(stat.match.match_date), 'dd/MM/yy'), goals, assists };
+    });
+  }, [officialStats]);
+
+  if (isLoadingPlayer || isLoadingStats) {
+    return <div className="container mx-auto py-8">Caricamento calciatore...</div>;
+  }
+
+  if (playerError || statsError) {
+    const error = playerError || statsError;
+    console.error('Error fetching player profile:', error);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento del calciatore: {error.message}</div>;
+  }
+
+  if (!player) {
+    return <div className="container mx-auto py-8">Calciatore non trovato.</div>;
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-4">
+        <Button asChild variant="ghost">
+          <Link to="/players"><ArrowLeftIcon className="mr-2 h-4 w-4" /> Rosa</Link>
+        </Button>
+      </div>
+
+      {/* Player header */}
+      <div className="mb-6 flex flex-wrap items-center gap-4">
+        <h1 className="text-3xl font-bold">
+          {player.shirt_number != null && <span className="mr-3 font-mono text-muted-foreground">{player.shirt_number}</span>}
+          {player.name}
+        </h1>
+        <Badge variant={player.is_active ? 'default' : 'secondary'}>{player.is_active ? 'Attivo' : 'Non attivo'}</Badge>
+        <span className="text-muted-foreground">
+          {[
+            player.position && positionLabels[player.position],
+            player.preferred_foot && `Piede ${footLabels[player.preferred_foot].toLowerCase()}`,
+            player.birth_date && `Nato il ${format(new Date(player.birth_date), 'dd/MM/yyyy')}`,
+          ].filter(Boolean).join(' · ')}
+        </span>
+      </div>
+
+      {/* Season totals */}
+      <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Totali per Stagione (partite ufficiali)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {officialStats.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stagione</TableHead>
+                  <TableHead>Presenze</TableHead>
+                  <TableHead>Gol</TableHead>
+                  <TableHead>Assist</TableHead>
+                  <TableHead>Gol D</TableHead>
+                  <TableHead>Gol S</TableHead>
+                  <TableHead>Gol T</TableHead>
+                  <TableHead>Rigori</TableHead>
+                  <TableHead>Gialli</TableHead>
+                  <TableHead>Rossi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {seasonTotals.seasons.map(([season, totals]) => (
+                  <TableRow key={season}>
+                    <TableCell className="font-medium">{season}</TableCell>
+                    <TotalsCells totals={totals} />
+                  </TableRow>
+                ))}
+                {seasonTotals.seasons.length > 1 && (
+                  <TableRow className="font-semibold">
+                    <TableCell>Totale</TableCell>
+                    <TotalsCells totals={seasonTotals.overall} />
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Nessuna statistica ufficiale registrata per questo calciatore.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Charts */}
+      {stats && stats.length > 0 && (
+        <div className="mb-8 grid gap-8 lg:grid-cols-2">
+          <Card className="bg-blue-50 dark:bg-blue-900">
+            <CardHeader>
+              <CardTitle>Gol e Assist nel Tempo</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {trendData.length > 0 ? (
+                <ChartContainer config={trendChartConfig} className="min-h-[250px] w-full">
+                  <LineChart data={trendData} margin={{ left: -20, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="goals" type="stepAfter" stroke="var(--color-goals)" strokeWidth={2} dot={false} />
+                    <Line dataKey="assists" type="stepAfter" stroke="var(--color-assists)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              ) : (
+                <p>Nessuna statistica collegata a una partita.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-blue-50 dark:bg-blue-900">
+            <CardHeader>
+              <CardTitle>Tipologia Gol</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <GoalTypeChart totals={seasonTotals.overall} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Match by match history */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Storico Partite</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {stats && stats.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Partita</TableHead>
+                  <TableHead>Risultato</TableHead>
+                  <TableHead>Gol</TableHead>
+                  <TableHead>Assist</TableHead>
+                  <TableHead>Gol D</TableHead>
+                  <TableHead>Gol S</TableHead>
+                  <TableHead>Gol T</TableHead>
+                  <TableHead>Rigori</TableHead>
+                  <TableHead>Gialli</TableHead>
+                  <TableHead>Rossi</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...stats].reverse().map((stat) => (
+                  <TableRow key={stat.id}>
+                    {stat.match ? (
+                      <>
+                        <TableCell className="font-medium">{format(new Date(stat.match.match_date), 'dd/MM/yyyy')}</TableCell>
+                        <TableCell>
+                          <Link to={`/matches/${stat.match.id}`} className="hover:underline">
+                            <TeamName team={stat.match.home_team} /> vs <TeamName team={stat.match.away_team} />
+                          </Link>
+                          {!countsForStats(stat.match) && <Badge variant="secondary" className="ml-2">Non ufficiale</Badge>}
+                        </TableCell>
+                        <TableCell>{`${stat.match.home_goals} - ${stat.match.away_goals}`}</TableCell>
+                      </>
+                    ) : (
+                      <>
+                        <TableCell>-</TableCell>
+                        <TableCell>{stat.match_details || '-'}</TableCell>
+                        <TableCell>-</TableCell>
+                      </>
+                    )}
+                    <TableCell className="font-bold">{getTotalGoals(stat)}</TableCell>
+                    <TableCell>{stat.assists}</TableCell>
+                    <TableCell>{stat.right_foot_goals}</TableCell>
+                    <TableCell>{stat.left_foot_goals}</TableCell>
+                    <TableCell>{stat.header_goals}</TableCell>
+                    <TableCell>{stat.penalties}</TableCell>
+                    <TableCell>{stat.yellow_cards}</TableCell>
+                    <TableCell>{stat.red_cards}</TableCell>
+                    <TableCell>{stat.notes || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Nessuna partita registrata.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PlayerProfilePage;
@@ -0,0 +1,413 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftIcon, SaveIcon, UndoIcon } from 'lucide-react';
+import { showSuccess, showError } from '@/utils/toast';
+import { useSeason } from '@/hooks/use-season';
+import { usePlayers } from '@/hooks/use-players';
+import { useMatches } from '@/hooks/use-matches';
+import { useMatchIdsWithEvents } from '@/hooks/use-match-events';
+import { useMatchPlayerStats } from '@/hooks/use-match-player-stats';
+import { useOutbox } from '@/hooks/use-outbox';
+import { newRowId, OutboxWrite, pickColumns, submitWrite, withPendingWrites } from '@/lib/outbox';
+import { buildPendingPlayerStat, formatPlayerName } from '@/lib/players';
+import { formatMatchLabel } from '@/lib/matches';
+import { playerStatsFormSchema, PlayerStatsFormValues } from '@/lib/schemas';
+import Combobox from '@/components/Combobox';
+import type { Player } from '@/types/player';
+import type { PlayerStat } from '@/types/playerStat';
+
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+type StatKey = 'right_foot_goals' | 'left_foot_goals' | 'header_goals' | 'penalties' | 'assists' | 'yellow_cards' | 'red_cards';
+
+// Numeric columns of the grid, in the same order as the single-row form
+const statColumns: { key: StatKey; label: string; title: string }[] = [
+  { key: 'right_foot_goals', label: 'GD', title: 'Gol destro' },
+  { key: 'left_foot_goals', label: 'GS', title: 'Gol sinistro' },
+  { key: 'header_goals', label: 'GT', title: 'Gol di testa' },
+  { key: 'penalties', label: 'Rig', title: 'Rigori' },
+  { key: 'assists', label: 'Ass', title: 'Assist' },
+  { key: 'yellow_cards', label: 'Amm', title: 'Cartellini gialli' },
+  { key: 'red_cards', label: 'Esp', title: 'Cartellini rossi' },
+];
+
+const NOTES_COLUMN = statColumns.length; // Notes are the last editable column
+
+// Compared with the server row before an offline edit or delete is sent
+const playerStatColumns: (keyof PlayerStat)[] = ['player_id', 'match_id', ...statColumns.map(column => column.key), 'notes'];
+
+// Cells are kept as typed, so invalid input can be shown and fixed before saving
+interface GridRow {
+  played: boolean; // Rows not played are not saved, and existing ones are deleted
+  values: Record<StatKey, string>;
+  notes: string;
+}
+
+type RowErrors = Partial<Record<keyof PlayerStatsFormValues, string>>;
+
+const emptyValues = () =>
+  Object.fromEntries(statColumns.map(column => [column.key, '0'])) as Record<StatKey, string>;
+
+const toGridRow = (stat: PlayerStat | undefined): GridRow => ({
+  played: !!stat,
+  values: stat
+    ? Object.fromEntries(statColumns.map(column => [column.key, String(stat[column.key])])) as Record<StatKey, string>
+    : emptyValues(),
+  notes: stat?.notes || '',
+});
+
+const cellKey = (row: number, column: number) => `${row}:${column}`;
+
+// Enter a whole match's player stats at once: one row per player, saved in a single batch
+const PlayerStatsBulkPage = () => {
+  const queryClient = useQueryClient();
+  const { isFrozen } = useSeason();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const matchId = searchParams.get('match') || '';
+
+  const [rows, setRows] = useState<Record<string, GridRow>>({});
+  const [errors, setErrors] = useState<Record<string, RowErrors>>({});
+  const cells = useRef(new Map<string, HTMLInputElement>());
+
+  const { data: players, isLoading: isLoadingPlayers, error: playersError } = usePlayers();
+  const { data: matches, isLoading: isLoadingMatches, error: matchesError } = useMatches();
+  const { data: matchIdsWithEvents } = useMatchIdsWithEvents();
+
+  // Rows already saved for the selected match
+  const { data: serverMatchStats, isLoading: isLoadingStats, error: statsError } = useMatchPlayerStats(matchId || undefined);
+
+  // The saved rows as they will be once the offline outbox is sent
+  const { entries: outboxEntries } = useOutbox();
+  const matchStats = useMemo(() => withPendingWrites(serverMatchStats || [], outboxEntries, 'player_stats', buildPendingPlayerStat)
+    .filter(item => item.row.match_id === matchId && item.pending?.operation !== 'delete')
+    .map(item => item.row), [serverMatchStats, outboxEntries, matchId]);
+
+  const match = matches?.find(item => item.id === matchId);
+  const isFromEvents = !!matchId && !!matchIdsWithEvents?.has(matchId);
+  const isReadOnly = !match || isFromEvents || isFrozen(match.match_date);
+
+  // Active players, plus anyone who already has a row for this match
+  const gridPlayers = useMemo<Player[]>(() => {
+    const playerIdsWithStats = new Set(matchStats.map(stat => stat.player_id));
+    return (players || []).filter(player => player.is_active || playerIdsWithStats.has(player.id));
+  }, [players, matchStats]);
+
+  const resetRows = useCallback(() => {
+    const statsByPlayer = new Map(matchStats.map(stat => [stat.player_id, stat]));
+    setRows(Object.fromEntries(gridPlayers.map(player => [player.id, toGridRow(statsByPlayer.get(player.id))])));
+    setErrors({});
+  }, [matchStats, gridPlayers]);
+
+  // Start from what is saved when a match is picked and its rows are loaded. Not on every change of the saved
+  // rows: they change with the outbox (e.g. the queue draining on reconnect), which must not wipe the typing
+  const resetRowsRef = useRef(resetRows);
+  resetRowsRef.current = resetRows;
+  const isGridReady = !!players && !isLoadingStats;
+  useEffect(() => {
+    if (isGridReady) resetRowsRef.current();
+  }, [matchId, isGridReady]);
+
+  const updateRow = (playerId: string, changes: Partial<GridRow>) => {
+    setRows(current => ({ ...current, [playerId]: { ...current[playerId], ...changes } }));
+    setErrors(current => {
+      if (!current[playerId]) return current;
+      const { [playerId]: _fixed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  // Typing in a row means the player took part in the match
+  const updateValue = (playerId: string, key: StatKey, value: string) => {
+    const row = rows[playerId];
+    updateRow(playerId, { played: true, values: { ...row.values, [key]: value } });
+  };
+
+  const focusCell = (row: number, column: number) => {
+    const cell = cells.current.get(cellKey(row, column));
+    if (cell) {
+      cell.focus();
+      cell.select();
+    }
+  };
+
+  // Spreadsheet-like moves: arrows between cells, Enter down (Shift+Enter up).
+  // Left/right only leave the cell when the caret is already at its edge (or the whole value is selected).
+  const handleCellKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, row: number, column: number) => {
+    const input = event.currentTarget;
+    const length = input.value.length;
+    const allSelected = input.selectionStart === 0 && input.selectionEnd === length;
+    const atStart = allSelected || (input.selectionStart === 0 && input.selectionEnd === 0);
+    const atEnd = allSelected || (input.selectionStart === length && input.selectionEnd === length);
+
+    let target: [number, number] | null = null;
+    if (event.key === 'ArrowUp' || (event.key === 'Enter' && event.shiftKey)) target = [row - 1, column];
+    else if (event.key === 'ArrowDown' || event.key === 'Enter') target = [row + 1, column];
+    else if (event.key === 'ArrowLeft' && atStart) target = [row, column - 1];
+    else if (event.key === 'ArrowRight' && atEnd) target = [row, column + 1];
+    if (!target) return;
+
+    event.preventDefault();
+    focusCell(...target);
+  };
+
+  // The changed rows go as one batch: online one upsert on match and player plus one delete, offline a single
+  // outbox entry that is sent the same way once the connection returns (see SyncStatus)
+  const saveMutation = useMutation({
+    mutationFn: async ({ upserts, deletedStats }: { upserts: PlayerStatsFormValues[]; deletedStats: PlayerStat[] }) => {
+      const statsByPlayer = new Map(matchStats.map(stat => [stat.player_id, stat]));
+      const describeStat = (playerId: string) => {
+        const player = players?.find(item => item.id === playerId);
+        return [player ? formatPlayerName(player) : 'Statistica', match && formatMatchLabel(match)].filter(Boolean).join(' · ');
+      };
+      const writes: OutboxWrite<'player_stats'>[] = [];
+      upserts.forEach((values) => {
+        const stat = statsByPlayer.get(values.player_id);
+        if (!stat) {
+          writes.push({ table: 'player_stats', operation: 'insert', rowId: newRowId(), values, base: null, label: describeStat(values.player_id) });
+        } else if (playerStatColumns.some(column => (stat[column] ?? '') !== (values[column] ?? ''))) {
+          writes.push({
+            table: 'player_stats',
+            operation: 'update',
+            rowId: stat.id,
+            values,
+            base: pickColumns(stat, playerStatColumns),
+            label: describeStat(values.player_id),
+          });
+        }
+      });
+      deletedStats.forEach((stat) => {
+        writes.push({
+          table: 'player_stats',
+          operation: 'delete',
+          rowId: stat.id,
+          values: null,
+          base: pickColumns(stat, playerStatColumns),
+          label: describeStat(stat.player_id),
+        });
+      });
+      if (writes.length === 0) {
+        return { savedCount: upserts.length, queued: false };
+      }
+      const { queued } = await submitWrite({
+        table: 'player_stats',
+        operation: 'batch',
+        rowId: newRowId(),
+        values: null,
+        base: null,
+        label: `Statistiche di ${writes.length} calciatori${match ? ` · ${formatMatchLabel(match)}` : ''}`,
+        writes,
+      });
+      return { savedCount: upserts.length, queued };
+    },
+    onSuccess: ({ savedCount, queued }) => {
+      queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+      queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] }); // Invalidate total stats cache on Dashboard
+      showSuccess(queued
+        ? `Statistiche di ${savedCount} calciatori salvate sul dispositivo: verranno inviate appena torna la connessione.`
+        : `Statistiche salvate per ${savedCount} calciatori.`);
+    },
+    onError: (error: Error) => {
+      showError(`Errore durante il salvataggio: ${error.message}`);
+    },
+  });
+
+  // Every played row is checked with the same schema as the single-row form before anything is sent
+  const handleSave = () => {
+    const upserts: PlayerStatsFormValues[] = [];
+    const rowErrors: Record<string, RowErrors> = {};
+
+    gridPlayers.forEach(player => {
+      const row = rows[player.id];
+      if (!row?.played) return;
+      const result = playerStatsFormSchema.safeParse({ player_id: player.id, match_id: matchId, ...row.values, notes: row.notes });
+      if (result.success) {
+        upserts.push(result.data);
+      } else {
+        rowErrors[player.id] = Object.fromEntries(
+          result.error.issues.map(issue => [issue.path[0], issue.message]),
+        ) as RowErrors;
+      }
+    });
+
+    setErrors(rowErrors);
+    const errorCount = Object.keys(rowErrors).length;
+    if (errorCount > 0) {
+      showError(`Correggi i valori evidenziati in ${errorCount} righe prima di salvare.`);
+      return;
+    }
+
+    // Only rows of the grid: legacy rows without a roster player are not shown, so they stay
+    const deletedStats = matchStats.filter(stat => rows[stat.player_id] && !rows[stat.player_id].played);
+    saveMutation.mutate({ upserts, deletedStats });
+  };
+
+  if (isLoadingPlayers || isLoadingMatches) {
+    return <div className="container mx-auto py-8">Caricamento dati...</div>;
+  }
+
+  if (playersError || matchesError) {
+    const error = playersError || matchesError;
+    console.error('Error fetching bulk entry data:', error);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento dei dati: {error.message}</div>;
+  }
+
+  const matchOptions = (matches || []).map(item => ({ value: item.id, label: formatMatchLabel(item) }));
+  const playedCount = gridPlayers.filter(player => rows[player.id]?.played).length;
+
+  return (
+    <div className="container mx-auto py-8">
+      <Button asChild variant="ghost" className="mb-4">
+        <Link to="/player-stats">
+          <ArrowLeftIcon className="mr-2 h-4 w-4" /> Torna alle statistiche
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold mb-6">Inserimento Rapido Statistiche</h1>
+
+      <div className="mb-6 space-y-2">
+        <Combobox
+          className="w-[420px] max-w-full"
+          options={matchOptions}
+          value={matchId}
+          onChange={value => setSearchParams(value ? { match: value } : {}, { replace: true })}
+          placeholder="Seleziona una partita"
+          searchPlaceholder="Cerca per squadra, data o competizione..."
+          emptyText="Nessuna partita trovata."
+        />
+        {isFromEvents && (
+          <p className="text-sm text-muted-foreground">
+            Questa partita ha una cronologia eventi: le statistiche sono calcolate automaticamente. <Link to={`/matches/${matchId}`} className="underline">Modifica gli eventi</Link>.
+          </p>
+        )}
+        {match && !isFromEvents && isFrozen(match.match_date) && (
+          <p className="text-sm text-muted-foreground">La stagione di questa partita è archiviata: le statistiche sono in sola lettura.</p>
+        )}
+      </div>
+
+      {matchId && (
+        <Card className="bg-blue-50 dark:bg-blue-900">
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>{match ? formatMatchLabel(match) : 'Partita'}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {playedCount} calciatori in campo · Frecce o Invio per spostarsi tra le celle
+              </p>
+            </div>
+            {!isReadOnly && (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={resetRows} disabled={saveMutation.isPending}>
+                  <UndoIcon className="mr-2 h-4 w-4" /> Annulla modifiche
+                </Button>
+                <Button onClick={handleSave} disabled={saveMutation.isPending || isLoadingStats}>
+                  <SaveIcon className="mr-2 h-4 w-4" /> {saveMutation.isPending ? 'Salvataggio...' : 'Salva tutto'}
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoadingStats ? (
+              <p>Caricamento statistiche...</p>
+            ) : statsError ? (
+              <p className="text-red-500">Errore nel caricamento delle statistiche: {statsError.message}</p>
+            ) : gridPlayers.length === 0 ? (
+              <p>Nessun calciatore attivo in rosa. <Link to="/players" className="underline">Aggiungi i calciatori</Link>.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">In campo</TableHead>
+                      <TableHead>Calciatore</TableHead>
+                      {statColumns.map(column => (
+                        <TableHead key={column.key} title={column.title} className="w-[70px] text-center">{column.label}</TableHead>
+                      ))}
+                      <TableHead>Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gridPlayers.map((player, rowIndex) => {
+                      const row = rows[player.id];
+                      if (!row) return null;
+                      const rowErrors = errors[player.id];
+                      return (
+                        <React.Fragment key={player.id}>
+                          <TableRow className={cn(!row.played && 'text-muted-foreground', rowErrors && 'bg-red-50 dark:bg-red-950')}>
+                            <TableCell>
+                              <Checkbox
+                                checked={row.played}
+                                onCheckedChange={checked => updateRow(player.id, { played: checked === true })}
+                                disabled={isReadOnly}
+                                aria-label={`${player.name} in campo`}
+                              />
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {formatPlayerName(player)}
+                              {!player.is_active && <span className="ml-2 text-xs text-muted-foreground">(non attivo)</span>}
+                            </TableCell>
+                            {statColumns.map((column, columnIndex) => (
+                              <TableCell key={column.key} className="p-1">
+                                <Input
+                                  ref={element => {
+                                    if (element) cells.current.set(cellKey(rowIndex, columnIndex), element);
+                                    else cells.current.delete(cellKey(rowIndex, columnIndex));
+                                  }}
+                                  inputMode="numeric"
+                                  className={cn('h-8 w-[60px] text-center', rowErrors?.[column.key] && 'border-red-500')}
+                                  value={row.values[column.key]}
+                                  onChange={event => updateValue(player.id, column.key, event.target.value)}
+                                  onFocus={event => event.target.select()}
+                                  onKeyDown={event => handleCellKeyDown(event, rowIndex, columnIndex)}
+                                  disabled={isReadOnly}
+                                  aria-invalid={!!rowErrors?.[column.key]}
+                                  aria-label={`${column.title} ${player.name}`}
+                                  title={rowErrors?.[column.key]}
+                                />
+                              </TableCell>
+                            ))}
+                            <TableCell className="p-1">
+                              <Input
+                                ref={element => {
+                                  if (element) cells.current.set(cellKey(rowIndex, NOTES_COLUMN), element);
+                                  else cells.current.delete(cellKey(rowIndex, NOTES_COLUMN));
+                                }}
+                                className="h-8 min-w-[160px]"
+                                value={row.notes}
+                                onChange={event => updateRow(player.id, { played: true, notes: event.target.value })}
+                                onKeyDown={event => handleCellKeyDown(event, rowIndex, NOTES_COLUMN)}
+                                disabled={isReadOnly}
+                                aria-label={`Note ${player.name}`}
+                              />
+                            </TableCell>
+                          </TableRow>
+                          {/* Validation messages right under the row they belong to */}
+                          {rowErrors && (
+                            <TableRow className="bg-red-50 hover:bg-red-50 dark:bg-red-950">
+                              <TableCell />
+                              <TableCell colSpan={statColumns.length + 2} className="pt-0 text-sm text-red-500">
+                                {Object.entries(rowErrors).map(([field, message]) => {
+                                  const column = statColumns.find(item => item.key === field);
+                                  return column ? `${column.title}: ${message}` : message;
+                                }).join(' · ')}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PlayerStatsBulkPage;
@@ -1,11 +1,27 @@
-import React, { useState, useEffect } from 'react'; // Import useState and useEffect
+import React, { useState, useEffect, useMemo, useRef } from 'react'; // Import useState and useEffect
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabaseClient';
+import { repositories } from '@/lib/repositories';
 import { showSuccess, showError } from '@/utils/toast';
-import { Trash2Icon, EditIcon } from 'lucide-react'; // Import EditIcon
+import { useAuth } from '@/hooks/use-auth';
+import { useSeason } from '@/hooks/use-season';
+import { usePlayers } from '@/hooks/use-players';
+import { useMatches } from '@/hooks/use-matches';
+import { useMatchIdsWithEvents } from '@/hooks/use-match-events';
+import { useOutbox } from '@/hooks/use-outbox';
+import { newRowId, OutboxValues, pickColumns, submitWrite, withPendingWrites } from '@/lib/outbox';
+import { buildPendingPlayerStat, formatPlayerName } from '@/lib/players';
+import { getSeasonRange } from '@/lib/seasons';
+import { formatMatchLabel } from '@/lib/matches';
+import { playerStatsFormSchema, PlayerStatsFormValues } from '@/lib/schemas';
+import Combobox from '@/components/Combobox';
+import ExportMenu from '@/components/ExportMenu';
+import PendingBadge from '@/components/PendingBadge';
+import { ExportColumn, exportFileName } from '@/lib/export';
+import type { PlayerStat } from '@/types/playerStat';
+import { Trash2Icon, EditIcon, LinkIcon, TableIcon } from 'lucide-react'; // Import EditIcon
+import { Link } from 'react-router-dom';
 
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -33,49 +49,52 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-
-// Define the schema for the form using Zod - Added penalties
-const playerStatsFormSchema = z.object({
-  player_name: z.string().min(1, { message: 'Il nome del calciatore è richiesto.' }),
-  match_details: z.string().optional(), // New field for manual match details
-  right_foot_goals: z.coerce.number().min(0, { message: 'I gol non possono essere negativi.' }).default(0),
-  left_foot_goals: z.coerce.number().min(0, { message: 'I gol non possono essere negativi.' }).default(0),
-  header_goals: z.coerce.number().min(0, { message: 'I gol non possono essere negativi.' }).default(0),
-  penalties: z.coerce.number().min(0, { message: 'I rigori non possono essere negativi.' }).default(0), // Added penalties field
-  assists: z.coerce.number().min(0, { message: 'Gli assist non possono essere negativi.' }).default(0),
-  yellow_cards: z.coerce.number().min(0, { message: 'I cartellini non possono essere negativi.' }).default(0),
-  red_cards: z.coerce.number().min(0, { message: 'I cartellini non possono essere negativi.' }).default(0),
-  notes: z.string().optional(),
+// Columns of the exported list, with the same short headers as the table
+const statExportColumns: ExportColumn<PlayerStat>[] = [
+  { header: 'Calciatore', value: stat => (stat.player ? formatPlayerName(stat.player) : stat.player_name), width: 24 },
+  { header: 'Data', value: stat => (stat.match ? new Date(stat.match.match_date) : null) },
+  { header: 'Partita', value: stat => (stat.match ? formatMatchLabel(stat.match) : stat.match_details), width: 48 },
+  { header: 'Assist', value: stat => stat.assists },
+  { header: 'Gol D', value: stat => stat.right_foot_goals },
+  { header: 'Gol S', value: stat => stat.left_foot_goals },
+  { header: 'Gol T', value: stat => stat.header_goals },
+  { header: 'Rigori', value: stat => stat.penalties },
+  { header: 'Gialli', value: stat => stat.yellow_cards },
+  { header: 'Rossi', value: stat => stat.red_cards },
+  { header: 'Note', value: stat => stat.notes, width: 40 },
+];
+
+// Columns written by the form
+const toPlayerStatValues = (values: PlayerStatsFormValues): OutboxValues<'player_stats'> => ({
+  player_id: values.player_id,
+  match_id: values.match_id,
+  right_foot_goals: values.right_foot_goals,
+  left_foot_goals: values.left_foot_goals,
+  header_goals: values.header_goals,
+  penalties: values.penalties,
+  assists: values.assists,
+  yellow_cards: values.yellow_cards,
+  red_cards: values.red_cards,
+  notes: values.notes,
 });
 
-type PlayerStatsFormValues = z.infer<typeof playerStatsFormSchema>;
-
-// Define type for Player Stat data fetched from DB - Added penalties
-interface PlayerStat {
-  id: string;
-  created_at: string;
-  player_name: string;
-  match_details?: string; // New field for manual match details
-  right_foot_goals: number;
-  left_foot_goals: number;
-  header_goals: number;
-  penalties: number; // Added penalties field
-  assists: number;
-  yellow_cards: number;
-  red_cards: number;
-  notes?: string;
-}
-
+// Compared with the server row before an offline edit or delete is sent
+const playerStatColumns: (keyof PlayerStat)[] = ['player_id', 'match_id', 'right_foot_goals', 'left_foot_goals', 'header_goals', 'penalties', 'assists', 'yellow_cards', 'red_cards', 'notes'];
 
 const PlayerStatsPage = () => {
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const { season, seasonKey } = useSeason();
+  // Viewers only get the read-only list, and archived seasons are read-only for everyone
+  const canWrite = can('write') && !season?.is_archived;
+  const canDelete = can('delete') && !season?.is_archived;
   const [editingStatId, setEditingStatId] = useState<string | null>(null); // State to track which stat is being edited
 
   const form = useForm<PlayerStatsFormValues>({
     resolver: zodResolver(playerStatsFormSchema),
     defaultValues: {
-      player_name: '',
-      match_details: '', // Default value for new field
+      player_id: '',
+      match_id: '',
       right_foot_goals: 0,
       left_foot_goals: 0,
       header_goals: 0,
@@ -87,47 +106,62 @@ const PlayerStatsPage = () => {
     },
   });
 
-  // Fetch player stats for the list
-  const { data: playerStats, isLoading: isLoadingPlayerStats, error: playerStatsError } = useQuery<PlayerStat[]>({
-    queryKey: ['playerStats'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('player_stats')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-      return data || [];
-    },
+  // Fetch player stats of the selected season for the list, with the player resolved through the roster
+  const { data: serverPlayerStats, isLoading: isLoadingPlayerStats, error: playerStatsError } = useQuery<PlayerStat[]>({
+    queryKey: ['playerStats', 'season', seasonKey],
+    // Rows not linked to a match have no date, so they only show up when there are no seasons
+    queryFn: () => repositories.playerStats.list(season ? getSeasonRange(season) : null),
   });
 
-  // Fetch unique player names for datalist suggestions
-  const { data: uniquePlayerNames, isLoading: isLoadingUniqueNames, error: uniqueNamesError } = useQuery<string[]>({
-    queryKey: ['uniquePlayerNames'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('player_stats')
-        .select('player_name', { distinct: true }); // Select distinct player names
-
-      if (error) {
-        throw error;
-      }
-      // Extract just the names into a simple array of strings
-      return data?.map(item => item.player_name) || [];
-    },
-    staleTime: 1000 * 60 * 5, // Cache unique names for 5 minutes
+  // Old rows whose player is only known by name, of every season (most have no match yet)
+  const { data: unlinkedPlayerStats } = useQuery<{ id: string; player_name: string }[]>({
+    queryKey: ['playerStats', 'unlinkedPlayers'],
+    queryFn: () => repositories.playerStats.listUnlinkedPlayers(),
+    enabled: can('manage'),
   });
+  const unlinkedPlayersCount = unlinkedPlayerStats?.length || 0;
+
+  // Roster for the player picker
+  const { data: players, isLoading: isLoadingPlayers, error: playersError } = usePlayers();
+
+  // Matches for the match picker
+  const { data: matches, isLoading: isLoadingMatches } = useMatches();
+
+  // Stats of matches with a timeline are derived from their events and can't be entered by hand
+  const { data: matchIdsWithEvents } = useMatchIdsWithEvents();
+  const selectedMatchId = form.watch('match_id');
+  const isSelectedMatchFromEvents = !!selectedMatchId && !!matchIdsWithEvents?.has(selectedMatchId);
+
+  // The list as it will be once the offline outbox is sent: new rows first, waiting edits applied
+  const { entries: outboxEntries } = useOutbox();
+  const pendingPlayerStats = useMemo(() => {
+    return withPendingWrites(serverPlayerStats || [], outboxEntries, 'player_stats',
+      (values, row) => buildPendingPlayerStat(values, row, players, matches));
+  }, [serverPlayerStats, outboxEntries, players, matches]);
+  const playerStats = useMemo(() => pendingPlayerStats.map(item => item.row), [pendingPlayerStats]);
+
+  // "10 · Mario Rossi · 15/09/2024 ...", to tell the waiting writes apart
+  const describeStat = (values: { player_id?: string | null; match_id?: string | null }) => {
+    const player = players?.find(item => item.id === values.player_id);
+    const match = matches?.find(item => item.id === values.match_id);
+    return [player ? formatPlayerName(player) : 'Statistica', match && formatMatchLabel(match)].filter(Boolean).join(' · ');
+  };
+
+  // Read by the effect below without being one of its dependencies: the list changes with every outbox
+  // change (e.g. the queue draining on reconnect), which must not wipe a form being typed in
+  const playerStatsRef = useRef(playerStats);
+  playerStatsRef.current = playerStats;
 
   // Effect to populate form when editingStatId changes
   useEffect(() => {
-    if (editingStatId && playerStats) {
-      const statToEdit = playerStats.find(stat => stat.id === editingStatId);
+    if (editingStatId) {
+      const statToEdit = playerStatsRef.current.find(stat => stat.id === editingStatId);
       if (statToEdit) {
         // Reset form with data from the stat being edited
         form.reset({
-          ...statToEdit,
+          player_id: statToEdit.player_id || '',
+          match_id: statToEdit.match_id || '',
+          notes: statToEdit.notes || '',
           // Ensure numbers are numbers
           right_foot_goals: statToEdit.right_foot_goals,
           left_foot_goals: statToEdit.left_foot_goals,
@@ -141,8 +175,8 @@ const PlayerStatsPage = () => {
     } else {
       // Reset form to default values when not editing
       form.reset({
-        player_name: '',
-        match_details: '',
+        player_id: '',
+        match_id: '',
         right_foot_goals: 0,
         left_foot_goals: 0,
         header_goals: 0,
@@ -153,39 +187,27 @@ const PlayerStatsPage = () => {
         notes: '',
       });
     }
-  }, [editingStatId, playerStats, form]);
+  }, [editingStatId, form]);
 
 
   // Mutation for adding a new player stat entry
   const addPlayerStatMutation = useMutation({
-    mutationFn: async (newStat: PlayerStatsFormValues) => {
-      const { data, error } = await supabase.from('player_stats').insert([
-        {
-          player_name: newStat.player_name,
-          match_details: newStat.match_details,
-          right_foot_goals: newStat.right_foot_goals,
-          left_foot_goals: newStat.left_foot_goals,
-          header_goals: newStat.header_goals,
-          penalties: newStat.penalties, // Include penalties in insert
-          assists: newStat.assists,
-          yellow_cards: newStat.yellow_cards,
-          red_cards: newStat.red_cards,
-          notes: newStat.notes,
-        },
-      ]).select();
-      if (error) {
-        throw error;
-      }
-      return data;
-    },
-    onSuccess: () => {
+    // Offline the row waits in the outbox, see SyncStatus
+    mutationFn: (newStat: PlayerStatsFormValues) => submitWrite({
+      table: 'player_stats',
+      operation: 'insert',
+      rowId: newRowId(),
+      values: toPlayerStatValues(newStat),
+      base: null,
+      label: describeStat(newStat),
+    }),
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ['playerStats'] });
-      queryClient.invalidateQueries({ queryKey: ['uniquePlayerNames'] }); // Invalidate unique names cache too
       queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] }); // Invalidate total stats cache on Dashboard
-      showSuccess('Statistica calciatore aggiunta con successo!');
+      showSuccess(queued ? 'Statistica salvata sul dispositivo: verrà inviata appena torna la connessione.' : 'Statistica calciatore aggiunta con successo!');
       form.reset({
-        player_name: form.getValues('player_name'), // Keep entered player name
-        match_details: '', // Reset new field
+        player_id: form.getValues('player_id'), // Keep selected player
+        match_id: form.getValues('match_id'), // Keep selected match for the next player
         right_foot_goals: 0,
         left_foot_goals: 0,
         header_goals: 0,
@@ -205,33 +227,26 @@ const PlayerStatsPage = () => {
   // Mutation for updating an existing player stat entry
   const updatePlayerStatMutation = useMutation({
     mutationFn: async (updatedStat: PlayerStatsFormValues) => {
-      if (!editingStatId) throw new Error("No stat ID provided for update.");
-      const { data, error } = await supabase.from('player_stats').update({
-        player_name: updatedStat.player_name,
-        match_details: updatedStat.match_details,
-        right_foot_goals: updatedStat.right_foot_goals,
-        left_foot_goals: updatedStat.left_foot_goals,
-        header_goals: updatedStat.header_goals,
-        penalties: updatedStat.penalties, // Include penalties in update
-        assists: updatedStat.assists,
-        yellow_cards: updatedStat.yellow_cards,
-        red_cards: updatedStat.red_cards,
-        notes: updatedStat.notes,
-      }).eq('id', editingStatId).select();
-      if (error) {
-        throw error;
-      }
-      return data;
+      const statToEdit = playerStats.find(stat => stat.id === editingStatId);
+      if (!statToEdit) throw new Error("No stat ID provided for update.");
+      const values = toPlayerStatValues(updatedStat);
+      return submitWrite({
+        table: 'player_stats',
+        operation: 'update',
+        rowId: statToEdit.id,
+        values,
+        base: pickColumns(statToEdit, playerStatColumns), // To spot changes made elsewhere meanwhile
+        label: describeStat(updatedStat),
+      });
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ['playerStats'] });
-      queryClient.invalidateQueries({ queryKey: ['uniquePlayerNames'] }); // Invalidate unique names cache too
       queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] }); // Invalidate total stats cache on Dashboard
-      showSuccess('Statistica calciatore modificata con successo!');
+      showSuccess(queued ? 'Modifica salvata sul dispositivo: verrà inviata appena torna la connessione.' : 'Statistica calciatore modificata con successo!');
       setEditingStatId(null); // Exit editing mode
       form.reset({ // Reset form to default empty state after editing
-        player_name: '',
-        match_details: '',
+        player_id: '',
+        match_id: '',
         right_foot_goals: 0,
         left_foot_goals: 0,
         header_goals: 0,
@@ -251,17 +266,18 @@ const PlayerStatsPage = () => {
 
   // Mutation for deleting a player stat entry
   const deletePlayerStatMutation = useMutation({
-    mutationFn: async (statId: string) => {
-      const { error } = await supabase.from('player_stats').delete().eq('id', statId);
-      if (error) {
-        throw error;
-      }
-    },
-    onSuccess: () => {
+    mutationFn: (stat: PlayerStat) => submitWrite({
+      table: 'player_stats',
+      operation: 'delete',
+      rowId: stat.id,
+      values: null,
+      base: pickColumns(stat, playerStatColumns),
+      label: describeStat(stat),
+    }),
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ['playerStats'] });
-      queryClient.invalidateQueries({ queryKey: ['uniquePlayerNames'] }); // Invalidate unique names cache too
       queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] }); // Invalidate total stats cache on Dashboard
-      showSuccess('Statistica calciatore eliminata con successo!');
+      showSuccess(queued ? 'Eliminazione salvata sul dispositivo: verrà inviata appena torna la connessione.' : 'Statistica calciatore eliminata con successo!');
       if (editingStatId) { // If the deleted stat was being edited, exit editing mode
         setEditingStatId(null);
       }
@@ -282,8 +298,8 @@ const PlayerStatsPage = () => {
     }
   };
 
-  const handleDeletePlayerStat = (statId: string) => {
-    deletePlayerStatMutation.mutate(statId);
+  const handleDeletePlayerStat = (stat: PlayerStat) => {
+    deletePlayerStatMutation.mutate(stat);
   };
 
   const handleEditStat = (stat: PlayerStat) => {
@@ -297,7 +313,7 @@ const PlayerStatsPage = () => {
   };
 
 
-  if (isLoadingPlayerStats || isLoadingUniqueNames) {
+  if (isLoadingPlayerStats || isLoadingPlayers || isLoadingMatches) {
     return <div className="container mx-auto py-8">Caricamento dati...</div>;
   }
 
@@ -306,205 +322,273 @@ const PlayerStatsPage = () => {
     return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento delle statistiche: {playerStatsError.message}</div>;
   }
 
-  if (uniqueNamesError) {
-    console.error('Error fetching unique player names:', uniqueNamesError);
-    // We can still render the page even if unique names fail, just without suggestions
-    // return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento dei nomi calciatori: {uniqueNamesError.message}</div>;
+  if (playersError) {
+    console.error('Error fetching players:', playersError);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento della rosa: {playersError.message}</div>;
   }
 
+  // Active players, plus the player of the row being edited even if no longer active
+  const editingPlayerId = editingStatId ? playerStats?.find(stat => stat.id === editingStatId)?.player_id : null;
+  const playerOptions = (players || [])
+    .filter(player => player.is_active || player.id === editingPlayerId)
+    .map(player => ({ value: player.id, label: formatPlayerName(player) }));
+  const matchOptions = (matches || []).map(match => ({ value: match.id, label: formatMatchLabel(match) }));
+
+  // Rows still described only by the old free-text fields
+  const unlinkedStatsCount = playerStats?.filter(stat => !stat.match_id && stat.match_details).length || 0;
+
 
   return (
     <div className="container mx-auto py-8">
-      <h1 className="text-3xl font-bold mb-6">Statistiche Calciatore</h1>
-
-      {/* Form Card */}
-      <Card className="mb-8 bg-blue-50 dark:bg-blue-900"> {/* Added background class here */}
-        <CardHeader>
-          <CardTitle>{editingStatId ? 'Modifica Statistica' : 'Aggiungi Statistica'}</CardTitle> {/* Dynamic title */}
-        </CardHeader>
-        <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              {/* Calciatore - Added list attribute */}
-              <FormField
-                control={form.control}
-                name="player_name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Calciatore</FormLabel>
-                    <FormControl>
-                      {/* Associate input with datalist */}
-                      <Input placeholder="Nome del calciatore" {...field} list="player-names-datalist" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Datalist for player name suggestions */}
-              {uniquePlayerNames && (
-                <datalist id="player-names-datalist">
-                  {uniquePlayerNames.map((name) => (
-                    <option key={name} value={name} />
-                  ))}
-                </datalist>
-              )}
-
-
-              {/* Partita - New field */}
-              <FormField
-                control={form.control}
-                name="match_details"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Partita</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Es. vs Squadra B (Campionato)" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Gol Destro */}
-              <FormField
-                control={form.control}
-                name="right_foot_goals"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gol Destro</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Gol Sinistro */}
-              <FormField
-                control={form.control}
-                name="left_foot_goals"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gol Sinistro</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Gol Testa */}
-              <FormField
-                control={form.control}
-                name="header_goals"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gol Testa</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Rigori - New field */}
-              <FormField
-                control={form.control}
-                name="penalties"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Rigori</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Assist */}
-              <FormField
-                control={form.control}
-                name="assists"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Assist</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Cartellini Gialli */}
-              <FormField
-                control={form.control}
-                name="yellow_cards"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Cartellini Gialli</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Cartellini Rossi */}
-              <FormField
-                control={form.control}
-                name="red_cards"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Cartellini Rossi</FormLabel>
-                    <FormControl>
-                      <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Note */}
-              <FormField
-                control={form.control}
-                name="notes"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Note</FormLabel>
-                    <FormControl>
-                      <Textarea placeholder="Note sulla statistica" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <div className="flex space-x-2"> {/* Button container */}
-                <Button type="submit" disabled={addPlayerStatMutation.isPending || updatePlayerStatMutation.isPending}>
-                  {editingStatId ? (updatePlayerStatMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addPlayerStatMutation.isPending ? 'Aggiunta...' : 'Aggiungi Statistica')} {/* Dynamic button text */}
-                </Button>
-                {editingStatId && ( // Show Cancel button only when editing
-                  <Button type="button" variant="outline" onClick={handleCancelEdit}>
-                    Annulla Modifica
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Statistiche Calciatore</h1>
+        {/* Whole-match grid, opened on the match picked in the form if any */}
+        {canWrite && (
+          <Button asChild variant="outline">
+            <Link to={selectedMatchId ? `/player-stats/bulk?match=${selectedMatchId}` : '/player-stats/bulk'}>
+              <TableIcon className="mr-2 h-4 w-4" /> Inserimento rapido
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {/* Old rows whose match is only known by its description */}
+      {unlinkedStatsCount > 0 && can('manage') && (
+        <Card className="mb-8 border-yellow-400">
+          <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-6">
+            <p>{unlinkedStatsCount} statistiche non sono ancora collegate a una partita.</p>
+            <Button asChild variant="outline">
+              <Link to="/player-stats/link-matches">
+                <LinkIcon className="mr-2 h-4 w-4" /> Collega alle partite
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Old rows whose player is only known by name */}
+      {unlinkedPlayersCount > 0 && can('manage') && (
+        <Card className="mb-8 border-yellow-400">
+          <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-6">
+            <p>{unlinkedPlayersCount} statistiche non sono ancora collegate a un calciatore della rosa.</p>
+            <Button asChild variant="outline">
+              <Link to="/player-stats/link-players">
+                <LinkIcon className="mr-2 h-4 w-4" /> Collega ai calciatori
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Form Card - only for users who can add and edit */}
+      {canWrite && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900"> {/* Added background class here */}
+          <CardHeader>
+            <CardTitle>{editingStatId ? 'Modifica Statistica' : 'Aggiungi Statistica'}</CardTitle> {/* Dynamic title */}
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Calciatore - picked from the roster */}
+                <FormField
+                  control={form.control}
+                  name="player_id"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Calciatore</FormLabel>
+                      <FormControl>
+                        <Combobox
+                          className="w-[280px]"
+                          options={playerOptions}
+                          value={field.value}
+                          onChange={field.onChange}
+                          placeholder="Seleziona un calciatore"
+                          searchPlaceholder="Cerca per nome o numero..."
+                          emptyText="Nessun calciatore trovato. Aggiungilo nella pagina Rosa."
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+
+                {/* Partita - picked from the matches table */}
+                <FormField
+                  control={form.control}
+                  name="match_id"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Partita</FormLabel>
+                      <FormControl>
+                        <Combobox
+                          className="w-[420px] max-w-full"
+                          options={matchOptions}
+                          value={field.value}
+                          onChange={field.onChange}
+                          placeholder="Seleziona una partita"
+                          searchPlaceholder="Cerca per squadra, data o competizione..."
+                          emptyText="Nessuna partita trovata."
+                        />
+                      </FormControl>
+                      {isSelectedMatchFromEvents && (
+                        <p className="text-sm text-muted-foreground">
+                          Questa partita ha una cronologia eventi: le statistiche sono calcolate automaticamente. <Link to={`/matches/${selectedMatchId}`} className="underline">Modifica gli eventi</Link>.
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Gol Destro */}
+                <FormField
+                  control={form.control}
+                  name="right_foot_goals"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gol Destro</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Gol Sinistro */}
+                <FormField
+                  control={form.control}
+                  name="left_foot_goals"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gol Sinistro</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Gol Testa */}
+                <FormField
+                  control={form.control}
+                  name="header_goals"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gol Testa</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Rigori - New field */}
+                <FormField
+                  control={form.control}
+                  name="penalties"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rigori</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Assist */}
+                <FormField
+                  control={form.control}
+                  name="assists"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Assist</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Cartellini Gialli */}
+                <FormField
+                  control={form.control}
+                  name="yellow_cards"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cartellini Gialli</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Cartellini Rossi */}
+                <FormField
+                  control={form.control}
+                  name="red_cards"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cartellini Rossi</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} onChange={event => field.onChange(+event.target.value)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Note */}
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Note</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Note sulla statistica" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex space-x-2"> {/* Button container */}
+                  <Button type="submit" disabled={addPlayerStatMutation.isPending || updatePlayerStatMutation.isPending || isSelectedMatchFromEvents}>
+                    {editingStatId ? (updatePlayerStatMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addPlayerStatMutation.isPending ? 'Aggiunta...' : 'Aggiungi Statistica')} {/* Dynamic button text */}
                   </Button>
-                )}
-              </div>
-            </form>
-          </Form>
-        </CardContent>
-      </Card>
+                  {editingStatId && ( // Show Cancel button only when editing
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Annulla Modifica
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
 
       {/* List of player stats */}
       <Card className="bg-blue-50 dark:bg-blue-900"> {/* Added background class here */}
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Elenco Statistiche Calciatori</CardTitle>
+          {/* What is on the server, without the writes still waiting */}
+          <ExportMenu
+            fileName={exportFileName('statistiche', season?.name)}
+            sheetName="Statistiche"
+            columns={statExportColumns}
+            getRows={() => serverPlayerStats || []}
+            disabled={!serverPlayerStats?.length}
+          />
         </CardHeader>
         <CardContent>
           {playerStats && playerStats.length > 0 ? (
@@ -521,14 +605,19 @@ const PlayerStatsPage = () => {
                   <TableHead>Gialli</TableHead>
                   <TableHead>Rossi</TableHead>
                   <TableHead>Note</TableHead>
-                  <TableHead className="text-right">Azioni</TableHead>
+                  {(canWrite || canDelete) && <TableHead className="text-right">Azioni</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {playerStats.map((stat) => (
-                  <TableRow key={stat.id}>
-                    <TableCell className="font-medium">{stat.player_name}</TableCell>
-                    <TableCell>{stat.match_details || '-'}</TableCell>
+                {pendingPlayerStats.map(({ row: stat, pending }) => (
+                  <TableRow key={stat.id} className={cn(pending?.operation === 'delete' && 'line-through opacity-60')}>
+                    <TableCell className="font-medium">
+                      {stat.player ? (
+                        <Link to={`/players/${stat.player.id}`} className="hover:underline">{formatPlayerName(stat.player)}</Link>
+                      ) : stat.player_name || '-'}
+                      {pending && <PendingBadge entry={pending} />}
+                    </TableCell>
+                    <TableCell>{stat.match ? formatMatchLabel(stat.match) : stat.match_details || '-'}</TableCell>
                     <TableCell>{stat.assists}</TableCell> {/* Moved Assist cell */}
                     <TableCell>{stat.right_foot_goals}</TableCell>
                     <TableCell>{stat.left_foot_goals}</TableCell>
@@ -537,38 +626,44 @@ const PlayerStatsPage = () => {
                     <TableCell>{stat.yellow_cards}</TableCell>
                     <TableCell>{stat.red_cards}</TableCell>
                     <TableCell>{stat.notes || '-'}</TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex justify-end space-x-2"> {/* Container for action buttons */}
-                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditStat(stat)}> {/* Edit Button */}
-                          <EditIcon className="h-4 w-4" />
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="destructive" size="icon" className="h-8 w-8">
-                              <Trash2Icon className="h-4 w-4" />
+                    {(canWrite || canDelete) && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2"> {/* Container for action buttons */}
+                          {canWrite && pending?.operation !== 'delete' && (
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditStat(stat)}> {/* Edit Button */}
+                              <EditIcon className="h-4 w-4" />
                             </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Questa azione non può essere annullata. Verrà eliminata definitivamente la statistica selezionata.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Annulla</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => handleDeletePlayerStat(stat.id)}>Elimina</AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
-                    </TableCell>
+                          )}
+                          {canDelete && pending?.operation !== 'delete' && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="icon" className="h-8 w-8">
+                                  <Trash2Icon className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Questa azione non può essere annullata. Verrà eliminata definitivamente la statistica selezionata.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDeletePlayerStat(stat)}>Elimina</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           ) : (
-            <p>Nessuna statistica trovata. Aggiungi una statistica qui sopra.</p>
+            <p>Nessuna statistica trovata.{canWrite && ' Aggiungi una statistica qui sopra.'}</p>
           )}
         </CardContent>
       </Card>
@@ -0,0 +1,434 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Trash2Icon, EditIcon } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getErrorCode, repositories } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { usePlayers } from '@/hooks/use-players';
+import { footLabels, positionLabels } from '@/lib/players';
+import type { Player } from '@/types/player';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+
+// Define the schema for the form using Zod
+const playerFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Il nome del calciatore è richiesto.' }),
+  // Empty input means "no number"
+  shirt_number: z.union([
+    z.literal(''),
+    z.coerce.number().int().min(1, { message: 'Numero non valido.' }).max(99, { message: 'Numero non valido.' }),
+  ]).optional(),
+  position: z.enum(['goalkeeper', 'defender', 'midfielder', 'forward']).optional(),
+  preferred_foot: z.enum(['right', 'left', 'both']).optional(),
+  birth_date: z.string().optional(),
+  is_active: z.boolean().default(true),
+});
+
+type PlayerFormValues = z.infer<typeof playerFormSchema>;
+
+const emptyPlayerForm: PlayerFormValues = {
+  name: '',
+  shirt_number: '',
+  position: undefined,
+  preferred_foot: undefined,
+  birth_date: '',
+  is_active: true,
+};
+
+// Convert form values to the columns stored in the players table
+const toPlayerRow = (values: PlayerFormValues) => ({
+  name: values.name.replace(/\s+/g, ' '),
+  shirt_number: values.shirt_number === '' || values.shirt_number == null ? null : values.shirt_number,
+  position: values.position || null,
+  preferred_foot: values.preferred_foot || null,
+  birth_date: values.birth_date || null,
+  is_active: values.is_active,
+});
+
+
+const PlayersPage = () => {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canWrite = can('write');
+  const canDelete = can('delete');
+  const [editingPlayerId, setEditingPlayerId] = useState<string | null>(null); // State to track which player is being edited
+
+  const form = useForm<PlayerFormValues>({
+    resolver: zodResolver(playerFormSchema),
+    defaultValues: emptyPlayerForm,
+  });
+
+  const { data: players, isLoading: isLoadingPlayers, error: playersError } = usePlayers();
+
+  // Effect to populate form when editingPlayerId changes
+  useEffect(() => {
+    const playerToEdit = editingPlayerId && players?.find(player => player.id === editingPlayerId);
+    if (playerToEdit) {
+      form.reset({
+        name: playerToEdit.name,
+        shirt_number: playerToEdit.shirt_number ?? '',
+        position: playerToEdit.position,
+        preferred_foot: playerToEdit.preferred_foot,
+        birth_date: playerToEdit.birth_date || '',
+        is_active: playerToEdit.is_active,
+      });
+    } else {
+      form.reset(emptyPlayerForm);
+    }
+  }, [editingPlayerId, players, form]);
+
+  // Player names are shown next to their stats and in the dashboard totals too
+  const invalidatePlayerQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['players'] });
+    queryClient.invalidateQueries({ queryKey: ['playerStats'] });
+    queryClient.invalidateQueries({ queryKey: ['totalPlayerStats'] });
+  };
+
+  // Mutation for adding a new player
+  const addPlayerMutation = useMutation({
+    mutationFn: async (newPlayer: PlayerFormValues) => {
+      await repositories.players.create(toPlayerRow(newPlayer));
+    },
+    onSuccess: () => {
+      invalidatePlayerQueries();
+      showSuccess('Calciatore aggiunto con successo!');
+      form.reset(emptyPlayerForm);
+    },
+    onError: (error: Error) => {
+      console.error('Error inserting player:', error);
+      showError(`Errore durante l'inserimento del calciatore: ${error.message}`);
+    },
+  });
+
+  // Mutation for updating an existing player
+  const updatePlayerMutation = useMutation({
+    mutationFn: async (updatedPlayer: PlayerFormValues) => {
+      if (!editingPlayerId) throw new Error("No player ID provided for update.");
+      await repositories.players.update(editingPlayerId, toPlayerRow(updatedPlayer));
+    },
+    onSuccess: () => {
+      invalidatePlayerQueries();
+      showSuccess('Calciatore modificato con successo!');
+      setEditingPlayerId(null); // Exit editing mode
+    },
+    onError: (error: Error) => {
+      console.error('Error updating player:', error);
+      showError(`Errore durante la modifica del calciatore: ${error.message}`);
+    },
+  });
+
+  // Mutation for deleting a player
+  const deletePlayerMutation = useMutation({
+    mutationFn: async (playerId: string) => {
+      try {
+        await repositories.players.remove(playerId);
+      } catch (error) {
+        // 23503 = foreign key violation: the player still has stats
+        if (getErrorCode(error) === '23503') {
+          throw new Error('il calciatore ha delle statistiche registrate. Impostalo come non attivo.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidatePlayerQueries();
+      showSuccess('Calciatore eliminato con successo!');
+      if (editingPlayerId) {
+        setEditingPlayerId(null);
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting player:', error);
+      showError(`Errore durante l'eliminazione del calciatore: ${error.message}`);
+    },
+  });
+
+
+  const onSubmit = (values: PlayerFormValues) => {
+    // Two active players can't wear the same shirt
+    const shirtTaken = values.is_active && values.shirt_number !== '' && values.shirt_number != null && players?.find(player =>
+      player.id !== editingPlayerId && player.is_active && player.shirt_number === values.shirt_number,
+    );
+    if (shirtTaken) {
+      form.setError('shirt_number', { type: 'manual', message: `Numero già assegnato a ${shirtTaken.name}.` });
+      return;
+    }
+
+    if (editingPlayerId) {
+      updatePlayerMutation.mutate(values);
+    } else {
+      addPlayerMutation.mutate(values);
+    }
+  };
+
+  const handleEditPlayer = (player: Player) => {
+    setEditingPlayerId(player.id);
+    // The useEffect hook will handle populating the form
+  };
+
+  const handleCancelEdit = () => {
+    setEditingPlayerId(null);
+  };
+
+
+  if (isLoadingPlayers) {
+    return <div className="container mx-auto py-8">Caricamento rosa...</div>;
+  }
+
+  if (playersError) {
+    console.error('Error fetching players:', playersError);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento della rosa: {playersError.message}</div>;
+  }
+
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Rosa</h1>
+
+      {/* Form Card - only for users who can add and edit */}
+      {canWrite && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>{editingPlayerId ? 'Modifica Calciatore' : 'Aggiungi Calciatore'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Nome */}
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Nome e cognome" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Numero di maglia */}
+                <FormField
+                  control={form.control}
+                  name="shirt_number"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Numero di Maglia</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={99} className="w-[120px]" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Ruolo */}
+                <FormField
+                  control={form.control}
+                  name="position"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ruolo</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? ''}>
+                        <FormControl>
+                          <SelectTrigger className="w-[240px]">
+                            <SelectValue placeholder="Seleziona un ruolo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(positionLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Piede preferito */}
+                <FormField
+                  control={form.control}
+                  name="preferred_foot"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Piede Preferito</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? ''}>
+                        <FormControl>
+                          <SelectTrigger className="w-[240px]">
+                            <SelectValue placeholder="Seleziona il piede" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(footLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Data di nascita */}
+                <FormField
+                  control={form.control}
+                  name="birth_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data di Nascita</FormLabel>
+                      <FormControl>
+                        <Input type="date" className="w-[240px]" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Attivo */}
+                <FormField
+                  control={form.control}
+                  name="is_active"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>In rosa (attivo)</FormLabel>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={addPlayerMutation.isPending || updatePlayerMutation.isPending}>
+                    {editingPlayerId ? (updatePlayerMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addPlayerMutation.isPending ? 'Aggiunta...' : 'Aggiungi Calciatore')}
+                  </Button>
+                  {editingPlayerId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Annulla Modifica
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Roster */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Elenco Calciatori</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {players && players.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>N°</TableHead>
+                  <TableHead>Calciatore</TableHead>
+                  <TableHead>Ruolo</TableHead>
+                  <TableHead>Piede</TableHead>
+                  <TableHead>Data di Nascita</TableHead>
+                  <TableHead>Stato</TableHead>
+                  {(canWrite || canDelete) && <TableHead className="text-right">Azioni</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {players.map((player) => (
+                  <TableRow key={player.id} className={player.is_active ? undefined : 'opacity-60'}>
+                    <TableCell>{player.shirt_number ?? '-'}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/players/${player.id}`} className="hover:underline">{player.name}</Link>
+                    </TableCell>
+                    <TableCell>{player.position ? positionLabels[player.position] : '-'}</TableCell>
+                    <TableCell>{player.preferred_foot ? footLabels[player.preferred_foot] : '-'}</TableCell>
+                    <TableCell>{player.birth_date ? format(new Date(player.birth_date), 'PPP') : '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={player.is_active ? 'default' : 'secondary'}>{player.is_active ? 'Attivo' : 'Non attivo'}</Badge>
+                    </TableCell>
+                    {(canWrite || canDelete) && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          {canWrite && (
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditPlayer(player)}>
+                              <EditIcon className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="icon" className="h-8 w-8">
+                                  <Trash2Icon className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Questa azione non può essere annullata. Verrà eliminato definitivamente il calciatore selezionato.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deletePlayerMutation.mutate(player.id)}>Elimina</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Nessun calciatore in rosa.{canWrite && ' Aggiungi un calciatore qui sopra.'}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PlayersPage;
@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { ArchiveIcon, ArchiveRestoreIcon, EditIcon, Trash2Icon } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { repositories, SeasonValues } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useSeason } from '@/hooks/use-season';
+import { seasonsOverlap } from '@/lib/seasons';
+import type { Season } from '@/types/season';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+
+// Define the schema for the form using Zod
+const seasonFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Il nome della stagione è richiesto.' }),
+  start_date: z.string().min(1, { message: 'La data di inizio è richiesta.' }),
+  end_date: z.string().min(1, { message: 'La data di fine è richiesta.' }),
+}).refine(values => values.end_date > values.start_date, {
+  message: 'La data di fine deve essere successiva a quella di inizio.',
+  path: ['end_date'],
+});
+
+type SeasonFormValues = z.infer<typeof seasonFormSchema>;
+
+const emptySeasonForm: SeasonFormValues = {
+  name: '',
+  start_date: '',
+  end_date: '',
+};
+
+
+const SeasonsPage = () => {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canManage = can('manage'); // Only admins create, archive and delete seasons
+  const { seasons, season: selectedSeason, isLoading: isLoadingSeasons, selectSeason } = useSeason();
+  const [editingSeasonId, setEditingSeasonId] = useState<string | null>(null); // State to track which season is being edited
+
+  const form = useForm<SeasonFormValues>({
+    resolver: zodResolver(seasonFormSchema),
+    defaultValues: emptySeasonForm,
+  });
+
+  // Effect to populate form when editingSeasonId changes
+  useEffect(() => {
+    const seasonToEdit = editingSeasonId && seasons.find(season => season.id === editingSeasonId);
+    if (seasonToEdit) {
+      form.reset({
+        name: seasonToEdit.name,
+        start_date: seasonToEdit.start_date,
+        end_date: seasonToEdit.end_date,
+      });
+    } else {
+      form.reset(emptySeasonForm);
+    }
+  }, [editingSeasonId, seasons, form]);
+
+  // Changing a season moves matches and stats in or out of it, so every page has to reload
+  const invalidateSeasonQueries = () => {
+    queryClient.invalidateQueries();
+  };
+
+  // Mutation for adding a new season
+  const addSeasonMutation = useMutation({
+    mutationFn: async (newSeason: SeasonFormValues) => {
+      return repositories.seasons.create({ ...newSeason, is_archived: false } as SeasonValues);
+    },
+    onSuccess: (season) => {
+      invalidateSeasonQueries();
+      showSuccess('Stagione aggiunta con successo!');
+      form.reset(emptySeasonForm);
+      selectSeason(season.id);
+    },
+    onError: (error: Error) => {
+      console.error('Error inserting season:', error);
+      showError(`Errore durante l'inserimento della stagione: ${error.message}`);
+    },
+  });
+
+  // Mutation for updating an existing season
+  const updateSeasonMutation = useMutation({
+    mutationFn: async (updatedSeason: SeasonFormValues) => {
+      if (!editingSeasonId) throw new Error("No season ID provided for update.");
+      await repositories.seasons.update(editingSeasonId, updatedSeason);
+    },
+    onSuccess: () => {
+      invalidateSeasonQueries();
+      showSuccess('Stagione modificata con successo!');
+      setEditingSeasonId(null); // Exit editing mode
+    },
+    onError: (error: Error) => {
+      console.error('Error updating season:', error);
+      showError(`Errore durante la modifica della stagione: ${error.message}`);
+    },
+  });
+
+  // Mutation for archiving (freezing) a season or reopening it
+  const archiveSeasonMutation = useMutation({
+    mutationFn: async ({ seasonId, isArchived }: { seasonId: string; isArchived: boolean }) => {
+      await repositories.seasons.update(seasonId, { is_archived: isArchived });
+      return isArchived;
+    },
+    onSuccess: (isArchived) => {
+      invalidateSeasonQueries();
+      showSuccess(isArchived ? 'Stagione archiviata: i suoi dati sono ora in sola lettura.' : 'Stagione riaperta.');
+    },
+    onError: (error: Error) => {
+      console.error('Error archiving season:', error);
+      showError(`Errore durante l'archiviazione della stagione: ${error.message}`);
+    },
+  });
+
+  // Mutation for deleting a season (its matches and stats are kept, they just no longer belong to a season)
+  const deleteSeasonMutation = useMutation({
+    mutationFn: async (seasonId: string) => {
+      await repositories.seasons.remove(seasonId);
+    },
+    onSuccess: () => {
+      invalidateSeasonQueries();
+      showSuccess('Stagione eliminata con successo!');
+      if (editingSeasonId) {
+        setEditingSeasonId(null);
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting season:', error);
+      showError(`Errore durante l'eliminazione della stagione: ${error.message}`);
+    },
+  });
+
+
+  const onSubmit = (values: SeasonFormValues) => {
+    // Every match has to fall in one season at most
+    const overlapping = seasons.find(season => season.id !== editingSeasonId && seasonsOverlap(season, { start_date: values.start_date, end_date: values.end_date }));
+    if (overlapping) {
+      form.setError('start_date', { type: 'manual', message: `Le date si sovrappongono alla stagione "${overlapping.name}".` });
+      return;
+    }
+
+    if (editingSeasonId) {
+      updateSeasonMutation.mutate(values);
+    } else {
+      addSeasonMutation.mutate(values);
+    }
+  };
+
+  const handleEditSeason = (season: Season) => {
+    setEditingSeasonId(season.id);
+    // The useEffect hook will handle populating the form
+  };
+
+  const handleCancelEdit = () => {
+    setEditingSeasonId(null);
+  };
+
+
+  if (isLoadingSeasons) {
+    return <div className="container mx-auto py-8">Caricamento stagioni...</div>;
+  }
+
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Gestione Stagioni</h1>
+
+      {/* Form Card - only for admins */}
+      {canManage && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>{editingSeasonId ? 'Modifica Stagione' : 'Aggiungi Nuova Stagione'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Nome */}
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Es. 2024/25" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Date */}
+                <div className="flex flex-wrap gap-4">
+                  <FormField
+                    control={form.control}
+                    name="start_date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Inizio</FormLabel>
+                        <FormControl>
+                          <Input type="date" className="w-[240px]" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="end_date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fine</FormLabel>
+                        <FormControl>
+                          <Input type="date" className="w-[240px]" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={addSeasonMutation.isPending || updateSeasonMutation.isPending}>
+                    {editingSeasonId ? (updateSeasonMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addSeasonMutation.isPending ? 'Aggiunta...' : 'Aggiungi Stagione')}
+                  </Button>
+                  {editingSeasonId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Annulla Modifica
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List of seasons */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Elenco Stagioni</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {seasons.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Inizio</TableHead>
+                  <TableHead>Fine</TableHead>
+                  <TableHead>Stato</TableHead>
+                  {canManage && <TableHead className="text-right">Azioni</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {seasons.map((season) => (
+                  <TableRow key={season.id}>
+                    <TableCell className="font-medium">
+                      {season.name}
+                      {season.id === selectedSeason?.id && <Badge variant="outline" className="ml-2">Selezionata</Badge>}
+                    </TableCell>
+                    <TableCell>{format(new Date(season.start_date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>{format(new Date(season.end_date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>
+                      <Badge variant={season.is_archived ? 'secondary' : 'default'}>{season.is_archived ? 'Archiviata' : 'Aperta'}</Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          {!season.is_archived && (
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditSeason(season)}>
+                              <EditIcon className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="icon" className="h-8 w-8" title={season.is_archived ? 'Riapri' : 'Archivia'}>
+                                {season.is_archived ? <ArchiveRestoreIcon className="h-4 w-4" /> : <ArchiveIcon className="h-4 w-4" />}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>{season.is_archived ? 'Riaprire la stagione?' : 'Archiviare la stagione?'}</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {season.is_archived
+                                    ? `Partite e statistiche della stagione ${season.name} torneranno modificabili.`
+                                    : `Partite e statistiche della stagione ${season.name} diventeranno di sola lettura per tutti gli utenti.`}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => archiveSeasonMutation.mutate({ seasonId: season.id, isArchived: !season.is_archived })}>
+                                  {season.is_archived ? 'Riapri' : 'Archivia'}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                          {!season.is_archived && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="icon" className="h-8 w-8">
+                                  <Trash2Icon className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Verrà eliminata la stagione selezionata. Le sue partite e statistiche non vengono eliminate.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deleteSeasonMutation.mutate(season.id)}>Elimina</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Nessuna stagione trovata.{canManage && ' Aggiungi una stagione qui sopra.'}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SeasonsPage;
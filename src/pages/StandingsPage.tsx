@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMatches } from '@/hooks/use-matches';
+import { useCompetitions } from '@/hooks/use-competitions';
+import { cn } from '@/lib/utils';
+import { computeStandings, tieBreakerLabels } from '@/lib/standings';
+import { getStandingsRules, hasStandings } from '@/lib/competitions';
+import TeamName from '@/components/TeamName';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const StandingsPage = () => {
+  const { data: matches, isLoading: isLoadingMatches, error: matchesError } = useMatches();
+  const { data: allCompetitions, isLoading: isLoadingCompetitions, error: competitionsError } = useCompetitions();
+  const [selectedCompetitionId, setSelectedCompetitionId] = useState<string>('');
+
+  const competitions = (allCompetitions || []).filter(hasStandings);
+  const competition = competitions.find(item => item.id === selectedCompetitionId) ?? competitions[0];
+
+  // Only matches already played count, with the points rules of the competition
+  const standings = useMemo(() => {
+    if (!competition) return [];
+    const now = new Date();
+    const playedMatches = (matches || []).filter(match =>
+      match.competition_id === competition.id && new Date(match.match_date) <= now);
+    return computeStandings(playedMatches, getStandingsRules(competition));
+  }, [matches, competition]);
+
+  if (isLoadingMatches || isLoadingCompetitions) {
+    return <div className="container mx-auto py-8">Caricamento partite...</div>;
+  }
+
+  if (matchesError || competitionsError) {
+    const error = matchesError || competitionsError;
+    console.error('Error fetching standings data:', error);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento delle partite: {error.message}</div>;
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Classifica</h1>
+
+      {!competition ? (
+        <p>
+          Nessuna competizione con classifica in questa stagione.{' '}
+          <Link to="/competitions" className="underline">Aggiungi una competizione</Link> e assegnala alle partite.
+        </p>
+      ) : (
+        <>
+          <div className="mb-6 w-[280px]">
+            <Select value={competition.id} onValueChange={setSelectedCompetitionId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {competitions.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Standings table */}
+          <Card className="bg-blue-50 dark:bg-blue-900">
+            <CardHeader>
+              <CardTitle>{competition.name}</CardTitle>
+              {/* The rules are edited on the competitions page */}
+              <p className="text-sm text-muted-foreground">
+                Vittoria {competition.points_per_win} · Pareggio {competition.points_per_draw} · Sconfitta {competition.points_per_loss}
+                {competition.tie_breakers.length > 0 && ` · A parità di punti: ${competition.tie_breakers.map(tieBreaker => tieBreakerLabels[tieBreaker]).join(', ')}`}
+              </p>
+            </CardHeader>
+            <CardContent>
+              {standings.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pos</TableHead>
+                      <TableHead>Squadra</TableHead>
+                      <TableHead>Pt</TableHead>
+                      <TableHead>G</TableHead>
+                      <TableHead>V</TableHead>
+                      <TableHead>N</TableHead>
+                      <TableHead>P</TableHead>
+                      <TableHead>GF</TableHead>
+                      <TableHead>GS</TableHead>
+                      <TableHead>DR</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {standings.map((row, index) => (
+                      <TableRow key={row.teamId} className={cn(row.team?.is_own_club && 'font-semibold bg-blue-100 dark:bg-blue-800')}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell><TeamName team={row.team} /></TableCell>
+                        <TableCell className="font-bold">{row.points}</TableCell>
+                        <TableCell>{row.played}</TableCell>
+                        <TableCell>{row.won}</TableCell>
+                        <TableCell>{row.drawn}</TableCell>
+                        <TableCell>{row.lost}</TableCell>
+                        <TableCell>{row.goalsFor}</TableCell>
+                        <TableCell>{row.goalsAgainst}</TableCell>
+                        <TableCell>{row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p>Nessuna partita giocata in questa competizione.</p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StandingsPage;
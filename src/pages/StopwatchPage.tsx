@@ -1,11 +1,14 @@
 import React from 'react';
 import Stopwatch from '@/components/Stopwatch';
+import { useStopwatch } from '@/hooks/use-stopwatch';
 
 const StopwatchPage: React.FC = () => {
+  const stopwatch = useStopwatch();
+
   return (
     <div className="container mx-auto py-8">
       <h1 className="text-3xl font-bold mb-6 text-center">Cronometro</h1>
-      <Stopwatch />
+      <Stopwatch stopwatch={stopwatch} />
     </div>
   );
 };
@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Trash2Icon, EditIcon } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getErrorCode, repositories } from '@/lib/repositories';
+import { showSuccess, showError } from '@/utils/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useTeams } from '@/hooks/use-teams';
+import { TeamColors } from '@/components/TeamName';
+import type { Team } from '@/types/team';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: 'Colore non valido.' });
+
+// Define the schema for the form using Zod
+const teamFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Il nome della squadra è richiesto.' }),
+  short_name: z.string().trim().max(5, { message: 'Massimo 5 caratteri.' }).optional(),
+  primary_color: hexColor,
+  secondary_color: hexColor,
+  logo_url: z.string().trim().url({ message: 'Inserisci un URL valido.' }).optional().or(z.literal('')),
+  is_own_club: z.boolean().default(false),
+});
+
+type TeamFormValues = z.infer<typeof teamFormSchema>;
+
+const emptyTeamForm: TeamFormValues = {
+  name: '',
+  short_name: '',
+  primary_color: '#1d4ed8',
+  secondary_color: '#ffffff',
+  logo_url: '',
+  is_own_club: false,
+};
+
+// Team names are compared ignoring case and extra spaces, so "Leon" and "leon " are the same club
+const normalizeTeamName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Convert form values to the columns stored in the teams table
+const toTeamRow = (values: TeamFormValues) => ({
+  name: values.name.replace(/\s+/g, ' '),
+  short_name: values.short_name ? values.short_name.toUpperCase() : null,
+  primary_color: values.primary_color,
+  secondary_color: values.secondary_color,
+  logo_url: values.logo_url || null,
+  is_own_club: values.is_own_club,
+});
+
+
+const TeamsPage = () => {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canWrite = can('write');
+  const canDelete = can('delete');
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null); // State to track which team is being edited
+
+  const form = useForm<TeamFormValues>({
+    resolver: zodResolver(teamFormSchema),
+    defaultValues: emptyTeamForm,
+  });
+
+  const { data: teams, isLoading: isLoadingTeams, error: teamsError } = useTeams();
+
+  // Effect to populate form when editingTeamId changes
+  useEffect(() => {
+    const teamToEdit = editingTeamId && teams?.find(team => team.id === editingTeamId);
+    if (teamToEdit) {
+      form.reset({
+        name: teamToEdit.name,
+        short_name: teamToEdit.short_name || '',
+        primary_color: teamToEdit.primary_color || emptyTeamForm.primary_color,
+        secondary_color: teamToEdit.secondary_color || emptyTeamForm.secondary_color,
+        logo_url: teamToEdit.logo_url || '',
+        is_own_club: teamToEdit.is_own_club,
+      });
+    } else {
+      form.reset(emptyTeamForm);
+    }
+  }, [editingTeamId, teams, form]);
+
+  // Teams are shown in the matches list and dashboard too
+  const invalidateTeamQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['teams'] });
+    queryClient.invalidateQueries({ queryKey: ['matches'] });
+    queryClient.invalidateQueries({ queryKey: ['latestMatches'] });
+  };
+
+  // Mutation for adding a new team
+  const addTeamMutation = useMutation({
+    mutationFn: async (newTeam: TeamFormValues) => {
+      await repositories.teams.create(toTeamRow(newTeam));
+    },
+    onSuccess: () => {
+      invalidateTeamQueries();
+      showSuccess('Squadra aggiunta con successo!');
+      form.reset(emptyTeamForm);
+    },
+    onError: (error: Error) => {
+      console.error('Error inserting team:', error);
+      showError(`Errore durante l'inserimento della squadra: ${error.message}`);
+    },
+  });
+
+  // Mutation for updating an existing team
+  const updateTeamMutation = useMutation({
+    mutationFn: async (updatedTeam: TeamFormValues) => {
+      if (!editingTeamId) throw new Error("No team ID provided for update.");
+      await repositories.teams.update(editingTeamId, toTeamRow(updatedTeam));
+    },
+    onSuccess: () => {
+      invalidateTeamQueries();
+      showSuccess('Squadra modificata con successo!');
+      setEditingTeamId(null); // Exit editing mode
+    },
+    onError: (error: Error) => {
+      console.error('Error updating team:', error);
+      showError(`Errore durante la modifica della squadra: ${error.message}`);
+    },
+  });
+
+  // Mutation for deleting a team
+  const deleteTeamMutation = useMutation({
+    mutationFn: async (teamId: string) => {
+      try {
+        await repositories.teams.remove(teamId);
+      } catch (error) {
+        // 23503 = foreign key violation: the team is still used by some matches
+        if (getErrorCode(error) === '23503') {
+          throw new Error('la squadra è usata in una o più partite.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateTeamQueries();
+      showSuccess('Squadra eliminata con successo!');
+      if (editingTeamId) {
+        setEditingTeamId(null);
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting team:', error);
+      showError(`Errore durante l'eliminazione della squadra: ${error.message}`);
+    },
+  });
+
+
+  const onSubmit = (values: TeamFormValues) => {
+    // Prevent duplicates such as "Leon" and "leon "
+    const duplicate = teams?.find(team =>
+      team.id !== editingTeamId && normalizeTeamName(team.name) === normalizeTeamName(values.name),
+    );
+    if (duplicate) {
+      form.setError('name', { type: 'manual', message: `Esiste già la squadra "${duplicate.name}".` });
+      return;
+    }
+
+    // Only one team can be our club
+    const otherOwnClub = values.is_own_club && teams?.find(team => team.id !== editingTeamId && team.is_own_club);
+    if (otherOwnClub) {
+      form.setError('is_own_club', { type: 'manual', message: `"${otherOwnClub.name}" è già indicata come la nostra squadra.` });
+      return;
+    }
+
+    if (editingTeamId) {
+      updateTeamMutation.mutate(values);
+    } else {
+      addTeamMutation.mutate(values);
+    }
+  };
+
+  const handleEditTeam = (team: Team) => {
+    setEditingTeamId(team.id);
+    // The useEffect hook will handle populating the form
+  };
+
+  const handleCancelEdit = () => {
+    setEditingTeamId(null);
+  };
+
+
+  if (isLoadingTeams) {
+    return <div className="container mx-auto py-8">Caricamento squadre...</div>;
+  }
+
+  if (teamsError) {
+    console.error('Error fetching teams:', teamsError);
+    return <div className="container mx-auto py-8 text-red-500">Errore nel caricamento delle squadre: {teamsError.message}</div>;
+  }
+
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="text-3xl font-bold mb-6">Gestione Squadre</h1>
+
+      {/* Form Card - only for users who can add and edit */}
+      {canWrite && (
+        <Card className="mb-8 bg-blue-50 dark:bg-blue-900">
+          <CardHeader>
+            <CardTitle>{editingTeamId ? 'Modifica Squadra' : 'Aggiungi Nuova Squadra'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Nome */}
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Es. 14 Leon" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Nome breve */}
+                <FormField
+                  control={form.control}
+                  name="short_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome Breve</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Es. LEO" maxLength={5} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Colori */}
+                <div className="flex space-x-4">
+                  <FormField
+                    control={form.control}
+                    name="primary_color"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Colore Principale</FormLabel>
+                        <FormControl>
+                          <Input type="color" className="h-10 w-20 p-1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="secondary_color"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Colore Secondario</FormLabel>
+                        <FormControl>
+                          <Input type="color" className="h-10 w-20 p-1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Logo */}
+                <FormField
+                  control={form.control}
+                  name="logo_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Logo (URL)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://..." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Nostra squadra */}
+                <FormField
+                  control={form.control}
+                  name="is_own_club"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center space-x-2">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel>La nostra squadra</FormLabel>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={addTeamMutation.isPending || updateTeamMutation.isPending}>
+                    {editingTeamId ? (updateTeamMutation.isPending ? 'Salvataggio...' : 'Salva Modifiche') : (addTeamMutation.isPending ? 'Aggiunta...' : 'Aggiungi Squadra')}
+                  </Button>
+                  {editingTeamId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Annulla Modifica
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List of teams */}
+      <Card className="bg-blue-50 dark:bg-blue-900">
+        <CardHeader>
+          <CardTitle>Elenco Squadre</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {teams && teams.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Colori</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Nome Breve</TableHead>
+                  {(canWrite || canDelete) && <TableHead className="text-right">Azioni</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell><TeamColors team={team} /></TableCell>
+                    <TableCell className="font-medium">
+                      {team.name}
+                      {team.is_own_club && <Badge className="ml-2">Nostra squadra</Badge>}
+                    </TableCell>
+                    <TableCell>{team.short_name || '-'}</TableCell>
+                    {(canWrite || canDelete) && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          {canWrite && (
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleEditTeam(team)}>
+                              <EditIcon className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="icon" className="h-8 w-8">
+                                  <Trash2Icon className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Sei assolutamente sicuro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Questa azione non può essere annullata. Verrà eliminata definitivamente la squadra selezionata.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Annulla</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deleteTeamMutation.mutate(team.id)}>Elimina</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p>Nessuna squadra trovata.{canWrite && ' Aggiungi una squadra qui sopra.'}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamsPage;
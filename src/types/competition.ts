@@ -0,0 +1,10 @@
+import type { TieBreaker } from '@/lib/standings';
+import type { Tables } from './database';
+
+export type CompetitionType = 'league' | 'cup' | 'friendly' | 'tournament';
+
+// Competition row from the competitions table, with the values the check constraints allow
+export interface Competition extends Omit<Tables<'competitions'>, 'type' | 'tie_breakers'> {
+  type: CompetitionType;
+  tie_breakers: TieBreaker[]; // Applied in order when teams have the same points
+}
@@ -0,0 +1,549 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      competitions: {
+        Row: {
+          counts_for_stats: boolean
+          id: string
+          name: string
+          points_per_draw: number
+          points_per_loss: number
+          points_per_win: number
+          season_id: string | null
+          tie_breakers: string[]
+          type: string
+        }
+        Insert: {
+          counts_for_stats?: boolean
+          id?: string
+          name: string
+          points_per_draw?: number
+          points_per_loss?: number
+          points_per_win?: number
+          season_id?: string | null
+          tie_breakers?: string[]
+          type?: string
+        }
+        Update: {
+          counts_for_stats?: boolean
+          id?: string
+          name?: string
+          points_per_draw?: number
+          points_per_loss?: number
+          points_per_win?: number
+          season_id?: string | null
+          tie_breakers?: string[]
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "competitions_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_events: {
+        Row: {
+          added_minute: number | null
+          created_at: string
+          event_type: string
+          goal_type: string | null
+          id: string
+          match_id: string
+          minute: number
+          notes: string | null
+          period: string | null
+          player_id: string | null
+          related_player_id: string | null
+          team_id: string
+        }
+        Insert: {
+          added_minute?: number | null
+          created_at?: string
+          event_type: string
+          goal_type?: string | null
+          id?: string
+          match_id: string
+          minute: number
+          notes?: string | null
+          period?: string | null
+          player_id?: string | null
+          related_player_id?: string | null
+          team_id: string
+        }
+        Update: {
+          added_minute?: number | null
+          created_at?: string
+          event_type?: string
+          goal_type?: string | null
+          id?: string
+          match_id?: string
+          minute?: number
+          notes?: string | null
+          period?: string | null
+          player_id?: string | null
+          related_player_id?: string | null
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_events_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "match_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_events_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_events_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_events_related_player_id_fkey"
+            columns: ["related_player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_events_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      matches: {
+        Row: {
+          away_goals: number
+          away_team_id: string
+          competition: string | null
+          competition_id: string | null
+          home_goals: number
+          home_team_id: string
+          id: string
+          match_date: string
+          notes: string | null
+        }
+        Insert: {
+          away_goals?: number
+          away_team_id: string
+          competition?: string | null
+          competition_id?: string | null
+          home_goals?: number
+          home_team_id: string
+          id?: string
+          match_date: string
+          notes?: string | null
+        }
+        Update: {
+          away_goals?: number
+          away_team_id?: string
+          competition?: string | null
+          competition_id?: string | null
+          home_goals?: number
+          home_team_id?: string
+          id?: string
+          match_date?: string
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matches_away_team_id_fkey"
+            columns: ["away_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_competition_id_fkey"
+            columns: ["competition_id"]
+            isOneToOne: false
+            referencedRelation: "competitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_home_team_id_fkey"
+            columns: ["home_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      player_stats: {
+        Row: {
+          assists: number
+          created_at: string
+          header_goals: number
+          id: string
+          left_foot_goals: number
+          match_details: string | null
+          match_id: string | null
+          notes: string | null
+          penalties: number
+          player_id: string | null
+          player_name: string | null
+          red_cards: number
+          right_foot_goals: number
+          yellow_cards: number
+        }
+        Insert: {
+          assists?: number
+          created_at?: string
+          header_goals?: number
+          id?: string
+          left_foot_goals?: number
+          match_details?: string | null
+          match_id?: string | null
+          notes?: string | null
+          penalties?: number
+          player_id?: string | null
+          player_name?: string | null
+          red_cards?: number
+          right_foot_goals?: number
+          yellow_cards?: number
+        }
+        Update: {
+          assists?: number
+          created_at?: string
+          header_goals?: number
+          id?: string
+          left_foot_goals?: number
+          match_details?: string | null
+          match_id?: string | null
+          notes?: string | null
+          penalties?: number
+          player_id?: string | null
+          player_name?: string | null
+          red_cards?: number
+          right_foot_goals?: number
+          yellow_cards?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "player_stats_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "match_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "player_stats_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "player_stats_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      players: {
+        Row: {
+          birth_date: string | null
+          id: string
+          is_active: boolean
+          name: string
+          position: string | null
+          preferred_foot: string | null
+          shirt_number: number | null
+        }
+        Insert: {
+          birth_date?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          position?: string | null
+          preferred_foot?: string | null
+          shirt_number?: number | null
+        }
+        Update: {
+          birth_date?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          position?: string | null
+          preferred_foot?: string | null
+          shirt_number?: number | null
+        }
+        Relationships: []
+      }
+      seasons: {
+        Row: {
+          end_date: string
+          id: string
+          is_archived: boolean
+          name: string
+          start_date: string
+        }
+        Insert: {
+          end_date: string
+          id?: string
+          is_archived?: boolean
+          name: string
+          start_date: string
+        }
+        Update: {
+          end_date?: string
+          id?: string
+          is_archived?: boolean
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      teams: {
+        Row: {
+          id: string
+          is_own_club: boolean
+          logo_url: string | null
+          name: string
+          primary_color: string | null
+          secondary_color: string | null
+          short_name: string | null
+        }
+        Insert: {
+          id?: string
+          is_own_club?: boolean
+          logo_url?: string | null
+          name: string
+          primary_color?: string | null
+          secondary_color?: string | null
+          short_name?: string | null
+        }
+        Update: {
+          id?: string
+          is_own_club?: boolean
+          logo_url?: string | null
+          name?: string
+          primary_color?: string | null
+          secondary_color?: string | null
+          short_name?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      match_list: {
+        Row: {
+          away_goals: number | null
+          away_team_id: string | null
+          away_team_name: string | null
+          competition: string | null
+          competition_id: string | null
+          competition_name: string | null
+          home_goals: number | null
+          home_team_id: string | null
+          home_team_name: string | null
+          id: string | null
+          is_home: boolean | null
+          match_date: string | null
+          notes: string | null
+          opponent_id: string | null
+          result: string | null
+          search_text: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matches_away_team_id_fkey"
+            columns: ["away_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_competition_id_fkey"
+            columns: ["competition_id"]
+            isOneToOne: false
+            referencedRelation: "competitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_home_team_id_fkey"
+            columns: ["home_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      player_total_stats: {
+        Row: {
+          player_id: string | null
+          player_name: string | null
+          season_id: string | null
+          total_assists: number | null
+          total_header_goals: number | null
+          total_left_foot_goals: number | null
+          total_penalties: number | null
+          total_red_cards: number | null
+          total_right_foot_goals: number | null
+          total_yellow_cards: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_permission: {
+        Args: { permission: string }
+        Returns: boolean
+      }
+      link_player_stats_by_name: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      sync_match_from_events: {
+        Args: { p_match_id: string }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,14 @@
+import type { Competition } from './competition';
+import type { Tables } from './database';
+import type { Team } from './team';
+
+// Match row from the matches table. competition is the legacy free-text competition,
+// kept for matches entered before the competitions table.
+export type Match = Tables<'matches'>;
+
+// Match with both teams and the competition resolved
+export interface MatchWithTeams extends Match {
+  home_team: Team | null;
+  away_team: Team | null;
+  competition_info: Competition | null;
+}
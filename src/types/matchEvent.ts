@@ -0,0 +1,13 @@
+import type { Tables } from './database';
+
+export type MatchEventType = 'goal' | 'own_goal' | 'yellow_card' | 'red_card' | 'substitution';
+export type GoalType = 'right_foot' | 'left_foot' | 'header' | 'penalty';
+
+// Row from the match_events table. One row per goal, card or substitution.
+// team_id: the team credited with a goal (own goals included), or the player's team for cards and substitutions.
+// player_id: scorer, booked player or player coming off, null for opponents.
+// related_player_id: assist provider for a goal, player coming on for a substitution.
+export interface MatchEvent extends Omit<Tables<'match_events'>, 'event_type' | 'goal_type'> {
+  event_type: MatchEventType;
+  goal_type: GoalType | null; // Only for goals
+}
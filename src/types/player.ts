@@ -0,0 +1,11 @@
+import type { Tables } from './database';
+
+export type PlayerPosition = 'goalkeeper' | 'defender' | 'midfielder' | 'forward';
+export type PreferredFoot = 'right' | 'left' | 'both';
+
+// Player row from the players table (the club's roster). Inactive players are kept
+// for their history but hidden from pickers.
+export interface Player extends Omit<Tables<'players'>, 'position' | 'preferred_foot'> {
+  position: PlayerPosition | null;
+  preferred_foot: PreferredFoot | null;
+}
@@ -0,0 +1,21 @@
+import type { Tables } from './database';
+import type { MatchWithTeams } from './match';
+import type { Player } from './player';
+
+// Player stat row from the player_stats table, with player and match resolved.
+// player_name and match_details are legacy free text, kept for rows entered before the roster
+// and the matches table (see MatchLinkingPage).
+export interface PlayerStat extends Tables<'player_stats'> {
+  player: Pick<Player, 'id' | 'name' | 'shirt_number'> | null;
+  match: MatchWithTeams | null;
+}
+
+// Goal columns of a stat row with the date and competition of its match, for the squad charts
+export type PlayerGoals = Pick<PlayerStat, 'right_foot_goals' | 'left_foot_goals' | 'header_goals' | 'penalties'> & {
+  match: Pick<MatchWithTeams, 'match_date' | 'competition_id' | 'competition_info'> | null;
+};
+
+// Row of the player_total_stats view: one per player and season, friendlies left out.
+// Totals are grouped by roster player, so renames don't split them; legacy rows not linked to
+// a player are grouped by their free-text name, with a null player_id.
+export type PlayerTotalStats = Tables<'player_total_stats'>;
@@ -0,0 +1,5 @@
+import type { Tables } from './database';
+
+// Season row from the seasons table. start_date and end_date are yyyy-MM-dd, both included;
+// archived seasons are read-only.
+export type Season = Tables<'seasons'>;
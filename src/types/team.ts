@@ -0,0 +1,5 @@
+import type { Tables } from './database';
+
+// Team row from the teams table. Colours are hex (#1d4ed8); is_own_club marks our club's team,
+// whose players are in the roster.
+export type Team = Tables<'teams'>;
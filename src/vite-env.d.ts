@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_DATA_BACKEND?: 'supabase' | 'memory'; // Supabase when unset
+}
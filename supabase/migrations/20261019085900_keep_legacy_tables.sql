@@ -0,0 +1,11 @@
+-- Projects created by the first version of the app already have a matches table (teams as free text)
+-- and a player_stats table (players and matches as free text), plus a player_total_stats view on them.
+-- They are moved to the legacy schema, out of the way of the tables created next, and their rows
+-- are imported by the import_legacy_data migration. On a new project this does nothing.
+
+create schema if not exists legacy;
+
+drop view if exists public.player_total_stats;
+
+alter table if exists public.player_stats set schema legacy;
+alter table if exists public.matches set schema legacy;
@@ -0,0 +1,124 @@
+-- Club data: seasons, teams, competitions, the roster, matches, per-player stats and match timelines.
+-- Enumerations are text columns with a check, so adding a value is a one-line migration.
+
+create extension if not exists pgcrypto; -- gen_random_uuid() on Postgres < 13
+
+-- Seasons: every match belongs to the season its date falls in
+create table public.seasons (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(trim(name)) > 0), -- E.g. "2024/25"
+  start_date date not null, -- First day included
+  end_date date not null, -- Last day included
+  is_archived boolean not null default false, -- Archived seasons are read-only in the app
+  constraint seasons_dates_check check (end_date > start_date),
+  -- Two seasons never overlap, so a match date points to one season at most
+  constraint seasons_no_overlap exclude using gist ((daterange(start_date, end_date, '[]')) with &&)
+);
+
+-- Teams: our club and its opponents
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(trim(name)) > 0),
+  short_name text check (char_length(short_name) <= 5),
+  primary_color text check (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  secondary_color text check (secondary_color ~ '^#[0-9a-fA-F]{6}$'),
+  logo_url text,
+  is_own_club boolean not null default false -- Our club's team, whose players are in the roster
+);
+
+-- Only one team can be our club
+create unique index teams_one_own_club on public.teams (is_own_club) where is_own_club;
+
+create table public.competitions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(trim(name)) > 0),
+  type text not null default 'league' check (type in ('league', 'cup', 'friendly', 'tournament')),
+  -- Deleting a season keeps its competitions, matches and stats
+  season_id uuid references public.seasons (id) on delete set null,
+  points_per_win integer not null default 3,
+  points_per_draw integer not null default 1,
+  points_per_loss integer not null default 0,
+  -- Applied in order when teams have the same points
+  tie_breakers text[] not null default array['head_to_head', 'goal_difference', 'goals_for']
+    check (tie_breakers <@ array['head_to_head', 'goal_difference', 'goals_for']),
+  counts_for_stats boolean not null default true -- False for friendlies: their stats stay out of the official totals
+);
+
+create index competitions_season_id_idx on public.competitions (season_id);
+
+-- The club's roster. Players with stats can't be deleted, only set as inactive.
+create table public.players (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(trim(name)) > 0),
+  shirt_number integer check (shirt_number between 1 and 99),
+  position text check (position in ('goalkeeper', 'defender', 'midfielder', 'forward')),
+  preferred_foot text check (preferred_foot in ('right', 'left', 'both')),
+  birth_date date,
+  is_active boolean not null default true
+);
+
+create table public.matches (
+  id uuid primary key default gen_random_uuid(),
+  match_date timestamptz not null,
+  -- Named constraints: the app resolves both teams through them (see MATCH_WITH_TEAMS_SELECT)
+  home_team_id uuid not null constraint matches_home_team_id_fkey references public.teams (id) on delete restrict,
+  away_team_id uuid not null constraint matches_away_team_id_fkey references public.teams (id) on delete restrict,
+  competition_id uuid references public.competitions (id) on delete restrict,
+  competition text, -- Legacy free-text competition, kept for matches entered before the competitions table
+  home_goals integer not null default 0 check (home_goals >= 0),
+  away_goals integer not null default 0 check (away_goals >= 0),
+  notes text,
+  constraint matches_different_teams check (home_team_id <> away_team_id)
+);
+
+create index matches_match_date_idx on public.matches (match_date desc);
+create index matches_home_team_id_idx on public.matches (home_team_id);
+create index matches_away_team_id_idx on public.matches (away_team_id);
+create index matches_competition_id_idx on public.matches (competition_id);
+
+-- One row per player and match
+create table public.player_stats (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  player_id uuid references public.players (id) on delete restrict,
+  player_name text, -- Legacy free-text name, kept for rows entered before the roster existed
+  match_id uuid references public.matches (id) on delete cascade,
+  match_details text, -- Legacy free-text match description, linked to a match on the "Collega partite" page
+  right_foot_goals integer not null default 0 check (right_foot_goals >= 0),
+  left_foot_goals integer not null default 0 check (left_foot_goals >= 0),
+  header_goals integer not null default 0 check (header_goals >= 0),
+  penalties integer not null default 0 check (penalties >= 0),
+  assists integer not null default 0 check (assists >= 0),
+  yellow_cards integer not null default 0 check (yellow_cards >= 0),
+  red_cards integer not null default 0 check (red_cards >= 0),
+  notes text,
+  -- Target of the upserts of the bulk entry page and the offline outbox
+  constraint player_stats_match_id_player_id_key unique (match_id, player_id)
+);
+
+create index player_stats_player_id_idx on public.player_stats (player_id);
+create index player_stats_created_at_idx on public.player_stats (created_at desc);
+
+-- Match timeline: one row per goal, card or substitution. The score and the player stats
+-- of a match with events are derived from them in the database (sync_match_from_events, run by
+-- a trigger on this table).
+create table public.match_events (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  minute integer not null check (minute >= 0),
+  added_minute integer check (added_minute > 0), -- The "2" in 45'+2
+  period text, -- Period label from the match clock, e.g. "2° Tempo"
+  event_type text not null check (event_type in ('goal', 'own_goal', 'yellow_card', 'red_card', 'substitution')),
+  -- goal / own_goal: the team credited with the goal; cards and substitutions: the player's team
+  team_id uuid not null references public.teams (id) on delete restrict,
+  player_id uuid references public.players (id) on delete restrict, -- Roster players only, null for opponents
+  related_player_id uuid references public.players (id) on delete restrict, -- Assist provider, or player coming on
+  goal_type text check (goal_type in ('right_foot', 'left_foot', 'header', 'penalty')),
+  notes text
+);
+
+create index match_events_match_id_idx on public.match_events (match_id);
+create index match_events_team_id_idx on public.match_events (team_id);
+create index match_events_player_id_idx on public.match_events (player_id);
+create index match_events_related_player_id_idx on public.match_events (related_player_id);
@@ -0,0 +1,54 @@
+-- Read-only views the app queries. security_invoker makes them apply the row level security
+-- of the tables they read, as the user querying them.
+
+-- Matches with the columns the matches list filters, sorts and searches on (see lib/matchList).
+-- m.* comes first and unchanged, so PostgREST still resolves teams and competition through the foreign keys.
+create view public.match_list with (security_invoker = true) as
+select
+  m.*,
+  home.name as home_team_name,
+  away.name as away_team_name,
+  coalesce(c.name, m.competition) as competition_name,
+  -- Seen from our club's side: null when our club didn't play the match
+  case
+    when home.is_own_club then true
+    when away.is_own_club then false
+  end as is_home,
+  case
+    when home.is_own_club then m.away_team_id
+    when away.is_own_club then m.home_team_id
+  end as opponent_id,
+  case
+    when not home.is_own_club and not away.is_own_club then null
+    when m.home_goals = m.away_goals then 'draw'
+    when (m.home_goals > m.away_goals) = home.is_own_club then 'win'
+    else 'loss'
+  end as result,
+  concat_ws(' ', home.name, away.name, coalesce(c.name, m.competition), m.notes) as search_text
+from public.matches m
+join public.teams home on home.id = m.home_team_id
+join public.teams away on away.id = m.away_team_id
+left join public.competitions c on c.id = m.competition_id;
+
+-- Official totals: one row per roster player and season, the season found from the match date.
+-- Rows of competitions that don't count for stats (friendlies) and legacy rows without
+-- a roster player or a match are left out.
+create view public.player_total_stats with (security_invoker = true) as
+select
+  p.id as player_id,
+  p.name as player_name,
+  s.id as season_id,
+  sum(ps.right_foot_goals)::integer as total_right_foot_goals,
+  sum(ps.left_foot_goals)::integer as total_left_foot_goals,
+  sum(ps.header_goals)::integer as total_header_goals,
+  sum(ps.penalties)::integer as total_penalties,
+  sum(ps.assists)::integer as total_assists,
+  sum(ps.yellow_cards)::integer as total_yellow_cards,
+  sum(ps.red_cards)::integer as total_red_cards
+from public.player_stats ps
+join public.players p on p.id = ps.player_id
+join public.matches m on m.id = ps.match_id
+left join public.competitions c on c.id = m.competition_id
+left join public.seasons s on m.match_date::date between s.start_date and s.end_date
+where coalesce(c.counts_for_stats, true)
+group by p.id, p.name, s.id;
@@ -0,0 +1,62 @@
+-- Access by role, as in src/lib/roles.ts. The role is read from the user's app_metadata,
+-- which only the service key can change:
+--   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role": "coach"}' where email = '...';
+-- Signed-in users without a role are viewers. Anonymous requests see nothing.
+
+create or replace function public.app_role()
+returns text
+language sql
+stable
+as $$
+  select case
+    when auth.jwt() -> 'app_metadata' ->> 'role' in ('admin', 'coach', 'viewer') then auth.jwt() -> 'app_metadata' ->> 'role'
+    else 'viewer'
+  end;
+$$;
+
+-- read: every role; write and delete: admins and coaches; manage (seasons): admins only
+create or replace function public.has_permission(permission text)
+returns boolean
+language sql
+stable
+as $$
+  select case public.app_role()
+    when 'admin' then permission in ('read', 'write', 'delete', 'manage')
+    when 'coach' then permission in ('read', 'write', 'delete')
+    else permission = 'read'
+  end;
+$$;
+
+alter table public.seasons enable row level security;
+alter table public.teams enable row level security;
+alter table public.competitions enable row level security;
+alter table public.players enable row level security;
+alter table public.matches enable row level security;
+alter table public.player_stats enable row level security;
+alter table public.match_events enable row level security;
+
+-- Seasons decide what is read-only, so only admins change them
+create policy "Seasons are readable by signed-in users" on public.seasons
+  for select to authenticated using (public.has_permission('read'));
+create policy "Admins insert seasons" on public.seasons
+  for insert to authenticated with check (public.has_permission('manage'));
+create policy "Admins update seasons" on public.seasons
+  for update to authenticated using (public.has_permission('manage')) with check (public.has_permission('manage'));
+create policy "Admins delete seasons" on public.seasons
+  for delete to authenticated using (public.has_permission('manage'));
+
+-- Every other table: the same policies, by permission
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['teams', 'competitions', 'players', 'matches', 'player_stats', 'match_events'] loop
+    execute format('create policy "Readable by signed-in users" on public.%I for select to authenticated using (public.has_permission(''read''))', table_name);
+    execute format('create policy "Writable by admins and coaches" on public.%I for insert to authenticated with check (public.has_permission(''write''))', table_name);
+    execute format('create policy "Editable by admins and coaches" on public.%I for update to authenticated using (public.has_permission(''write'')) with check (public.has_permission(''write''))', table_name);
+    execute format('create policy "Deletable by admins and coaches" on public.%I for delete to authenticated using (public.has_permission(''delete''))', table_name);
+  end loop;
+end
+$$;
+
+grant select on public.match_list, public.player_total_stats to authenticated;
@@ -0,0 +1,92 @@
+-- Rows of the first version of the app, kept in the legacy schema by the keep_legacy_tables migration.
+-- Matches named their teams as free text: every name becomes a team (names differing only in case and
+-- spacing are the same team) and the matches point at it. Stats keep their free-text player and match,
+-- to be linked from the app. The legacy schema is left as it is: drop it once the data has been checked.
+
+create or replace function pg_temp.normalize_name(name text) returns text
+language sql immutable as $$
+  select lower(regexp_replace(trim(name), '\s+', ' ', 'g'))
+$$;
+
+-- Ids of the old tables may not be uuids: those rows get a new one
+create or replace function pg_temp.legacy_uuid(id text) returns uuid
+language sql volatile as $$
+  select case
+    when id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then id::uuid
+    else gen_random_uuid()
+  end
+$$;
+
+do $$
+declare
+  match_count integer;
+begin
+  if to_regclass('legacy.matches') is not null then
+    -- One team per name, spelled as in its first match
+    insert into public.teams (name)
+    select distinct on (pg_temp.normalize_name(team_name)) regexp_replace(trim(team_name), '\s+', ' ', 'g')
+    from (
+      select home_team_id::text as team_name, match_date from legacy.matches
+      union all
+      select away_team_id::text, match_date from legacy.matches
+    ) names
+    where nullif(trim(team_name), '') is not null
+      and not exists (select 1 from public.teams t where pg_temp.normalize_name(t.name) = pg_temp.normalize_name(team_name))
+    order by pg_temp.normalize_name(team_name), match_date;
+
+    -- Our club is the team playing every match; otherwise it is chosen on the teams page
+    select count(*) into match_count from legacy.matches;
+    if match_count > 0 and not exists (select 1 from public.teams where is_own_club) then
+      update public.teams t
+      set is_own_club = true
+      where t.id = (
+        select t2.id
+        from public.teams t2
+        join legacy.matches m
+          on pg_temp.normalize_name(t2.name) in (pg_temp.normalize_name(m.home_team_id::text), pg_temp.normalize_name(m.away_team_id::text))
+        group by t2.id
+        having count(*) = match_count
+        limit 1
+      );
+    end if;
+
+    insert into public.matches (id, match_date, home_team_id, away_team_id, competition, home_goals, away_goals, notes)
+    select
+      pg_temp.legacy_uuid(m.id::text),
+      m.match_date,
+      home.id,
+      away.id,
+      nullif(trim(m.competition), ''),
+      coalesce(m.home_goals, 0),
+      coalesce(m.away_goals, 0),
+      m.notes
+    from legacy.matches m
+    join public.teams home on pg_temp.normalize_name(home.name) = pg_temp.normalize_name(m.home_team_id::text)
+    join public.teams away on pg_temp.normalize_name(away.name) = pg_temp.normalize_name(m.away_team_id::text);
+
+    if (select count(*) from public.matches) < match_count then
+      raise exception 'Some legacy matches have no home or away team: fill them in legacy.matches and run the migration again';
+    end if;
+  end if;
+
+  if to_regclass('legacy.player_stats') is not null then
+    insert into public.player_stats (
+      id, created_at, player_name, match_details,
+      right_foot_goals, left_foot_goals, header_goals, penalties, assists, yellow_cards, red_cards, notes
+    )
+    select
+      pg_temp.legacy_uuid(ps.id::text),
+      coalesce(ps.created_at, now()),
+      nullif(trim(ps.player_name), ''),
+      nullif(trim(ps.match_details), ''),
+      coalesce(ps.right_foot_goals, 0),
+      coalesce(ps.left_foot_goals, 0),
+      coalesce(ps.header_goals, 0),
+      coalesce(ps.penalties, 0),
+      coalesce(ps.assists, 0),
+      coalesce(ps.yellow_cards, 0),
+      coalesce(ps.red_cards, 0),
+      ps.notes
+    from legacy.player_stats ps;
+  end if;
+end $$;
@@ -0,0 +1,42 @@
+-- Stats of the first version name their player as free text. A name equal to the name of exactly one
+-- roster player (case and spacing aside) is linked to that player; the other names are linked from the
+-- app ("Collega calciatori"), which also calls this function again once the roster has been entered.
+
+create or replace function public.link_player_stats_by_name()
+returns integer
+language plpgsql
+security invoker -- Writes through the player_stats policies, as the user calling it
+set search_path = public
+as $$
+declare
+  linked integer;
+begin
+  with roster as (
+    select id, lower(regexp_replace(trim(name), '\s+', ' ', 'g')) as name_key
+    from public.players
+  ),
+  unique_names as (
+    select min(id::text)::uuid as player_id, name_key
+    from roster
+    group by name_key
+    having count(*) = 1
+  )
+  update public.player_stats ps
+  set player_id = u.player_id
+  from unique_names u
+  where ps.player_id is null
+    and lower(regexp_replace(trim(ps.player_name), '\s+', ' ', 'g')) = u.name_key
+    -- One row per player and match: rows that would clash stay to be resolved by hand
+    and not exists (
+      select 1 from public.player_stats other
+      where other.match_id = ps.match_id
+        and other.id <> ps.id
+        and (other.player_id = u.player_id
+          or (other.player_id is null and lower(regexp_replace(trim(other.player_name), '\s+', ' ', 'g')) = u.name_key))
+    );
+  get diagnostics linked = row_count;
+  return linked;
+end;
+$$;
+
+select public.link_player_stats_by_name();
@@ -0,0 +1,98 @@
+-- A match with a timeline gets its score and its player stats from the events, rewritten by a trigger
+-- in the same transaction as the event change, so they can't disagree (same rules as
+-- derivePlayerStats in src/lib/matchEvents.ts, which the in-memory backend uses).
+-- Stats are updated per player: notes and the legacy free-text columns stay, rows of players no longer
+-- credited by any event are set to zero and removed when nothing else is left in them. Rows without
+-- a roster player are not touched, events can't credit them.
+
+create or replace function public.sync_match_from_events(p_match_id uuid)
+returns void
+language plpgsql
+security definer -- Runs for whoever could change the event, whatever their rights on stats
+set search_path = public
+as $$
+declare
+  v_home_team_id uuid;
+  v_away_team_id uuid;
+begin
+  select home_team_id, away_team_id into v_home_team_id, v_away_team_id
+  from public.matches
+  where id = p_match_id;
+  if not found then
+    return; -- Deleted together with its events
+  end if;
+
+  update public.matches m
+  set
+    home_goals = (select count(*) from public.match_events e
+      where e.match_id = p_match_id and e.event_type in ('goal', 'own_goal') and e.team_id = v_home_team_id),
+    away_goals = (select count(*) from public.match_events e
+      where e.match_id = p_match_id and e.event_type in ('goal', 'own_goal') and e.team_id = v_away_team_id)
+  where m.id = p_match_id;
+
+  update public.player_stats
+  set right_foot_goals = 0, left_foot_goals = 0, header_goals = 0, penalties = 0, assists = 0, yellow_cards = 0, red_cards = 0
+  where match_id = p_match_id and player_id is not null;
+
+  -- Own goals are not credited to the scorer, substitutions change no counter
+  insert into public.player_stats (match_id, player_id, right_foot_goals, left_foot_goals, header_goals, penalties, assists, yellow_cards, red_cards)
+  select
+    p_match_id,
+    credited.player_id,
+    count(*) filter (where credited.kind = 'goal' and coalesce(credited.goal_type, 'right_foot') = 'right_foot'),
+    count(*) filter (where credited.kind = 'goal' and credited.goal_type = 'left_foot'),
+    count(*) filter (where credited.kind = 'goal' and credited.goal_type = 'header'),
+    count(*) filter (where credited.kind = 'goal' and credited.goal_type = 'penalty'),
+    count(*) filter (where credited.kind = 'assist'),
+    count(*) filter (where credited.kind = 'yellow_card'),
+    count(*) filter (where credited.kind = 'red_card')
+  from (
+    select e.player_id, e.event_type as kind, e.goal_type
+    from public.match_events e
+    where e.match_id = p_match_id and e.event_type in ('goal', 'yellow_card', 'red_card') and e.player_id is not null
+    union all
+    select e.related_player_id, 'assist', null
+    from public.match_events e
+    where e.match_id = p_match_id and e.event_type = 'goal' and e.related_player_id is not null
+  ) credited
+  group by credited.player_id
+  on conflict (match_id, player_id) do update set
+    right_foot_goals = excluded.right_foot_goals,
+    left_foot_goals = excluded.left_foot_goals,
+    header_goals = excluded.header_goals,
+    penalties = excluded.penalties,
+    assists = excluded.assists,
+    yellow_cards = excluded.yellow_cards,
+    red_cards = excluded.red_cards;
+
+  delete from public.player_stats
+  where match_id = p_match_id
+    and player_id is not null
+    and right_foot_goals + left_foot_goals + header_goals + penalties + assists + yellow_cards + red_cards = 0
+    and nullif(trim(notes), '') is null;
+end;
+$$;
+
+-- Only the trigger calls it
+revoke execute on function public.sync_match_from_events(uuid) from public, anon, authenticated;
+
+create or replace function public.match_events_sync_match()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.sync_match_from_events(old.match_id);
+  end if;
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.match_id is distinct from old.match_id) then
+    perform public.sync_match_from_events(new.match_id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger match_events_sync_match
+after insert or update or delete on public.match_events
+for each row execute function public.match_events_sync_match();
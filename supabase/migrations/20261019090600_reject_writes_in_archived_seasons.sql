@@ -0,0 +1,63 @@
+-- Archived seasons are read-only: their matches, and the stats and events of those matches, can't be
+-- added, changed or deleted, whatever the role. The season of a match is the one whose dates hold the
+-- match date, as in findSeasonForDate (src/lib/seasons.ts). A row moved into or out of an archived
+-- season is rejected too. To correct one, an admin reopens the season first, as a backup restore does
+-- (restoreBackup in src/lib/backup.ts). Legacy stats without a match belong to no season.
+
+create or replace function public.reject_archived_season_writes()
+returns trigger
+language plpgsql
+security definer -- Finds the season whatever the user can read
+set search_path = public
+as $$
+declare
+  v_match_dates timestamptz[] := '{}';
+  v_season_name text;
+begin
+  if tg_table_name = 'matches' then
+    if tg_op in ('UPDATE', 'DELETE') then
+      v_match_dates := v_match_dates || old.match_date;
+    end if;
+    if tg_op in ('INSERT', 'UPDATE') then
+      v_match_dates := v_match_dates || new.match_date;
+    end if;
+  else
+    if tg_op in ('UPDATE', 'DELETE') then
+      v_match_dates := v_match_dates || array(select m.match_date from public.matches m where m.id = old.match_id);
+    end if;
+    if tg_op in ('INSERT', 'UPDATE') then
+      v_match_dates := v_match_dates || array(select m.match_date from public.matches m where m.id = new.match_id);
+    end if;
+  end if;
+
+  select s.name into v_season_name
+  from public.seasons s
+  where s.is_archived
+    and exists (select 1 from unnest(v_match_dates) d where d::date between s.start_date and s.end_date)
+  limit 1;
+  if v_season_name is not null then
+    raise exception 'La partita appartiene alla stagione archiviata %: riaprila per modificarla.', v_season_name
+      using errcode = 'check_violation';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+-- Only the triggers call it
+revoke execute on function public.reject_archived_season_writes() from public, anon, authenticated;
+
+create trigger matches_reject_archived_season
+before insert or update or delete on public.matches
+for each row execute function public.reject_archived_season_writes();
+
+create trigger player_stats_reject_archived_season
+before insert or update or delete on public.player_stats
+for each row execute function public.reject_archived_season_writes();
+
+create trigger match_events_reject_archived_season
+before insert or update or delete on public.match_events
+for each row execute function public.reject_archived_season_writes();
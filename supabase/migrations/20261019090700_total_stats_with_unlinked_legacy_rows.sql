@@ -0,0 +1,25 @@
+-- Legacy rows not linked to a roster player or a match were left out of the official totals. They
+-- now count: rows without a roster player are summed by their free-text name (case and spacing aside)
+-- with a null player_id, and rows without a match have no season, so they are only counted across
+-- all seasons. Same columns as before, so the view is replaced in place and keeps its grants.
+
+create or replace view public.player_total_stats with (security_invoker = true) as
+select
+  p.id as player_id,
+  coalesce(p.name, min(regexp_replace(trim(ps.player_name), '\s+', ' ', 'g'))) as player_name,
+  s.id as season_id,
+  sum(ps.right_foot_goals)::integer as total_right_foot_goals,
+  sum(ps.left_foot_goals)::integer as total_left_foot_goals,
+  sum(ps.header_goals)::integer as total_header_goals,
+  sum(ps.penalties)::integer as total_penalties,
+  sum(ps.assists)::integer as total_assists,
+  sum(ps.yellow_cards)::integer as total_yellow_cards,
+  sum(ps.red_cards)::integer as total_red_cards
+from public.player_stats ps
+left join public.players p on p.id = ps.player_id
+left join public.matches m on m.id = ps.match_id
+left join public.competitions c on c.id = m.competition_id
+left join public.seasons s on m.match_date::date between s.start_date and s.end_date
+where coalesce(c.counts_for_stats, true)
+group by p.id, p.name, s.id,
+  case when p.id is null then lower(regexp_replace(trim(ps.player_name), '\s+', ' ', 'g')) end;
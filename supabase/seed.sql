@@ -0,0 +1,100 @@
+-- Demo club for a local backend: two seasons (the older one archived), five opponents, a roster
+-- of twelve and a few matches with their player stats. Same data as the in-memory backend
+-- (src/lib/repositories/demoData.ts), ids included, so backups move freely between the two.
+-- Loaded by `supabase db reset` after the migrations.
+
+insert into public.seasons (id, name, start_date, end_date, is_archived) values
+  ('00000000-0000-4000-8000-000100000001', '2024/25', '2024-08-01', '2025-06-30', false), -- Archived at the end
+  ('00000000-0000-4000-8000-000100000002', '2025/26', '2025-08-01', '2026-06-30', false);
+
+insert into public.teams (id, name, short_name, primary_color, secondary_color, is_own_club) values
+  ('00000000-0000-4000-8000-000200000001', '14 Leon', 'LEON', '#1e40af', '#ffffff', true),
+  ('00000000-0000-4000-8000-000200000002', 'Atletico Brianza', 'BRI', '#b91c1c', '#ffffff', false),
+  ('00000000-0000-4000-8000-000200000003', 'Real Navigli', 'NAV', '#0f766e', null, false),
+  ('00000000-0000-4000-8000-000200000004', 'Sporting Lambro', 'LAM', '#15803d', '#facc15', false),
+  ('00000000-0000-4000-8000-000200000005', 'Virtus Martesana', 'MAR', '#000000', '#ffffff', false),
+  ('00000000-0000-4000-8000-000200000006', 'Polisportiva Ticino', 'TIC', '#7c3aed', null, false);
+
+insert into public.competitions (id, name, type, season_id, points_per_win, points_per_draw, points_per_loss, tie_breakers, counts_for_stats) values
+  ('00000000-0000-4000-8000-000300000001', 'Campionato 2024/25', 'league', '00000000-0000-4000-8000-000100000001', 3, 1, 0, array['head_to_head', 'goal_difference', 'goals_for'], true),
+  ('00000000-0000-4000-8000-000300000002', 'Campionato 2025/26', 'league', '00000000-0000-4000-8000-000100000002', 3, 1, 0, array['head_to_head', 'goal_difference', 'goals_for'], true),
+  ('00000000-0000-4000-8000-000300000003', 'Coppa di Lega', 'cup', '00000000-0000-4000-8000-000100000002', 3, 1, 0, array['head_to_head', 'goal_difference', 'goals_for'], true),
+  ('00000000-0000-4000-8000-000300000004', 'Amichevoli', 'friendly', '00000000-0000-4000-8000-000100000002', 3, 1, 0, array['head_to_head', 'goal_difference', 'goals_for'], false);
+
+insert into public.players (id, name, shirt_number, position, preferred_foot, birth_date, is_active) values
+  ('00000000-0000-4000-8000-000400000001', 'Marco Rossi', 1, 'goalkeeper', 'right', '1992-03-14', true),
+  ('00000000-0000-4000-8000-000400000002', 'Luca Bianchi', 2, 'defender', 'right', '1994-07-02', true),
+  ('00000000-0000-4000-8000-000400000003', 'Andrea Colombo', 3, 'defender', 'left', '1990-11-21', true),
+  ('00000000-0000-4000-8000-000400000004', 'Davide Ferrari', 4, 'defender', 'right', '1996-01-09', true),
+  ('00000000-0000-4000-8000-000400000005', 'Matteo Ricci', 5, 'defender', 'right', '1993-05-30', true),
+  ('00000000-0000-4000-8000-000400000006', 'Simone Romano', 6, 'midfielder', 'right', '1995-09-18', true),
+  ('00000000-0000-4000-8000-000400000007', 'Federico Greco', 7, 'midfielder', 'left', '1997-04-12', true),
+  ('00000000-0000-4000-8000-000400000008', 'Alessandro Conti', 8, 'midfielder', 'both', '1991-12-03', true),
+  ('00000000-0000-4000-8000-000400000009', 'Stefano Marino', 9, 'forward', 'right', '1994-02-25', true),
+  ('00000000-0000-4000-8000-000400000010', 'Paolo Gallo', 10, 'forward', 'left', '1993-08-07', true),
+  ('00000000-0000-4000-8000-000400000011', 'Giorgio Costa', 11, 'forward', 'right', '1998-06-16', true),
+  ('00000000-0000-4000-8000-000400000012', 'Nicola Fontana', 12, 'goalkeeper', 'right', '1999-10-28', false);
+
+insert into public.matches (id, match_date, home_team_id, away_team_id, competition_id, home_goals, away_goals, notes) values
+  ('00000000-0000-4000-8000-000500000001', '2024-09-21T15:00:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000004', '00000000-0000-4000-8000-000300000001', 2, 0, ''),
+  ('00000000-0000-4000-8000-000500000002', '2024-11-16T15:00:00', '00000000-0000-4000-8000-000200000005', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000300000001', 1, 1, ''),
+  ('00000000-0000-4000-8000-000500000003', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000002', '00000000-0000-4000-8000-000300000001', 3, 2, ''),
+  ('00000000-0000-4000-8000-000500000004', '2025-08-30T10:30:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000006', '00000000-0000-4000-8000-000300000004', 4, 1, ''),
+  ('00000000-0000-4000-8000-000500000005', '2025-09-13T15:00:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000002', '00000000-0000-4000-8000-000300000002', 2, 1, ''),
+  ('00000000-0000-4000-8000-000500000006', '2025-09-20T15:00:00', '00000000-0000-4000-8000-000200000003', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000300000002', 1, 1, ''),
+  ('00000000-0000-4000-8000-000500000007', '2025-09-20T17:00:00', '00000000-0000-4000-8000-000200000002', '00000000-0000-4000-8000-000200000004', '00000000-0000-4000-8000-000300000002', 1, 1, ''),
+  ('00000000-0000-4000-8000-000500000008', '2025-09-27T15:00:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000004', '00000000-0000-4000-8000-000300000002', 3, 0, 'Prima porta inviolata della stagione.'),
+  ('00000000-0000-4000-8000-000500000009', '2025-09-27T17:00:00', '00000000-0000-4000-8000-000200000003', '00000000-0000-4000-8000-000200000005', '00000000-0000-4000-8000-000300000002', 2, 1, ''),
+  ('00000000-0000-4000-8000-000500000010', '2025-10-04T15:00:00', '00000000-0000-4000-8000-000200000005', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000300000002', 2, 0, ''),
+  ('00000000-0000-4000-8000-000500000011', '2025-10-15T20:30:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000003', '00000000-0000-4000-8000-000300000003', 2, 2, ''),
+  ('00000000-0000-4000-8000-000500000012', '2025-10-18T15:00:00', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000200000006', '00000000-0000-4000-8000-000300000002', 1, 0, ''),
+  ('00000000-0000-4000-8000-000500000013', '2025-10-25T15:00:00', '00000000-0000-4000-8000-000200000002', '00000000-0000-4000-8000-000200000001', '00000000-0000-4000-8000-000300000002', 0, 3, '');
+
+insert into public.player_stats (id, created_at, player_id, match_id, right_foot_goals, left_foot_goals, header_goals, penalties, assists, yellow_cards, red_cards, notes) values
+  ('00000000-0000-4000-8000-000600000001', '2024-09-21T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000001', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000002', '2024-09-21T15:00:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000001', 0, 1, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000003', '2024-09-21T15:00:00', '00000000-0000-4000-8000-000400000007', '00000000-0000-4000-8000-000500000001', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000004', '2024-09-21T15:00:00', '00000000-0000-4000-8000-000400000008', '00000000-0000-4000-8000-000500000001', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000005', '2024-11-16T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000002', 0, 0, 1, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000006', '2024-11-16T15:00:00', '00000000-0000-4000-8000-000400000003', '00000000-0000-4000-8000-000500000002', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000007', '2024-11-16T15:00:00', '00000000-0000-4000-8000-000400000005', '00000000-0000-4000-8000-000500000002', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000008', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000003', 0, 0, 0, 1, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000009', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000400000011', '00000000-0000-4000-8000-000500000003', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000010', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000003', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000011', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000400000008', '00000000-0000-4000-8000-000500000003', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000012', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000400000004', '00000000-0000-4000-8000-000500000003', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000013', '2025-03-08T15:00:00', '00000000-0000-4000-8000-000400000006', '00000000-0000-4000-8000-000500000003', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000014', '2025-08-30T10:30:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000004', 1, 0, 1, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000015', '2025-08-30T10:30:00', '00000000-0000-4000-8000-000400000011', '00000000-0000-4000-8000-000500000004', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000016', '2025-08-30T10:30:00', '00000000-0000-4000-8000-000400000007', '00000000-0000-4000-8000-000500000004', 0, 1, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000017', '2025-08-30T10:30:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000004', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000018', '2025-08-30T10:30:00', '00000000-0000-4000-8000-000400000008', '00000000-0000-4000-8000-000500000004', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000019', '2025-09-13T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000005', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000020', '2025-09-13T15:00:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000005', 0, 1, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000021', '2025-09-13T15:00:00', '00000000-0000-4000-8000-000400000007', '00000000-0000-4000-8000-000500000005', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000022', '2025-09-13T15:00:00', '00000000-0000-4000-8000-000400000004', '00000000-0000-4000-8000-000500000005', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000023', '2025-09-20T15:00:00', '00000000-0000-4000-8000-000400000008', '00000000-0000-4000-8000-000500000006', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000024', '2025-09-20T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000006', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000025', '2025-09-20T15:00:00', '00000000-0000-4000-8000-000400000002', '00000000-0000-4000-8000-000500000006', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000026', '2025-09-20T15:00:00', '00000000-0000-4000-8000-000400000006', '00000000-0000-4000-8000-000500000006', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000027', '2025-09-27T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000008', 0, 0, 0, 1, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000028', '2025-09-27T15:00:00', '00000000-0000-4000-8000-000400000011', '00000000-0000-4000-8000-000500000008', 0, 0, 1, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000029', '2025-09-27T15:00:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000008', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000030', '2025-09-27T15:00:00', '00000000-0000-4000-8000-000400000003', '00000000-0000-4000-8000-000500000008', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000031', '2025-09-27T15:00:00', '00000000-0000-4000-8000-000400000007', '00000000-0000-4000-8000-000500000008', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000032', '2025-10-04T15:00:00', '00000000-0000-4000-8000-000400000005', '00000000-0000-4000-8000-000500000010', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000033', '2025-10-04T15:00:00', '00000000-0000-4000-8000-000400000004', '00000000-0000-4000-8000-000500000010', 0, 0, 0, 0, 0, 0, 1, ''),
+  ('00000000-0000-4000-8000-000600000034', '2025-10-15T20:30:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000011', 0, 1, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000035', '2025-10-15T20:30:00', '00000000-0000-4000-8000-000400000006', '00000000-0000-4000-8000-000500000011', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000036', '2025-10-15T20:30:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000011', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000037', '2025-10-18T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000012', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000038', '2025-10-18T15:00:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000012', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000039', '2025-10-18T15:00:00', '00000000-0000-4000-8000-000400000008', '00000000-0000-4000-8000-000500000012', 0, 0, 0, 0, 0, 1, 0, ''),
+  ('00000000-0000-4000-8000-000600000040', '2025-10-25T15:00:00', '00000000-0000-4000-8000-000400000011', '00000000-0000-4000-8000-000500000013', 1, 0, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000041', '2025-10-25T15:00:00', '00000000-0000-4000-8000-000400000009', '00000000-0000-4000-8000-000500000013', 0, 1, 0, 0, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000042', '2025-10-25T15:00:00', '00000000-0000-4000-8000-000400000010', '00000000-0000-4000-8000-000500000013', 0, 0, 0, 1, 0, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000043', '2025-10-25T15:00:00', '00000000-0000-4000-8000-000400000007', '00000000-0000-4000-8000-000500000013', 0, 0, 0, 0, 1, 0, 0, ''),
+  ('00000000-0000-4000-8000-000600000044', '2025-10-25T15:00:00', '00000000-0000-4000-8000-000400000008', '00000000-0000-4000-8000-000500000013', 0, 0, 0, 0, 1, 0, 0, '');
+
+-- Archived once its matches and stats are in: writes to archived seasons are rejected
+update public.seasons set is_archived = true where id = '00000000-0000-4000-8000-000100000001';
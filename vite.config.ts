@@ -1,7 +1,9 @@
 import { defineConfig, Plugin, HtmlTagDescriptor } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { VitePWA } from "vite-plugin-pwa";
 import path from "path";
 import fs from "fs";
+import { CLUB_COLOR, CLUB_NAME } from "./src/lib/club";
 
 export function devErrorAndNavigationPlugin(): Plugin {
   let stacktraceJsContent: string | null = null;
@@ -92,7 +94,36 @@ export default defineConfig(() => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), devErrorAndNavigationPlugin()],
+  plugins: [
+    react(),
+    devErrorAndNavigationPlugin(),
+    // Installable app: the service worker precaches the build, so every route opens without a network.
+    // Data comes from the persisted query cache (see App.tsx). New versions wait for the user, see UpdatePrompt.
+    VitePWA({
+      registerType: "prompt",
+      includeAssets: ["favicon.ico", "apple-touch-icon.png"],
+      manifest: {
+        name: `${CLUB_NAME} · Statistiche Calcio`,
+        short_name: CLUB_NAME,
+        description: `Partite, statistiche e classifiche del ${CLUB_NAME}`,
+        lang: "it",
+        start_url: "/",
+        display: "standalone",
+        theme_color: CLUB_COLOR,
+        background_color: "#ffffff",
+        icons: [
+          { src: "pwa-192x192.png", sizes: "192x192", type: "image/png" },
+          { src: "pwa-512x512.png", sizes: "512x512", type: "image/png" },
+          { src: "pwa-512x512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,png,svg}"],
+        navigateFallback: "index.html", // Client-side routes (/stopwatch, /matches/...) are all served by the app shell
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // The PDF and Excel writers are large chunks
+      },
+    }),
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),